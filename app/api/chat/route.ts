@@ -0,0 +1,151 @@
+import { ProviderError } from "../../../components/providers/errors";
+import type { ChatErrorPayload } from "../../../components/providers/errors";
+import { fakeProvider } from "../../../components/providers/fake";
+import { createOpenAICompatibleProvider } from "../../../components/providers/openai";
+import { encodeChatEvent } from "../../../components/providers/protocol";
+import type { ChatRouteRequest } from "../../../components/providers/protocol";
+import type { GenerationParams, MessagePart } from "../../../components/types";
+
+export const dynamic = "force-dynamic";
+
+// OpenAI-compatible APIs accept at most four stop sequences.
+const MAX_STOP_SEQUENCES = 4;
+
+const upstreamProvider = createOpenAICompatibleProvider({
+  id: "openai",
+  label: "The upstream model",
+  baseUrl: process.env.OPENAI_BASE_URL || "https://api.openai.com/v1",
+  model: process.env.OPENAI_MODEL || "gpt-4o-mini",
+  apiKey: process.env.OPENAI_API_KEY
+});
+
+const fakeBackendAllowed = () =>
+  process.env.NODE_ENV !== "production" || process.env.CHAT_ALLOW_FAKE_BACKEND === "1";
+
+const errorResponse = (error: ChatErrorPayload, status: number) => {
+  const headers: Record<string, string> = {};
+  if (error.retryAfter !== undefined) {
+    headers["Retry-After"] = String(error.retryAfter);
+  }
+  return Response.json({ error }, { status, headers });
+};
+
+const toPayload = (error: unknown): { payload: ChatErrorPayload; status: number } => {
+  if (error instanceof ProviderError) {
+    return { payload: error.toPayload(), status: error.status };
+  }
+  console.error("Chat route failed", error);
+  return { payload: { code: "upstream_error", message: "The chat service failed unexpectedly" }, status: 500 };
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+const parseParams = (params: unknown): GenerationParams => {
+  if (!params || typeof params !== "object") return {};
+  const { model, temperature, topP, maxTokens, stop } = params as Record<string, unknown>;
+  const stopSequences = Array.isArray(stop)
+    ? stop.filter((item): item is string => typeof item === "string" && item !== "")
+    : [];
+  return {
+    model: typeof model === "string" && model.trim() ? model.trim() : undefined,
+    temperature: isFiniteNumber(temperature) ? temperature : undefined,
+    topP: isFiniteNumber(topP) ? topP : undefined,
+    maxTokens: isFiniteNumber(maxTokens) ? Math.floor(maxTokens) : undefined,
+    stop: stopSequences.length ? stopSequences.slice(0, MAX_STOP_SEQUENCES) : undefined
+  };
+};
+
+const isImageDataUrl = (value: unknown) => typeof value === "string" && value.startsWith("data:image/");
+
+const isMessagePart = (part: unknown): part is MessagePart => {
+  if (!part || typeof part !== "object") return false;
+  const { type, text, url } = part as Record<string, unknown>;
+  return (type === "text" && typeof text === "string") || (type === "image" && isImageDataUrl(url));
+};
+
+const parseRequest = (body: unknown): ChatRouteRequest | null => {
+  if (!body || typeof body !== "object") return null;
+  const { backend, messages, params } = body as Record<string, unknown>;
+  if (!Array.isArray(messages) || !messages.length) return null;
+  const valid = messages.every(
+    (message) =>
+      message &&
+      (message.role === "system" || message.role === "user" || message.role === "assistant") &&
+      typeof message.content === "string" &&
+      (message.parts === undefined || (Array.isArray(message.parts) && message.parts.every(isMessagePart)))
+  );
+  if (!valid) return null;
+  return {
+    backend: backend === "fake" ? "fake" : "upstream",
+    messages: messages.map(({ role, content, parts }) => ({ role, content, parts })),
+    params: parseParams(params)
+  };
+};
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  const chatRequest = parseRequest(body);
+  if (!chatRequest) {
+    return errorResponse({ code: "bad_request", message: "Expected a non-empty messages array" }, 400);
+  }
+  if (chatRequest.backend === "fake" && !fakeBackendAllowed()) {
+    return errorResponse({ code: "unauthorized", message: "The fake backend is disabled" }, 403);
+  }
+  if (chatRequest.backend === "upstream" && !process.env.OPENAI_API_KEY && !process.env.OPENAI_BASE_URL) {
+    return errorResponse({ code: "not_configured", message: "No upstream model is configured" }, 503);
+  }
+
+  const provider = chatRequest.backend === "fake" ? fakeProvider : upstreamProvider;
+  const messages = chatRequest.messages.map((message, index) => ({
+    ...message,
+    id: String(index),
+    parentId: index ? String(index - 1) : null,
+    createdAt: new Date().toISOString()
+  }));
+  const iterator = provider
+    .streamReply(messages, { signal: request.signal, params: chatRequest.params })
+    [Symbol.asyncIterator]();
+
+  // Wait for the first token so upstream failures keep their HTTP status.
+  let first: IteratorResult<string>;
+  try {
+    first = await iterator.next();
+  } catch (error) {
+    const { payload, status } = toPayload(error);
+    return errorResponse(payload, status);
+  }
+
+  const encoder = new TextEncoder();
+  let cancelled = false;
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (chunk: string) => controller.enqueue(encoder.encode(chunk));
+      try {
+        let result = first;
+        while (!result.done && !cancelled) {
+          send(encodeChatEvent({ type: "token", content: result.value }));
+          result = await iterator.next();
+        }
+        send(encodeChatEvent({ type: "done" }));
+      } catch (error) {
+        if (cancelled || request.signal.aborted) return;
+        send(encodeChatEvent({ type: "error", error: toPayload(error).payload }));
+      }
+      if (!cancelled) {
+        controller.close();
+      }
+    },
+    async cancel() {
+      cancelled = true;
+      await iterator.return?.();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive"
+    }
+  });
+}
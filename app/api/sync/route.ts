@@ -0,0 +1,50 @@
+import { timingSafeEqual } from "crypto";
+import path from "path";
+import { createFileSyncStore } from "../../../components/sync/fileStore";
+import { parseSyncRequest } from "../../../components/sync/protocol";
+import type { SyncErrorPayload } from "../../../components/sync/protocol";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+const store = createFileSyncStore(process.env.SYNC_DATA_DIR || path.join(process.cwd(), ".sync-data"));
+
+// Devices authenticate with a bearer token rather than cookies, so any origin may call this route.
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Authorization, Content-Type"
+};
+
+const errorResponse = (error: SyncErrorPayload, status: number) =>
+  Response.json({ error }, { status, headers: CORS_HEADERS });
+
+const isAuthorized = (request: Request, token: string) => {
+  const expected = Buffer.from(`Bearer ${token}`);
+  const received = Buffer.from(request.headers.get("Authorization") ?? "");
+  return received.length === expected.length && timingSafeEqual(received, expected);
+};
+
+export function OPTIONS() {
+  return new Response(null, { status: 204, headers: CORS_HEADERS });
+}
+
+export async function POST(request: Request) {
+  const token = process.env.SYNC_TOKEN;
+  if (!token) {
+    return errorResponse({ code: "not_configured", message: "Sync is not enabled on this server" }, 503);
+  }
+  if (!isAuthorized(request, token)) {
+    return errorResponse({ code: "unauthorized", message: "The sync token was not accepted" }, 401);
+  }
+  const syncRequest = parseSyncRequest(await request.json().catch(() => null));
+  if (!syncRequest) {
+    return errorResponse({ code: "bad_request", message: "Expected a device, a cursor and a list of changes" }, 400);
+  }
+  try {
+    return Response.json(await store.exchange(syncRequest), { headers: CORS_HEADERS });
+  } catch (error) {
+    console.error("Sync route failed", error);
+    return errorResponse({ code: "server_error", message: "The sync server could not store the changes" }, 500);
+  }
+}
@@ -1,3 +1,5 @@
+import "katex/dist/katex.min.css";
+import "highlight.js/styles/github-dark.css";
 import "./globals.css";
 import type { Metadata } from "next";
 
@@ -0,0 +1,7 @@
+"use client";
+
+import SharedChatView from "../../components/SharedChatView";
+
+export default function SharePage() {
+  return <SharedChatView />;
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import { memo, useEffect, useState } from "react";
+import styles from "./ChatApp.module.css";
+import { formatBytes } from "./attachments";
+import type { ChatAttachment } from "./types";
+
+type AttachmentLoader = (id: string) => Promise<Blob | null>;
+
+const useAttachmentUrl = (id: string, loadAttachment: AttachmentLoader) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [isMissing, setIsMissing] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    let objectUrl: string | null = null;
+    setUrl(null);
+    setIsMissing(false);
+    loadAttachment(id)
+      .then((blob) => {
+        if (cancelled) return;
+        if (!blob) {
+          setIsMissing(true);
+          return;
+        }
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch((error) => {
+        console.warn("Failed to load attachment", error);
+        if (!cancelled) setIsMissing(true);
+      });
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [id, loadAttachment]);
+
+  return { url, isMissing };
+};
+
+type AttachmentItemProps = {
+  attachment: ChatAttachment;
+  loadAttachment: AttachmentLoader;
+  onRemove?: (id: string) => void;
+};
+
+const AttachmentItem = ({ attachment, loadAttachment, onRemove }: AttachmentItemProps) => {
+  const { url, isMissing } = useAttachmentUrl(attachment.id, loadAttachment);
+  const label = `${attachment.name} (${formatBytes(attachment.size)})`;
+
+  return (
+    <li className={styles.attachmentItem}>
+      {attachment.kind === "image" && url ? (
+        <a href={url} target="_blank" rel="noreferrer" title={label}>
+          <img className={styles.attachmentThumbnail} src={url} alt={attachment.name} />
+        </a>
+      ) : (
+        <a
+          className={styles.attachmentFile}
+          href={url ?? undefined}
+          download={attachment.name}
+          title={isMissing ? `${label} is no longer stored in this browser` : label}
+        >
+          <span className={styles.attachmentName}>{attachment.name}</span>
+          <span className={styles.historyTimestamp}>{isMissing ? "Unavailable" : formatBytes(attachment.size)}</span>
+        </a>
+      )}
+      {onRemove && (
+        <button
+          type="button"
+          className={styles.messageActionButton}
+          onClick={() => onRemove(attachment.id)}
+          aria-label={`Remove ${attachment.name}`}
+        >
+          ×
+        </button>
+      )}
+    </li>
+  );
+};
+
+type AttachmentListProps = {
+  attachments: ChatAttachment[];
+  loadAttachment: AttachmentLoader;
+  onRemove?: (id: string) => void;
+};
+
+/** Thumbnails for image attachments and download chips for files, in a message or in the composer. */
+const AttachmentList = ({ attachments, loadAttachment, onRemove }: AttachmentListProps) => (
+  <ul className={styles.attachmentList} aria-label="Attachments">
+    {attachments.map((attachment) => (
+      <AttachmentItem key={attachment.id} attachment={attachment} loadAttachment={loadAttachment} onRemove={onRemove} />
+    ))}
+  </ul>
+);
+
+export default memo(AttachmentList);
@@ -1,15 +1,107 @@
 "use client";
 
-import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import type { KeyboardEvent as ReactKeyboardEvent, RefObject } from "react";
+import { useCallback, useDeferredValue, useEffect, useMemo, useRef, useState } from "react";
+import type {
+  ClipboardEvent as ReactClipboardEvent,
+  DragEvent as ReactDragEvent,
+  KeyboardEvent as ReactKeyboardEvent
+} from "react";
 import clsx from "clsx";
 import debounce from "lodash.debounce";
 import { v4 as uuid } from "uuid";
+import AttachmentList from "./AttachmentList";
+import {
+  ATTACHMENT_ACCEPT,
+  MAX_ATTACHMENTS,
+  describeAttachmentError,
+  readAttachment,
+  saveAttachments,
+  toProviderMessages
+} from "./attachments";
+import type { DraftAttachment } from "./attachments";
 import styles from "./ChatApp.module.css";
-import type { ChatMessage, ChatSession } from "./types";
+import { planContext, summarizeMessages } from "./context";
+import EncryptionSettings from "./EncryptionSettings";
+import { useChatStore } from "./chatStore";
+import {
+  createChatCore,
+  getSessionHistory,
+  selectActiveSession,
+  selectActiveSessionId,
+  selectSessions
+} from "./core";
+import type { SessionPatch } from "./core";
+import ExportSelect from "./ExportSelect";
+import { CONTEXT_STRATEGIES, describeSessionSettings, toGenerationParams } from "./generationSettings";
+import { DEFAULT_SIDEBAR_FILTER, FOLDERS_KEY, readFolders, writeFolders } from "./library";
+import type { SidebarFilter } from "./library";
+import MessageList from "./MessageList";
+import { getActivePath, getPathTo } from "./messageTree";
+import PersonaSettings from "./PersonaSettings";
+import PromptLibrary from "./PromptLibrary";
+import { PROMPTS_KEY, extractVariables, readPrompts, writePrompts } from "./prompts";
+import PromptVariablesForm from "./PromptVariablesForm";
+import {
+  PERSONAS_KEY,
+  buildSystemPrompt,
+  findPersona,
+  getPersonaParams,
+  mergePersonas,
+  readPersonas,
+  writePersonas
+} from "./personas";
+import { DEFAULT_PROVIDER_ID, PROVIDERS, getProvider, isAbortError } from "./providers";
+import { createSearchIndex } from "./search";
+import type { SearchHit } from "./search";
+import Sidebar from "./Sidebar";
+import type { SidebarProps } from "./Sidebar";
+import SessionSettingsDrawer from "./SessionSettingsDrawer";
+import ShareDialog from "./ShareDialog";
+import SlashCommandMenu, { SLASH_MENU_ID, getSlashOptionId } from "./SlashCommandMenu";
+import { buildSlashCommands, getSlashQuery, matchSlashCommands } from "./slashCommands";
+import type { SlashCommand } from "./slashCommands";
+import {
+  VAULT_KEY,
+  VaultError,
+  createSessionPersister,
+  createVault,
+  openSessionStore,
+  readVaultHeader,
+  unlockVault,
+  writeVaultHeader
+} from "./storage";
+import type { SessionPersister, SessionStore, VaultHeader } from "./storage";
+import { DEFAULT_SETTINGS, SETTINGS_KEY, readSettings, writeSettings } from "./settings";
+import { isDictationSupported, isSpeechSynthesisSupported, speak, startDictation, toSpokenText } from "./speech";
+import type { Dictation } from "./speech";
+import type { WorkspaceSettings } from "./settings";
+import { SYNC_CONFIG_KEY, SYNC_OFF, createSyncEngine, readSyncConfig, writeSyncConfig } from "./sync";
+import type { SyncConfig, SyncEngine, SyncStatus } from "./sync";
+import SyncSettings from "./SyncSettings";
+import TitleInput from "./TitleInput";
+import UnlockScreen from "./UnlockScreen";
+import { countTokens } from "./tokenizer";
+import { DEFAULT_TITLE, generateTitle } from "./titles";
+import { ImportError, buildExport, describeImport, downloadFile, parseImport } from "./transfer";
+import type { ExportFormat } from "./transfer";
+import type {
+  ChatAttachment,
+  ChatFolder,
+  ChatMessage,
+  ChatSession,
+  MessageRating,
+  MessageStatus,
+  Persona,
+  PromptTemplate,
+  ProviderId,
+  SessionSettings
+} from "./types";
 
-const STORAGE_KEY = "chatgpt-local-sessions-v1";
 const ACTIVE_SESSION_KEY = "chatgpt-local-active-session";
+const FLASH_DURATION_MS = 1600;
+const TOAST_DURATION_MS = 8000;
+const AUTO_LOCK_CHECK_MS = 15000;
+const IDLE_EVENTS = ["pointerdown", "keydown", "wheel", "touchstart"] as const;
 const EMOJIS: { symbol: string; label: string }[] = [
   { symbol: "😊", label: "Smiling face" },
   { symbol: "😂", label: "Laughing tears" },
@@ -20,137 +112,6 @@ const EMOJIS: { symbol: string; label: string }[] = [
   { symbol: "🎉", label: "Party popper" }
 ];
 
-const MAX_SESSION_HISTORY = 75;
-const TYPING_DELAY_MS = 1000;
-
-const isQuotaError = (error: unknown) => {
-  return (
-    error instanceof DOMException &&
-    (error.name === "QuotaExceededError" || error.name === "NS_ERROR_DOM_QUOTA_REACHED")
-  );
-};
-
-const formatTimestamp = (iso: string) => {
-  const formatter = new Intl.DateTimeFormat([], {
-    hour: "2-digit",
-    minute: "2-digit",
-    month: "short",
-    day: "numeric"
-  });
-  return formatter.format(new Date(iso));
-};
-
-const formatRelativeTimestamp = (iso: string) => {
-  const now = Date.now();
-  const timestamp = new Date(iso).getTime();
-  const diff = now - timestamp;
-
-  const minutes = Math.round(diff / 60000);
-  if (minutes < 1) return "Just now";
-  if (minutes < 60) return `${minutes} min ago`;
-  const hours = Math.round(minutes / 60);
-  if (hours < 24) return `${hours} hr${hours > 1 ? "s" : ""} ago`;
-  const days = Math.round(hours / 24);
-  if (days < 7) return `${days} day${days > 1 ? "s" : ""} ago`;
-  return new Intl.DateTimeFormat([], {
-    month: "short",
-    day: "numeric"
-  }).format(new Date(iso));
-};
-
-const deriveTitle = (messages: ChatMessage[]) => {
-  const firstUser = messages.find((message) => message.role === "user");
-  if (!firstUser) {
-    return "New chat";
-  }
-  const trimmed = firstUser.content.trim().replace(/\s+/g, " ");
-  if (trimmed.length <= 45) {
-    return trimmed;
-  }
-  return `${trimmed.slice(0, 45)}…`;
-};
-
-const createEmptySession = (): ChatSession => {
-  const timestamp = new Date().toISOString();
-  return {
-    id: uuid(),
-    title: "New chat",
-    messages: [],
-    createdAt: timestamp,
-    updatedAt: timestamp
-  };
-};
-
-const simulateAssistantResponse = (prompt: string) => {
-  const trimmed = prompt.trim();
-  if (!trimmed) {
-    return "I'm ready whenever you are!";
-  }
-
-  return [
-    `Here's a quick reflection on your last message:`,
-    `> ${trimmed}`,
-    "",
-    "This demo mirrors the ChatGPT interface with fully local chat history. Feel free to keep exploring or start a new conversation!"
-  ].join("\n");
-};
-
-const sanitizeSessions = (sessions: ChatSession[]): ChatSession[] => {
-  return sessions
-    .filter((session) => session && session.id && Array.isArray(session.messages))
-    .map((session) => ({
-      ...session,
-      title: session.title || deriveTitle(session.messages),
-      createdAt: session.createdAt || new Date().toISOString(),
-      updatedAt: session.updatedAt || session.createdAt || new Date().toISOString(),
-      messages: session.messages
-        .filter((message) => message && message.id && message.role && message.content !== undefined)
-        .map((message) => ({
-          ...message,
-          createdAt: message.createdAt || new Date().toISOString()
-        }))
-    }));
-};
-
-const ensureCapacity = (sessions: ChatSession[]): ChatSession[] => {
-  if (sessions.length <= MAX_SESSION_HISTORY) {
-    return sessions;
-  }
-  return sessions
-    .slice(-MAX_SESSION_HISTORY)
-    .map((session) => ({ ...session, messages: session.messages.slice(-200) }));
-};
-
-const readFromStorage = (): ChatSession[] => {
-  if (typeof window === "undefined") return [];
-  try {
-    const raw = window.localStorage.getItem(STORAGE_KEY);
-    if (!raw) return [];
-    const parsed = JSON.parse(raw) as ChatSession[];
-    return sanitizeSessions(parsed);
-  } catch (error) {
-    console.warn("Failed to read chat sessions from storage", error);
-    return [];
-  }
-};
-
-const persistToStorage = (sessions: ChatSession[]) => {
-  if (typeof window === "undefined") return;
-  let payload = ensureCapacity(sessions);
-  while (payload.length) {
-    try {
-      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(payload));
-      return;
-    } catch (error) {
-      if (!isQuotaError(error)) {
-        console.warn("Failed to write chat sessions", error);
-        return;
-      }
-      payload = payload.slice(1);
-    }
-  }
-};
-
 const writeActiveSession = (sessionId: string | null) => {
   if (typeof window === "undefined") return;
   if (!sessionId) {
@@ -169,45 +130,146 @@ const readActiveSession = (): string | null => {
   return window.localStorage.getItem(ACTIVE_SESSION_KEY);
 };
 
-const createMessage = (role: ChatMessage["role"], content: string): ChatMessage => ({
-  id: uuid(),
-  role,
-  content: content.trimEnd(),
-  createdAt: new Date().toISOString()
-});
+type UndoToast = {
+  message: string;
+  onUndo: () => void;
+  /** Undoing is only offered until this session changes again, since undo would then revert the newer change. */
+  sessionId?: string;
+};
+
+type PendingReply = {
+  sessionId: string;
+  messageId: string;
+  controller: AbortController;
+};
 
 function ChatApp() {
-  const [sessions, setSessions] = useState<ChatSession[]>([]);
-  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const defaultSettingsRef = useRef<SessionSettings>(DEFAULT_SETTINGS.defaultSessionSettings);
+  const chatCore = useMemo(
+    () =>
+      createChatCore({
+        storage: { read: readActiveSession, write: writeActiveSession },
+        defaultSettings: () => defaultSettingsRef.current
+      }),
+    []
+  );
+  const { setSessions } = chatCore;
+  const sessions = useChatStore(chatCore, selectSessions);
+  const activeSessionId = useChatStore(chatCore, selectActiveSessionId);
+  const activeSession = useChatStore(chatCore, selectActiveSession);
+  const sessionHistory = useChatStore(chatCore, (state) => getSessionHistory(state, state.activeSessionId));
   const [inputValue, setInputValue] = useState("");
   const [searchTerm, setSearchTerm] = useState("");
-  const [isTyping, setIsTyping] = useState(false);
+  const [pendingReply, setPendingReply] = useState<PendingReply | null>(null);
   const [emojiOpen, setEmojiOpen] = useState(false);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [quarantinedCount, setQuarantinedCount] = useState(0);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [toast, setToast] = useState<UndoToast | null>(null);
+  const [flashMessageId, setFlashMessageId] = useState<string | null>(null);
+  const [folders, setFolders] = useState<ChatFolder[]>([]);
+  const [sidebarFilter, setSidebarFilter] = useState<SidebarFilter>(DEFAULT_SIDEBAR_FILTER);
+  const [settings, setSettings] = useState<WorkspaceSettings>(DEFAULT_SETTINGS);
+  const [isRenamingTitle, setIsRenamingTitle] = useState(false);
+  const [personas, setPersonas] = useState<Persona[]>([]);
+  const [isCustomizing, setIsCustomizing] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [draftAttachments, setDraftAttachments] = useState<DraftAttachment[]>([]);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const [prompts, setPrompts] = useState<PromptTemplate[]>([]);
+  const [isPromptLibraryOpen, setIsPromptLibraryOpen] = useState(false);
+  const [fillingTemplate, setFillingTemplate] = useState<PromptTemplate | null>(null);
+  const [slashIndex, setSlashIndex] = useState(0);
+  // The input the slash menu was dismissed for; it reopens as soon as the text changes.
+  const [dismissedSlashInput, setDismissedSlashInput] = useState<string | null>(null);
+  const [syncConfig, setSyncConfig] = useState<SyncConfig | null>(null);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>(SYNC_OFF);
+  const [isSyncOpen, setIsSyncOpen] = useState(false);
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const [vaultHeader, setVaultHeader] = useState<VaultHeader | null>(null);
+  const [isLocked, setIsLocked] = useState(false);
+  const [isEncryptionOpen, setIsEncryptionOpen] = useState(false);
+  // Detected after mounting, since the server render can't know what the browser supports.
+  const [canDictate, setCanDictate] = useState(false);
+  const [canSpeak, setCanSpeak] = useState(false);
+  const [isDictating, setIsDictating] = useState(false);
+  const [speakingMessageId, setSpeakingMessageId] = useState<string | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement | null>(null);
   const searchInputRef = useRef<HTMLInputElement | null>(null);
-  const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const pendingReplyRef = useRef<PendingReply | null>(null);
   const mountedRef = useRef(false);
+  const storeRef = useRef<SessionStore | null>(null);
+  const persisterRef = useRef<SessionPersister | null>(null);
+  const syncEngineRef = useRef<SyncEngine | null>(null);
+  const dictationRef = useRef<Dictation | null>(null);
+  const stopSpeakingRef = useRef<(() => void) | null>(null);
 
   const debouncedPersist = useMemo(
-    () => debounce((payload: ChatSession[]) => persistToStorage(payload), 250),
+    () => debounce((payload: ChatSession[]) => persisterRef.current?.persist(payload), 250),
     []
   );
 
-  const activeSession = useMemo(
-    () => sessions.find((session) => session.id === activeSessionId) || null,
-    [sessions, activeSessionId]
+  const activePersona = useMemo(
+    () => findPersona(personas, activeSession?.personaId ?? null),
+    [personas, activeSession]
   );
 
-  const filteredSessions = useMemo(() => {
-    if (!searchTerm.trim()) return sessions;
-    const needle = searchTerm.toLowerCase();
-    return sessions.filter(
-      (session) =>
-        session.title.toLowerCase().includes(needle) ||
-        session.messages.some((message) => message.content.toLowerCase().includes(needle))
-    );
-  }, [sessions, searchTerm]);
+  const activePath = useMemo(() => (activeSession ? getActivePath(activeSession) : []), [activeSession]);
+
+  const deferredInput = useDeferredValue(inputValue);
+
+  // Previews the next request with the draft as its newest message, so the budget counts it too.
+  const contextPlan = useMemo(() => {
+    if (!activeSession) return null;
+    const attachments = draftAttachments.map((item) => item.attachment);
+    const draft =
+      deferredInput.trim() || attachments.length
+        ? [{ ...chatCore.createMessage("user", deferredInput, activeSession.currentNodeId), attachments }]
+        : [];
+    return planContext([...activePath, ...draft], {
+      systemPrompt: buildSystemPrompt(settings.customInstructions, activePersona),
+      budget: activeSession.settings.contextBudget,
+      strategy: activeSession.settings.contextStrategy,
+      summary: activeSession.contextSummary
+    });
+  }, [
+    chatCore,
+    activeSession,
+    activePath,
+    activePersona,
+    deferredInput,
+    draftAttachments,
+    settings.customInstructions
+  ]);
+
+  // Rebuilt only when its members change, so the memoized message list skips renders while typing.
+  const excludedKey = contextPlan ? [...contextPlan.excludedIds].join(" ") : "";
+  const excludedIds = useMemo(() => new Set(excludedKey.split(" ").filter(Boolean)), [excludedKey]);
+
+  const draftTokens = useMemo(() => countTokens(deferredInput), [deferredInput]);
+
+  const slashCommands = useMemo(() => buildSlashCommands(personas, prompts), [personas, prompts]);
+
+  const slashMatches = useMemo(() => {
+    const query = getSlashQuery(inputValue);
+    if (query === null || inputValue === dismissedSlashInput) return [];
+    return matchSlashCommands(slashCommands, query);
+  }, [inputValue, dismissedSlashInput, slashCommands]);
+
+  const activeSlashCommand = slashMatches.length ? slashMatches[Math.min(slashIndex, slashMatches.length - 1)] : null;
+
+  const searchIndex = useMemo(() => createSearchIndex(), []);
+  const deferredSearchTerm = useDeferredValue(searchTerm);
+
+  // The index only catches up while a query is active; updates are incremental either way.
+  const searchResults = useMemo(() => {
+    if (!deferredSearchTerm.trim()) return null;
+    searchIndex.update(sessions);
+    return searchIndex.search(deferredSearchTerm, sidebarFilter);
+  }, [searchIndex, sessions, deferredSearchTerm, sidebarFilter]);
 
   const autoResizeTextarea = useCallback(() => {
     const el = textareaRef.current;
@@ -216,172 +278,748 @@ function ChatApp() {
     el.style.height = `${Math.min(el.scrollHeight, 192)}px`;
   }, []);
 
-  const selectSession = useCallback(
-    (sessionId: string) => {
-      setActiveSessionId(sessionId);
-      writeActiveSession(sessionId);
-      setIsSidebarOpen(false);
-      if (textareaRef.current) {
-        textareaRef.current.focus();
+  useEffect(() => {
+    setCanDictate(isDictationSupported());
+    setCanSpeak(isSpeechSynthesisSupported());
+    return () => {
+      dictationRef.current?.abort();
+      stopSpeakingRef.current?.();
+    };
+  }, []);
+
+  const stopReading = useCallback(() => {
+    stopSpeakingRef.current?.();
+    stopSpeakingRef.current = null;
+    setSpeakingMessageId(null);
+  }, []);
+
+  const handleReadAloud = useCallback(
+    (message: ChatMessage) => {
+      const wasSpeaking = speakingMessageId === message.id;
+      stopReading();
+      const text = toSpokenText(message.content);
+      if (wasSpeaking || !text) return;
+      const stop = speak(text, {
+        voice: settings.speechVoice,
+        rate: settings.speechRate,
+        onEnd: () => {
+          stopSpeakingRef.current = null;
+          setSpeakingMessageId((current) => (current === message.id ? null : current));
+        }
+      });
+      if (!stop) {
+        setNotice("This browser can't read messages aloud.");
+        return;
       }
+      stopSpeakingRef.current = stop;
+      setSpeakingMessageId(message.id);
     },
-    [setActiveSessionId]
+    [speakingMessageId, stopReading, settings.speechVoice, settings.speechRate]
   );
 
-  const initialiseSessions = useCallback(() => {
-    const storedSessions = readFromStorage();
-    if (!storedSessions.length) {
-      const freshSession = createEmptySession();
-      setSessions([freshSession]);
-      setActiveSessionId(freshSession.id);
-      writeActiveSession(freshSession.id);
+  // The Stop control lives on the message, so reading ends when its chat is closed.
+  useEffect(() => stopReading, [activeSessionId, stopReading]);
+
+  // Dictated words are appended to whatever was typed before the microphone was switched on.
+  const handleToggleDictation = useCallback(() => {
+    if (dictationRef.current) {
+      dictationRef.current.stop();
       return;
     }
+    const typed = inputValue.trimEnd();
+    const dictation = startDictation({
+      onTranscript: (finalText, interimText) => {
+        setInputValue([typed, finalText, interimText].filter(Boolean).join(" "));
+        requestAnimationFrame(autoResizeTextarea);
+      },
+      onEnd: (error) => {
+        if (dictationRef.current !== dictation) return;
+        dictationRef.current = null;
+        setIsDictating(false);
+        if (error) setNotice(error);
+      }
+    });
+    if (!dictation) {
+      setNotice("Dictation couldn't start in this browser.");
+      return;
+    }
+    dictationRef.current = dictation;
+    setIsDictating(true);
+    textareaRef.current?.focus();
+  }, [inputValue, autoResizeTextarea]);
 
-    setSessions(storedSessions);
-    const storedActiveId = readActiveSession();
-    if (storedActiveId && storedSessions.some((session) => session.id === storedActiveId)) {
-      setActiveSessionId(storedActiveId);
-    } else {
-      const latestSession = [...storedSessions].sort((a, b) => (a.updatedAt > b.updatedAt ? -1 : 1))[0];
-      setActiveSessionId(latestSession?.id ?? storedSessions[0].id);
-      writeActiveSession(latestSession?.id ?? storedSessions[0].id);
+  const showChat = useCallback(() => {
+    setIsSidebarOpen(false);
+    if (textareaRef.current) {
+      textareaRef.current.focus();
     }
   }, []);
 
+  const selectSession = useCallback(
+    (sessionId: string) => {
+      chatCore.selectSession(sessionId);
+      showChat();
+    },
+    [chatCore, showChat]
+  );
+
+  const initialiseSessions = useCallback(async (key: CryptoKey | null = null) => {
+    const header = readVaultHeader();
+    setVaultHeader(header);
+    // Encrypted history stays unread until the passphrase has produced a key.
+    if (header && !key) {
+      setIsLocked(true);
+      return;
+    }
+    setIsLocked(false);
+    setStorageError(null);
+
+    let storedSessions: ChatSession[] = [];
+    try {
+      const store = await openSessionStore(key);
+      const { sessions: loaded, quarantined } = await store.load();
+      storedSessions = loaded;
+      setQuarantinedCount(quarantined.length);
+      storeRef.current = store;
+      persisterRef.current = createSessionPersister(store, setStorageError, setSessions);
+      persisterRef.current.prime(storedSessions);
+    } catch (error) {
+      // Without a readable store nothing is written back, so stored history can't be overwritten.
+      console.warn("Failed to read chat sessions from storage", error);
+      setStorageError("Saved chats could not be loaded. New messages are kept for this visit only.");
+    }
+    const storedSettings = readSettings();
+    // Loading may open a fresh chat straight away, before the effect tracking the defaults has seen them.
+    defaultSettingsRef.current = storedSettings.defaultSessionSettings;
+    setFolders(readFolders());
+    setSettings(storedSettings);
+    setPersonas(readPersonas());
+    setPrompts(readPrompts());
+    setSyncConfig(readSyncConfig());
+    setIsLoaded(true);
+    chatCore.load(storedSessions);
+  }, [chatCore]);
+
+  /**
+   * Drops the key and every decrypted chat from memory. Pending writes land first unless
+   * another tab changed the key, since they would then be sealed with a stale one.
+   */
+  const lockWorkspace = useCallback(
+    async (keepPending = true) => {
+      pendingReplyRef.current?.controller.abort();
+      dictationRef.current?.abort();
+      stopReading();
+      if (keepPending) {
+        await debouncedPersist.flush();
+      } else {
+        debouncedPersist.cancel();
+      }
+      // Unloading first stops persistence and sync before the history is cleared.
+      setIsLoaded(false);
+      storeRef.current = null;
+      persisterRef.current = null;
+      chatCore.clear();
+      setInputValue("");
+      setDraftAttachments([]);
+      setSearchTerm("");
+      setIsEncryptionOpen(false);
+      setIsLocked(true);
+    },
+    [chatCore, debouncedPersist, stopReading]
+  );
+
+  const handleUnlock = useCallback(
+    async (passphrase: string) => {
+      const header = readVaultHeader();
+      await initialiseSessions(header ? await unlockVault(header, passphrase) : null);
+    },
+    [initialiseSessions]
+  );
+
+  const handleUpdateEncryption = useCallback(
+    async (current: string | null, next: string | null) => {
+      const store = storeRef.current;
+      const persister = persisterRef.current;
+      if (!store || !persister) throw new VaultError("Saved chats aren't loaded, so their encryption can't change.");
+      const previous = readVaultHeader();
+      if (previous) await unlockVault(previous, current ?? "");
+      const vault = next ? await createVault(next) : null;
+      await debouncedPersist.flush();
+      // The header goes first so a full storage fails before any record is touched.
+      writeVaultHeader(vault?.header ?? null);
+      try {
+        await persister.runExclusive(() => store.rekey(vault?.key ?? null));
+      } catch (error) {
+        writeVaultHeader(previous);
+        throw error;
+      }
+      setVaultHeader(vault?.header ?? null);
+    },
+    [debouncedPersist]
+  );
+
   useEffect(() => {
     if (mountedRef.current) return;
     mountedRef.current = true;
-    initialiseSessions();
+    void initialiseSessions();
   }, [initialiseSessions]);
 
   useEffect(() => {
-    if (!mountedRef.current) return;
+    if (!isLoaded) return;
     debouncedPersist(sessions);
-  }, [sessions, debouncedPersist]);
+  }, [sessions, isLoaded, debouncedPersist]);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    writeFolders(folders);
+  }, [folders, isLoaded]);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    writeSettings(settings);
+  }, [settings, isLoaded]);
 
-  useEffect(() => () => debouncedPersist.cancel(), [debouncedPersist]);
+  useEffect(() => {
+    if (!isLoaded) return;
+    writePersonas(personas);
+  }, [personas, isLoaded]);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    writePrompts(prompts);
+  }, [prompts, isLoaded]);
+
+  useEffect(() => {
+    // Without a readable store this tab only holds a fresh chat, which must not be mistaken for deletions.
+    if (!isLoaded || !storeRef.current) return;
+    const engine = createSyncEngine(setSessions, setSyncStatus);
+    syncEngineRef.current = engine;
+    return () => {
+      engine.stop();
+      syncEngineRef.current = null;
+    };
+  }, [isLoaded]);
+
+  useEffect(() => {
+    if (!isLoaded || !syncConfig) return;
+    writeSyncConfig(syncConfig);
+    syncEngineRef.current?.configure(syncConfig);
+  }, [syncConfig, isLoaded]);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    syncEngineRef.current?.update(sessions);
+  }, [sessions, isLoaded]);
+
+  useEffect(() => {
+    const flush = () => debouncedPersist.flush();
+    window.addEventListener("pagehide", flush);
+    return () => {
+      window.removeEventListener("pagehide", flush);
+      debouncedPersist.flush();
+    };
+  }, [debouncedPersist]);
+
+  useEffect(() => {
+    if (!isLoaded || !storeRef.current) return;
+    // Other tabs' writes are merged per session and message rather than replacing this tab's state.
+    return storeRef.current.subscribe(() => {
+      void persisterRef.current?.refresh();
+    });
+  }, [isLoaded]);
 
   useEffect(() => {
     const handler = (event: StorageEvent) => {
       if (event.storageArea !== window.localStorage) return;
-      if (event.key === STORAGE_KEY) {
-        const updatedSessions = readFromStorage();
-        setSessions(updatedSessions);
-      }
       if (event.key === ACTIVE_SESSION_KEY) {
         const newActiveId = readActiveSession();
         if (newActiveId) {
-          setActiveSessionId(newActiveId);
+          chatCore.selectSession(newActiveId);
         }
       }
+      if (event.key === FOLDERS_KEY) {
+        setFolders(readFolders());
+      }
+      if (event.key === SETTINGS_KEY) {
+        setSettings(readSettings());
+      }
+      if (event.key === PERSONAS_KEY) {
+        setPersonas(readPersonas());
+      }
+      if (event.key === PROMPTS_KEY) {
+        setPrompts(readPrompts());
+      }
+      if (event.key === SYNC_CONFIG_KEY) {
+        setSyncConfig(readSyncConfig());
+      }
+      if (event.key === VAULT_KEY) {
+        // Another tab turned encryption on or off or changed the passphrase, so this tab's key is stale.
+        void lockWorkspace(false).then(() => initialiseSessions());
+      }
     };
 
     window.addEventListener("storage", handler);
     return () => window.removeEventListener("storage", handler);
-  }, []);
+  }, [lockWorkspace, initialiseSessions]);
+
+  useEffect(() => {
+    if (!vaultHeader || isLocked || !settings.autoLockMinutes) return;
+    let lastActivity = Date.now();
+    const markActive = () => {
+      lastActivity = Date.now();
+    };
+    IDLE_EVENTS.forEach((name) => window.addEventListener(name, markActive, { passive: true }));
+    const timer = window.setInterval(() => {
+      // A reply that is still streaming counts as activity.
+      if (pendingReplyRef.current) markActive();
+      if (Date.now() - lastActivity >= settings.autoLockMinutes * 60000) void lockWorkspace();
+    }, AUTO_LOCK_CHECK_MS);
+    return () => {
+      IDLE_EVENTS.forEach((name) => window.removeEventListener(name, markActive));
+      window.clearInterval(timer);
+    };
+  }, [vaultHeader, isLocked, settings.autoLockMinutes, lockWorkspace]);
 
   useEffect(() => {
     autoResizeTextarea();
   }, [inputValue, autoResizeTextarea]);
 
+  useEffect(() => {
+    setSlashIndex(0);
+  }, [slashMatches]);
+
   const handleSearchChange = useCallback((value: string) => {
     setSearchTerm(value);
   }, []);
 
-  const handleNewChat = useCallback(() => {
-    const newSession = createEmptySession();
-    setSessions((prev) => [newSession, ...prev]);
-    selectSession(newSession.id);
-    setInputValue("");
-    setIsTyping(false);
-  }, [selectSession]);
+  useEffect(() => {
+    defaultSettingsRef.current = settings.defaultSessionSettings;
+  }, [settings.defaultSessionSettings]);
 
-  const handleDeleteSession = useCallback(
-    (sessionId: string) => {
-      setSessions((prev) => {
-        const remaining = prev.filter((session) => session.id !== sessionId);
-        if (!remaining.length) {
-          const fallback = createEmptySession();
-          setActiveSessionId(fallback.id);
-          writeActiveSession(fallback.id);
-          return [fallback];
+  const handleNewChat = useCallback(
+    (personaId: string | null = null) => {
+      const sessionSettings = {
+        ...settings.defaultSessionSettings,
+        ...getPersonaParams(findPersona(personas, personaId))
+      };
+      chatCore.createSession({ provider: DEFAULT_PROVIDER_ID, personaId, settings: sessionSettings });
+      showChat();
+      setInputValue("");
+    },
+    [chatCore, showChat, settings.defaultSessionSettings, personas]
+  );
+
+  const handleSelectBranch = useCallback(
+    (messageId: string) => {
+      if (activeSessionId) chatCore.selectBranch(activeSessionId, messageId);
+    },
+    [chatCore, activeSessionId]
+  );
+
+  const handleOpenSearchHit = useCallback(
+    (hit: SearchHit) => {
+      chatCore.selectBranch(hit.sessionId, hit.messageId);
+      selectSession(hit.sessionId);
+      setFlashMessageId(hit.messageId);
+    },
+    [chatCore, selectSession]
+  );
+
+  useEffect(() => {
+    if (!flashMessageId) return;
+    const timer = setTimeout(() => setFlashMessageId(null), FLASH_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [flashMessageId]);
+
+  const handleUpdateSession = useCallback(
+    (sessionId: string, patch: SessionPatch) => chatCore.updateSession(sessionId, patch),
+    [chatCore]
+  );
+
+  useEffect(() => {
+    setIsRenamingTitle(false);
+  }, [activeSessionId]);
+
+  const handleRenameSession = useCallback(
+    (sessionId: string, title: string) => chatCore.renameSession(sessionId, title),
+    [chatCore]
+  );
+
+  /** Replaces a still-automatic title with one summarised by the provider; keeps the derived title on failure. */
+  const autoTitleSession = useCallback(
+    async (sessionId: string, providerId: ProviderId, messages: ChatMessage[]) => {
+      let title = "";
+      try {
+        title = await generateTitle(getProvider(providerId), messages);
+      } catch (error) {
+        console.warn("Failed to generate a chat title", error);
+      }
+      if (title) chatCore.setGeneratedTitle(sessionId, title);
+    },
+    [chatCore]
+  );
+
+  const handleCreateFolder = useCallback((name: string) => {
+    setFolders((prev) => [...prev, { id: uuid(), name, createdAt: new Date().toISOString() }]);
+  }, []);
+
+  const handleRenameFolder = useCallback((folderId: string, name: string) => {
+    setFolders((prev) => prev.map((folder) => (folder.id === folderId ? { ...folder, name } : folder)));
+  }, []);
+
+  const handleDeleteFolder = useCallback(
+    (folderId: string) => {
+      setFolders((prev) => prev.filter((folder) => folder.id !== folderId));
+      chatCore.removeFromFolder(folderId);
+    },
+    [chatCore]
+  );
+
+  const handlePersonaChange = useCallback(
+    (personaId: string | null) => {
+      if (!activeSessionId) return;
+      chatCore.setPersona(activeSessionId, personaId, getPersonaParams(findPersona(personas, personaId)));
+    },
+    [chatCore, activeSessionId, personas]
+  );
+
+  const handleSessionSettingsChange = useCallback(
+    (sessionSettings: SessionSettings) => {
+      if (activeSessionId) chatCore.updateSettings(activeSessionId, sessionSettings);
+    },
+    [chatCore, activeSessionId]
+  );
+
+  const handleSaveDefaultSettings = useCallback((sessionSettings: SessionSettings) => {
+    setSettings((prev) => ({ ...prev, defaultSessionSettings: sessionSettings }));
+  }, []);
+
+  const handleSavePersona = useCallback((persona: Persona) => {
+    setPersonas((prev) =>
+      prev.some((item) => item.id === persona.id)
+        ? prev.map((item) => (item.id === persona.id ? persona : item))
+        : [...prev, persona]
+    );
+  }, []);
+
+  // Sessions keep their personaId so re-importing the persona reconnects them; until then they run without it.
+  const handleDeletePersona = useCallback((personaId: string) => {
+    setPersonas((prev) => prev.filter((persona) => persona.id !== personaId));
+  }, []);
+
+  const handleProviderChange = useCallback(
+    (provider: ProviderId) => {
+      if (activeSessionId) chatCore.setProvider(activeSessionId, provider);
+    },
+    [chatCore, activeSessionId]
+  );
+
+  const updateMessage = useCallback(
+    (sessionId: string, messageId: string, updater: (message: ChatMessage) => ChatMessage) => {
+      chatCore.updateMessages(sessionId, (messages) =>
+        messages.map((message) => (message.id === messageId ? updater(message) : message))
+      );
+    },
+    [chatCore]
+  );
+
+  const loadAttachment = useCallback((id: string) => storeRef.current?.getAttachment(id) ?? Promise.resolve(null), []);
+
+  const loadDraftAttachment = useCallback(
+    async (id: string) => draftAttachments.find((item) => item.attachment.id === id)?.blob ?? null,
+    [draftAttachments]
+  );
+
+  const handleStop = useCallback(() => {
+    pendingReplyRef.current?.controller.abort();
+  }, []);
+
+  /** Streams a reply to `history` into `assistantMessage`, which must already be in the session. */
+  const streamAssistantReply = useCallback(
+    async (session: ChatSession, history: ChatMessage[], assistantMessage: ChatMessage) => {
+      const sessionId = session.id;
+      const pending: PendingReply = {
+        sessionId,
+        messageId: assistantMessage.id,
+        controller: new AbortController()
+      };
+      pendingReplyRef.current = pending;
+      setPendingReply(pending);
+
+      let content = "";
+      let status: MessageStatus = "complete";
+      try {
+        const provider = getProvider(session.provider);
+        const planOptions = {
+          systemPrompt: buildSystemPrompt(settings.customInstructions, findPersona(personas, session.personaId)),
+          budget: session.settings.contextBudget,
+          strategy: session.settings.contextStrategy,
+          summary: session.contextSummary
+        };
+        let plan = planContext(history, planOptions);
+        if (plan.unsummarized.length) {
+          const summary = await summarizeMessages(
+            provider,
+            plan.summary ?? undefined,
+            plan.unsummarized,
+            pending.controller.signal
+          ).catch((error: unknown) => {
+            if (isAbortError(error)) throw error;
+            // The reply still goes out, just without the older messages folded in.
+            console.warn("Failed to summarize earlier messages", error);
+            return null;
+          });
+          if (summary) {
+            chatCore.setContextSummary(sessionId, summary);
+            plan = planContext(history, { ...planOptions, summary });
+          }
         }
-        if (activeSessionId === sessionId) {
-          const fallbackId = remaining[0].id;
-          setActiveSessionId(fallbackId);
-          writeActiveSession(fallbackId);
+        const messages = await toProviderMessages(plan.messages, loadAttachment);
+        const stream = provider.streamReply(messages, {
+          signal: pending.controller.signal,
+          params: toGenerationParams(session.settings)
+        });
+        for await (const token of stream) {
+          content += token;
+          const partial = content;
+          updateMessage(sessionId, assistantMessage.id, (message) => ({ ...message, content: partial }));
         }
-        return remaining;
+      } catch (error) {
+        if (isAbortError(error)) {
+          status = "interrupted";
+        } else {
+          console.warn("Failed to generate assistant reply", error);
+          const reason = error instanceof Error ? error.message : "Unknown error";
+          content = content ? `${content}\n\nSomething went wrong: ${reason}` : `Something went wrong: ${reason}`;
+          status = "error";
+        }
+      }
+
+      const finalContent = content.trimEnd();
+      updateMessage(sessionId, assistantMessage.id, (message) => ({ ...message, content: finalContent, status }));
+      pendingReplyRef.current = null;
+      setPendingReply(null);
+
+      const isFirstExchange = history.length === 1 && history[0].role === "user";
+      if (settings.autoTitle && status === "complete" && isFirstExchange && !session.titleLocked) {
+        const exchange = [...history, { ...assistantMessage, content: finalContent }];
+        void autoTitleSession(sessionId, session.provider, exchange);
+      }
+    },
+    [
+      chatCore,
+      updateMessage,
+      loadAttachment,
+      personas,
+      settings.autoTitle,
+      settings.customInstructions,
+      autoTitleSession
+    ]
+  );
+
+  /** Streams the assistant reply to `userMessage`, which must already be in the session. */
+  const replyTo = useCallback(
+    async (session: ChatSession, userMessage: ChatMessage) => {
+      const assistantMessage = chatCore.appendMessage(session.id, {
+        role: "assistant",
+        content: "",
+        parentId: userMessage.id,
+        status: "streaming"
       });
+      if (!assistantMessage) return;
+      const history = [...getPathTo(session.messages, userMessage.parentId), userMessage];
+      await streamAssistantReply(session, history, assistantMessage);
+    },
+    [chatCore, streamAssistantReply]
+  );
+
+  /** Adds a user message under `parentId` and streams the assistant reply beneath it. */
+  const submitUserMessage = useCallback(
+    async (session: ChatSession, parentId: string | null, value: string, attachments: ChatAttachment[] = []) => {
+      const userMessage = chatCore.appendMessage(session.id, { role: "user", content: value, parentId, attachments });
+      if (userMessage) await replyTo(session, userMessage);
     },
-    [activeSessionId]
-  );
-
-  const updateSessionMessages = useCallback(
-    (sessionId: string, updater: (messages: ChatMessage[]) => ChatMessage[]) => {
-      setSessions((prev) =>
-        prev.map((session) => {
-          if (session.id !== sessionId) return session;
-          const nextMessages = updater(session.messages);
-          return {
-            ...session,
-            messages: nextMessages,
-            title: deriveTitle(nextMessages),
-            updatedAt: new Date().toISOString()
-          };
-        })
+    [chatCore, replyTo]
+  );
+
+  const handleAttachFiles = useCallback(
+    async (files: File[]) => {
+      if (!files.length) return;
+      const room = MAX_ATTACHMENTS - draftAttachments.length;
+      const results = await Promise.allSettled(files.slice(0, Math.max(room, 0)).map(readAttachment));
+      const errors = results.flatMap((result) =>
+        result.status === "rejected" ? [describeAttachmentError(result.reason)] : []
       );
+      if (files.length > room) {
+        errors.push(`A message can have up to ${MAX_ATTACHMENTS} attachments.`);
+      }
+      const added = results.flatMap((result) => (result.status === "fulfilled" ? [result.value] : []));
+      setDraftAttachments((prev) => [...prev, ...added].slice(0, MAX_ATTACHMENTS));
+      if (errors.length) {
+        setNotice(errors.join(" "));
+      }
     },
-    []
+    [draftAttachments.length]
   );
 
-  const handleSend = useCallback(() => {
+  const handleRemoveAttachment = useCallback((id: string) => {
+    setDraftAttachments((prev) => prev.filter((item) => item.attachment.id !== id));
+  }, []);
+
+  const handleSend = useCallback(async () => {
     const value = inputValue.trim();
-    if (!value) return;
-
-    let sessionId = activeSessionId;
-    if (!sessionId) {
-      const newSession = createEmptySession();
-      setSessions((prev) => [newSession, ...prev]);
-      sessionId = newSession.id;
-      setActiveSessionId(sessionId);
-      writeActiveSession(sessionId);
-    }
-    const userMessage = createMessage("user", value);
-    updateSessionMessages(sessionId, (messages) => [...messages, userMessage]);
+    const attachments = draftAttachments;
+    if ((!value && !attachments.length) || pendingReplyRef.current) return;
+
+    const session = activeSession ?? chatCore.createSession();
     setInputValue("");
+    setDraftAttachments([]);
     setEmojiOpen(false);
-    setIsTyping(true);
+    // Words still being recognised would otherwise land in the emptied composer.
+    dictationRef.current?.abort();
 
     if (textareaRef.current) {
       textareaRef.current.focus();
     }
 
-    if (typingTimeoutRef.current) {
-      clearTimeout(typingTimeoutRef.current);
+    if (attachments.length) {
+      try {
+        if (!storeRef.current) throw new Error("Chat storage is not ready");
+        await saveAttachments(storeRef.current, session.id, attachments);
+      } catch (error) {
+        console.warn("Failed to store attachments", error);
+        setNotice(describeAttachmentError(error));
+        // Hand the draft back unless something new was typed or attached meanwhile.
+        setInputValue((prev) => prev || inputValue);
+        setDraftAttachments((prev) => (prev.length ? prev : attachments));
+        return;
+      }
     }
 
-    typingTimeoutRef.current = setTimeout(() => {
-      const assistantMessage = createMessage("assistant", simulateAssistantResponse(value));
-      updateSessionMessages(sessionId as string, (messages) => [...messages, assistantMessage]);
-      setIsTyping(false);
-    }, TYPING_DELAY_MS);
-  }, [inputValue, activeSessionId, updateSessionMessages, setSessions]);
-
-  useEffect(
-    () => () => {
-      if (typingTimeoutRef.current) {
-        clearTimeout(typingTimeoutRef.current);
-      }
+    void submitUserMessage(session, session.currentNodeId, value, attachments.map((item) => item.attachment));
+  }, [chatCore, inputValue, draftAttachments, activeSession, submitUserMessage]);
+
+  const handleDragOver = useCallback((event: ReactDragEvent<HTMLDivElement>) => {
+    if (!event.dataTransfer.types.includes("Files")) return;
+    event.preventDefault();
+    setIsDraggingFiles(true);
+  }, []);
+
+  const handleDrop = useCallback(
+    (event: ReactDragEvent<HTMLDivElement>) => {
+      setIsDraggingFiles(false);
+      if (!event.dataTransfer.files.length) return;
+      event.preventDefault();
+      void handleAttachFiles(Array.from(event.dataTransfer.files));
     },
-    []
+    [handleAttachFiles]
+  );
+
+  // Pasted text stays text; only a paste that carries files alone (screenshots, copied files) attaches them.
+  const handlePaste = useCallback(
+    (event: ReactClipboardEvent<HTMLTextAreaElement>) => {
+      const files = Array.from(event.clipboardData.files);
+      if (!files.length || event.clipboardData.getData("text/plain")) return;
+      event.preventDefault();
+      void handleAttachFiles(files);
+    },
+    [handleAttachFiles]
+  );
+
+  /** Generates another version of an assistant reply as a sibling of `message`. */
+  const handleRegenerate = useCallback(
+    (message: ChatMessage) => {
+      if (!activeSession || pendingReplyRef.current) return;
+      const assistantMessage = chatCore.appendMessage(activeSession.id, {
+        role: "assistant",
+        content: "",
+        parentId: message.parentId,
+        status: "streaming"
+      });
+      if (!assistantMessage) return;
+      void streamAssistantReply(activeSession, getPathTo(activeSession.messages, message.parentId), assistantMessage);
+    },
+    [chatCore, activeSession, streamAssistantReply]
+  );
+
+  const handleTogglePin = useCallback(
+    (message: ChatMessage) => {
+      if (!activeSessionId) return;
+      updateMessage(activeSessionId, message.id, (item) => ({ ...item, pinned: !item.pinned }));
+    },
+    [activeSessionId, updateMessage]
+  );
+
+  const handleRateMessage = useCallback(
+    (message: ChatMessage, rating: MessageRating | undefined) => {
+      if (!activeSessionId) return;
+      updateMessage(activeSessionId, message.id, (item) => ({ ...item, rating }));
+    },
+    [activeSessionId, updateMessage]
+  );
+
+  const handleEditMessage = useCallback(
+    (message: ChatMessage, content: string) => {
+      const value = content.trim();
+      if (!activeSession || !value || pendingReplyRef.current) return;
+      const userMessage = chatCore.editMessage(activeSession.id, message.id, value);
+      if (userMessage) void replyTo(activeSession, userMessage);
+    },
+    [chatCore, activeSession, replyTo]
+  );
+
+  // A reply still streaming would keep writing into the version being undone, so both wait for it.
+  const handleUndo = useCallback(() => {
+    if (activeSessionId && !pendingReplyRef.current) chatCore.undo(activeSessionId);
+  }, [chatCore, activeSessionId]);
+
+  const handleRedo = useCallback(() => {
+    if (activeSessionId && !pendingReplyRef.current) chatCore.redo(activeSessionId);
+  }, [chatCore, activeSessionId]);
+
+  const handleTrashSession = useCallback(
+    (sessionId: string) => {
+      const wasActive = chatCore.getState().activeSessionId === sessionId;
+      chatCore.trashSession(sessionId);
+      setToast({
+        message: "Chat moved to Trash.",
+        onUndo: () => {
+          chatCore.restoreSession(sessionId);
+          if (wasActive) chatCore.selectSession(sessionId);
+        }
+      });
+    },
+    [chatCore]
   );
 
+  useEffect(() => {
+    if (!toast) return;
+    const timer = setTimeout(() => setToast(null), TOAST_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [toast]);
+
+  useEffect(() => {
+    const sessionId = toast?.sessionId;
+    if (!sessionId) return;
+    return chatCore.onEvent((event) => {
+      if (event.type !== "sessionSelected" && "sessionId" in event && event.sessionId === sessionId) setToast(null);
+    });
+  }, [chatCore, toast]);
+
+  useEffect(() => () => pendingReplyRef.current?.controller.abort(), []);
+
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
       const isMeta = event.metaKey || event.ctrlKey;
       if (!isMeta) return;
+      // Text fields keep their own undo history.
+      const isTyping = (event.target as HTMLElement | null)?.closest("input, textarea, select, [contenteditable]");
+      const key = event.key.toLowerCase();
+      if (!isTyping && (key === "z" || key === "y")) {
+        event.preventDefault();
+        if (key === "y" || event.shiftKey) handleRedo();
+        else handleUndo();
+      }
       if (event.key.toLowerCase() === "k") {
         event.preventDefault();
         searchInputRef.current?.focus();
@@ -395,27 +1033,225 @@ function ChatApp() {
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [handleNewChat]);
+  }, [handleNewChat, handleUndo, handleRedo]);
+
+  const handleEmojiSelect = useCallback((emoji: string) => {
+    setInputValue((prev) => `${prev}${emoji}`);
+    requestAnimationFrame(autoResizeTextarea);
+  }, [autoResizeTextarea]);
+
+  const handleExport = useCallback(
+    (targets: ChatSession[], format: ExportFormat) => {
+      if (!targets.length) return;
+      const used = personas.filter((persona) => targets.some((session) => session.personaId === persona.id));
+      downloadFile(buildExport(targets, format, used));
+    },
+    [personas]
+  );
+
+  const handleExportAll = useCallback(
+    (format: ExportFormat) => {
+      const kept = sessions.filter((session) => !session.deletedAt);
+      if (kept.length) downloadFile(buildExport(kept, format, personas));
+    },
+    [sessions, personas]
+  );
 
+  const handleImport = useCallback(
+    async (file: File) => {
+      try {
+        const result = parseImport(await file.text(), sessions);
+        chatCore.importSessions(result.sessions);
+        const merged = mergePersonas(personas, result.personas);
+        if (merged.added) setPersonas(merged.personas);
+        setNotice(describeImport(result, merged.added));
+      } catch (error) {
+        console.warn("Failed to import chats", error);
+        setNotice(error instanceof ImportError ? error.message : "The file could not be imported.");
+      }
+    },
+    [chatCore, sessions, personas]
+  );
+
+  const handleClearChat = useCallback(() => {
+    if (!activeSessionId || pendingReplyRef.current) return;
+    chatCore.clearMessages(activeSessionId);
+    setToast({ message: "Chat cleared.", onUndo: () => chatCore.undo(activeSessionId), sessionId: activeSessionId });
+  }, [chatCore, activeSessionId]);
+
+  /** Puts a template into the composer, asking for its variables first when it has any. */
+  const handleUseTemplate = useCallback((template: PromptTemplate) => {
+    setIsPromptLibraryOpen(false);
+    if (extractVariables(template.content).length) {
+      setInputValue("");
+      setFillingTemplate(template);
+      return;
+    }
+    setInputValue(template.content);
+    textareaRef.current?.focus();
+  }, []);
+
+  const handleTemplateFilled = useCallback((content: string) => {
+    setFillingTemplate(null);
+    setInputValue(content);
+    textareaRef.current?.focus();
+  }, []);
+
+  const handleSlashCommand = useCallback(
+    (command: SlashCommand) => {
+      const { action } = command;
+      setInputValue("");
+      if (action.type === "template") {
+        handleUseTemplate(action.template);
+      } else if (action.type === "new") {
+        handleNewChat();
+      } else if (action.type === "clear") {
+        handleClearChat();
+      } else if (action.type === "export") {
+        if (activeSession) handleExport([activeSession], action.format);
+      } else if (action.type === "persona") {
+        handlePersonaChange(action.personaId);
+      } else {
+        setIsPromptLibraryOpen(true);
+      }
+    },
+    [activeSession, handleUseTemplate, handleNewChat, handleClearChat, handleExport, handlePersonaChange]
+  );
+
+  // While the slash menu is open the arrow keys, Enter and Tab drive it instead of the composer.
   const handleTextareaKeyDown = useCallback(
     (event: ReactKeyboardEvent<HTMLTextAreaElement>) => {
+      if (activeSlashCommand) {
+        if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+          event.preventDefault();
+          const step = event.key === "ArrowDown" ? 1 : -1;
+          setSlashIndex((prev) => (prev + step + slashMatches.length) % slashMatches.length);
+          return;
+        }
+        if ((event.key === "Enter" && !event.shiftKey) || event.key === "Tab") {
+          event.preventDefault();
+          handleSlashCommand(activeSlashCommand);
+          return;
+        }
+        if (event.key === "Escape") {
+          event.preventDefault();
+          setDismissedSlashInput(inputValue);
+          return;
+        }
+      }
       if (event.key === "Enter" && !event.shiftKey) {
         event.preventDefault();
-        handleSend();
+        void handleSend();
       }
     },
-    [handleSend]
+    [activeSlashCommand, slashMatches.length, handleSlashCommand, inputValue, handleSend]
   );
 
-  const handleEmojiSelect = useCallback((emoji: string) => {
-    setInputValue((prev) => `${prev}${emoji}`);
-    requestAnimationFrame(autoResizeTextarea);
-  }, [autoResizeTextarea]);
+  const handleSavePrompt = useCallback((prompt: PromptTemplate) => {
+    setPrompts((prev) =>
+      prev.some((item) => item.id === prompt.id)
+        ? prev.map((item) => (item.id === prompt.id ? prompt : item))
+        : [...prev, prompt]
+    );
+  }, []);
+
+  const handleDeletePrompt = useCallback((promptId: string) => {
+    setPrompts((prev) => prev.filter((prompt) => prompt.id !== promptId));
+  }, []);
+
+  const handleOpenPrompts = useCallback(() => setIsPromptLibraryOpen(true), []);
+  const handleClosePrompts = useCallback(() => setIsPromptLibraryOpen(false), []);
+  const handleOpenSync = useCallback(() => setIsSyncOpen(true), []);
+  const handleCloseSync = useCallback(() => setIsSyncOpen(false), []);
+  const handleCloseShare = useCallback(() => setIsShareOpen(false), []);
+  const handleSyncNow = useCallback(() => syncEngineRef.current?.syncNow(), []);
+  const handleOpenEncryption = useCallback(() => setIsEncryptionOpen(true), []);
+  const handleCloseEncryption = useCallback(() => setIsEncryptionOpen(false), []);
+  const handleLock = useCallback(() => void lockWorkspace(), [lockWorkspace]);
+  const handleAutoLockChange = useCallback(
+    (autoLockMinutes: number) => setSettings((prev) => ({ ...prev, autoLockMinutes })),
+    []
+  );
+  const handleOpenCustomize = useCallback(() => setIsCustomizing(true), []);
+  const handleCloseCustomize = useCallback(() => setIsCustomizing(false), []);
 
   const handleSidebarToggle = useCallback(() => {
     setIsSidebarOpen((prev) => !prev);
   }, []);
 
+  // Memoized so the sidebar, which renders every chat, sits out keystrokes in the composer.
+  const sidebarProps = useMemo<SidebarProps>(
+    () => ({
+      sessions,
+      folders,
+      filter: sidebarFilter,
+      searchResults,
+      activeSessionId,
+      searchTerm,
+      searchInputRef,
+      onFilterChange: setSidebarFilter,
+      onSearchChange: handleSearchChange,
+      onOpenSearchHit: handleOpenSearchHit,
+      onSelect: selectSession,
+      onDelete: handleTrashSession,
+      onRestore: chatCore.restoreSession,
+      onPurge: chatCore.deleteSession,
+      onEmptyTrash: chatCore.emptyTrash,
+      onUpdateSession: handleUpdateSession,
+      onRenameSession: handleRenameSession,
+      settings,
+      onSettingsChange: setSettings,
+      personas,
+      onNewChat: handleNewChat,
+      onOpenCustomize: handleOpenCustomize,
+      onOpenPrompts: handleOpenPrompts,
+      syncStatus,
+      deviceId: syncConfig?.deviceId ?? null,
+      onOpenSync: handleOpenSync,
+      isEncrypted: Boolean(vaultHeader),
+      onOpenEncryption: handleOpenEncryption,
+      onLock: handleLock,
+      onCreateFolder: handleCreateFolder,
+      onRenameFolder: handleRenameFolder,
+      onDeleteFolder: handleDeleteFolder,
+      onImport: handleImport,
+      onExportAll: handleExportAll
+    }),
+    [
+      sessions,
+      folders,
+      sidebarFilter,
+      searchResults,
+      activeSessionId,
+      searchTerm,
+      chatCore,
+      handleTrashSession,
+      handleSearchChange,
+      handleOpenSearchHit,
+      selectSession,
+      handleUpdateSession,
+      handleRenameSession,
+      settings,
+      personas,
+      handleNewChat,
+      handleOpenCustomize,
+      handleOpenPrompts,
+      syncStatus,
+      syncConfig?.deviceId,
+      handleOpenSync,
+      vaultHeader,
+      handleOpenEncryption,
+      handleLock,
+      handleCreateFolder,
+      handleRenameFolder,
+      handleDeleteFolder,
+      handleImport,
+      handleExportAll
+    ]
+  );
+
+  if (isLocked) return <UnlockScreen onUnlock={handleUnlock} />;
+
   return (
     <div className={styles.container}>
       <button
@@ -429,30 +1265,12 @@ function ChatApp() {
       {isSidebarOpen && (
         <div className={styles.mobileSidebarOverlay} role="dialog" aria-modal="true">
           <aside className={styles.mobileSidebar}>
-            <SidebarContent
-              sessions={filteredSessions}
-              activeSessionId={activeSessionId}
-              onSelect={selectSession}
-              onDelete={handleDeleteSession}
-              onNewChat={handleNewChat}
-              onSearchChange={handleSearchChange}
-              searchTerm={searchTerm}
-              searchInputRef={searchInputRef}
-            />
+            <Sidebar {...sidebarProps} />
           </aside>
         </div>
       )}
       <aside className={styles.sidebar}>
-        <SidebarContent
-          sessions={filteredSessions}
-          activeSessionId={activeSessionId}
-          onSelect={selectSession}
-          onDelete={handleDeleteSession}
-          onNewChat={handleNewChat}
-          onSearchChange={handleSearchChange}
-          searchTerm={searchTerm}
-          searchInputRef={searchInputRef}
-        />
+        <Sidebar {...sidebarProps} />
       </aside>
       <main className={styles.chatArea}>
         <button
@@ -463,47 +1281,174 @@ function ChatApp() {
         >
           <HamburgerIcon />
         </button>
-        <div className={styles.chatMessages} role="log" aria-live="polite">
-          {!activeSession || activeSession.messages.length === 0 ? (
-            <div className={styles.emptyState}>
-              <div className={styles.emptyTitle}>Start chatting with ChatGPT</div>
-              <div className={styles.emptyText}>
-                This replica keeps every conversation stored locally in your browser. Create new chats,
-                revisit previous topics, and pick up right where you left off.
-              </div>
-            </div>
+        <header className={styles.chatHeader}>
+          {isRenamingTitle && activeSession ? (
+            <TitleInput
+              title={activeSession.title}
+              onCommit={(title) => {
+                setIsRenamingTitle(false);
+                handleRenameSession(activeSession.id, title);
+              }}
+              onCancel={() => setIsRenamingTitle(false)}
+            />
           ) : (
-            activeSession.messages.map((message) => (
-              <div
-                key={message.id}
-                className={clsx(styles.messageRow, {
-                  [styles.messageRowUser]: message.role === "user",
-                  [styles.messageRowAssistant]: message.role === "assistant"
-                })}
-              >
-                <div
-                  className={clsx(styles.messageBubble, {
-                    [styles.userBubble]: message.role === "user",
-                    [styles.assistantBubble]: message.role === "assistant"
-                  })}
-                >
-                  {message.content}
-                  <span className={styles.timestamp}>{formatTimestamp(message.createdAt)}</span>
-                </div>
-              </div>
-            ))
+            <button
+              type="button"
+              className={styles.chatHeaderTitle}
+              onClick={() => setIsRenamingTitle(true)}
+              disabled={!activeSession}
+              title="Rename chat"
+            >
+              {activeSession?.title ?? DEFAULT_TITLE}
+            </button>
           )}
-          {isTyping && (
-            <div className={clsx(styles.messageRow, styles.messageRowAssistant)}>
-              <div className={styles.typingIndicator} aria-live="assertive" aria-label="Assistant typing">
-                <span className={styles.typingDot} />
-                <span className={styles.typingDot} />
-                <span className={styles.typingDot} />
-              </div>
+          {activeSession?.titleLocked && !isRenamingTitle && (
+            <button
+              type="button"
+              className={styles.messageActionButton}
+              onClick={() => handleRenameSession(activeSession.id, "")}
+              title="Title is locked. Click to title this chat automatically again."
+              aria-label="Unlock title"
+            >
+              🔒
+            </button>
+          )}
+          <label className={styles.providerSelect}>
+            <span className="sr-only">Persona</span>
+            <select
+              value={activeSession?.personaId ?? ""}
+              onChange={(event) => handlePersonaChange(event.target.value || null)}
+              disabled={!activeSession}
+            >
+              <option value="">No persona</option>
+              {activeSession?.personaId && !activePersona && (
+                <option value={activeSession.personaId}>Deleted persona</option>
+              )}
+              {personas.map((persona) => (
+                <option key={persona.id} value={persona.id}>
+                  {persona.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className={styles.providerSelect}>
+            <span className="sr-only">Assistant provider</span>
+            <select
+              value={activeSession?.provider ?? DEFAULT_PROVIDER_ID}
+              onChange={(event) => handleProviderChange(event.target.value as ProviderId)}
+              disabled={!activeSession}
+            >
+              {PROVIDERS.map((provider) => (
+                <option key={provider.id} value={provider.id}>
+                  {provider.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            type="button"
+            className={styles.secondaryButton}
+            onClick={handleUndo}
+            disabled={!sessionHistory.past.length || Boolean(pendingReply)}
+            aria-label="Undo"
+            title="Undo (Ctrl+Z)"
+          >
+            ↶
+          </button>
+          <button
+            type="button"
+            className={styles.secondaryButton}
+            onClick={handleRedo}
+            disabled={!sessionHistory.future.length || Boolean(pendingReply)}
+            aria-label="Redo"
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            ↷
+          </button>
+          <button
+            type="button"
+            className={styles.secondaryButton}
+            onClick={() => setIsShareOpen(true)}
+            disabled={!activeSession?.messages.length}
+          >
+            Share
+          </button>
+          <ExportSelect
+            label="Export chat"
+            disabled={!activeSession?.messages.length}
+            onExport={(format) => activeSession && handleExport([activeSession], format)}
+          />
+          <button
+            type="button"
+            className={styles.secondaryButton}
+            onClick={() => setIsSettingsOpen((prev) => !prev)}
+            disabled={!activeSession}
+            aria-expanded={isSettingsOpen}
+            title={activeSession ? describeSessionSettings(activeSession.settings) || "Provider defaults" : undefined}
+          >
+            Settings
+          </button>
+        </header>
+        <MessageList
+          core={chatCore}
+          isBusy={Boolean(pendingReply)}
+          flashMessageId={flashMessageId}
+          excludedIds={excludedIds}
+          onTogglePin={contextPlan?.strategy === "pinned" ? handleTogglePin : undefined}
+          speakingMessageId={speakingMessageId}
+          onReadAloud={canSpeak ? handleReadAloud : undefined}
+          onSelectBranch={handleSelectBranch}
+          onEdit={handleEditMessage}
+          onRegenerate={handleRegenerate}
+          onRate={handleRateMessage}
+          loadAttachment={loadAttachment}
+        />
+        <div
+          className={clsx(styles.inputArea, { [styles.inputAreaDragging]: isDraggingFiles })}
+          onDragOver={handleDragOver}
+          onDragLeave={(event) => {
+            if (!event.currentTarget.contains(event.relatedTarget as Node | null)) setIsDraggingFiles(false);
+          }}
+          onDrop={handleDrop}
+        >
+          {storageError && (
+            <div className={styles.storageWarning} role="alert">
+              {storageError}
             </div>
           )}
-        </div>
-        <div className={styles.inputArea}>
+          {notice && (
+            <div className={styles.storageWarning} role="status">
+              {notice}
+              <button type="button" className={styles.secondaryButton} onClick={() => setNotice(null)}>
+                Dismiss
+              </button>
+            </div>
+          )}
+          {quarantinedCount > 0 && (
+            <div className={styles.storageWarning} role="status">
+              {quarantinedCount} saved chat{quarantinedCount > 1 ? "s" : ""} could not be read and{" "}
+              {quarantinedCount > 1 ? "were" : "was"} set aside instead of loaded. The original data is kept in
+              browser storage.
+              <button type="button" className={styles.secondaryButton} onClick={() => setQuarantinedCount(0)}>
+                Dismiss
+              </button>
+            </div>
+          )}
+          {fillingTemplate && (
+            <PromptVariablesForm
+              template={fillingTemplate}
+              onSubmit={handleTemplateFilled}
+              onCancel={() => setFillingTemplate(null)}
+            />
+          )}
+          {activeSlashCommand && (
+            <SlashCommandMenu
+              commands={slashMatches}
+              activeIndex={slashMatches.indexOf(activeSlashCommand)}
+              onSelect={handleSlashCommand}
+              onHighlight={setSlashIndex}
+            />
+          )}
           {emojiOpen && (
             <div className={styles.emojiPicker} role="listbox" aria-label="Emoji picker">
               {EMOJIS.map((emoji) => (
@@ -521,6 +1466,13 @@ function ChatApp() {
               ))}
             </div>
           )}
+          {draftAttachments.length > 0 && (
+            <AttachmentList
+              attachments={draftAttachments.map((item) => item.attachment)}
+              loadAttachment={loadDraftAttachment}
+              onRemove={handleRemoveAttachment}
+            />
+          )}
           <div className={styles.inputWrapper}>
             <button
               type="button"
@@ -530,138 +1482,161 @@ function ChatApp() {
             >
               <EmojiIcon />
             </button>
+            <button
+              type="button"
+              className={styles.controlButton}
+              aria-label="Attach files"
+              title={`Attach images, text or PDF files (up to ${MAX_ATTACHMENTS})`}
+              onClick={() => fileInputRef.current?.click()}
+              disabled={draftAttachments.length >= MAX_ATTACHMENTS}
+            >
+              <PaperclipIcon />
+            </button>
+            {canDictate && (
+              <button
+                type="button"
+                className={clsx(styles.controlButton, { [styles.messageActionActive]: isDictating })}
+                aria-label={isDictating ? "Stop dictation" : "Dictate a message"}
+                aria-pressed={isDictating}
+                onClick={handleToggleDictation}
+              >
+                <MicrophoneIcon />
+              </button>
+            )}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ATTACHMENT_ACCEPT}
+              multiple
+              hidden
+              onChange={(event) => {
+                void handleAttachFiles(Array.from(event.target.files ?? []));
+                event.target.value = "";
+              }}
+            />
             <textarea
               ref={textareaRef}
               className={styles.textarea}
-              placeholder="Send a message..."
+              placeholder="Send a message or type / for commands..."
               value={inputValue}
               rows={1}
-              onChange={(event) => setInputValue(event.target.value)}
+              onChange={(event) => {
+                // Typing takes over from dictation rather than being overwritten by it.
+                dictationRef.current?.abort();
+                setInputValue(event.target.value);
+              }}
               onKeyDown={handleTextareaKeyDown}
+              onPaste={handlePaste}
               aria-label="Message input"
+              aria-controls={activeSlashCommand ? SLASH_MENU_ID : undefined}
+              aria-expanded={Boolean(activeSlashCommand)}
+              aria-activedescendant={activeSlashCommand ? getSlashOptionId(activeSlashCommand) : undefined}
             />
-            <button
-              type="button"
-              className={clsx(styles.controlButton, styles.sendButton)}
-              aria-label="Send message"
-              onClick={handleSend}
-              disabled={!inputValue.trim()}
-            >
-              <SendIcon />
-            </button>
+            {pendingReply ? (
+              <button
+                type="button"
+                className={clsx(styles.controlButton, styles.stopButton)}
+                aria-label="Stop generating"
+                onClick={handleStop}
+              >
+                <StopIcon />
+              </button>
+            ) : (
+              <button
+                type="button"
+                className={clsx(styles.controlButton, styles.sendButton)}
+                aria-label="Send message"
+                onClick={handleSend}
+                disabled={!inputValue.trim() && !draftAttachments.length}
+              >
+                <SendIcon />
+              </button>
+            )}
           </div>
+          {contextPlan && (
+            <small className={styles.helperText} aria-live="polite">
+              {draftTokens} token{draftTokens === 1 ? "" : "s"} in draft · {contextPlan.tokens}
+              {contextPlan.budget ? ` / ${contextPlan.budget}` : ""} tokens of context
+              {contextPlan.excludedIds.size > 0 &&
+                ` · ${contextPlan.excludedIds.size} earlier message${contextPlan.excludedIds.size > 1 ? "s" : ""} ` +
+                  `left out (${CONTEXT_STRATEGIES.find((item) => item.id === contextPlan.strategy)?.label})`}
+            </small>
+          )}
           <small className={styles.helperText}>
-            Chat history lives only in your browser. Use Cmd/Ctrl + N to start fresh, Cmd/Ctrl + K to search.
+            {syncConfig?.enabled
+              ? "Chat history is kept in your browser and synced to your server."
+              : "Chat history lives only in your browser."}{" "}
+            Use Cmd/Ctrl + N to start fresh, Cmd/Ctrl + K to search.
           </small>
         </div>
       </main>
-    </div>
-  );
-}
-
-type SidebarContentProps = {
-  sessions: ChatSession[];
-  activeSessionId: string | null;
-  onSelect: (sessionId: string) => void;
-  onDelete: (sessionId: string) => void;
-  onNewChat: () => void;
-  onSearchChange: (value: string) => void;
-  searchTerm: string;
-  searchInputRef: RefObject<HTMLInputElement>;
-};
-
-const SidebarContent = ({
-  sessions,
-  activeSessionId,
-  onSelect,
-  onDelete,
-  onNewChat,
-  onSearchChange,
-  searchTerm,
-  searchInputRef
-}: SidebarContentProps) => {
-  return (
-    <>
-      <div className={styles.sidebarHeader}>
-        <span className={styles.sidebarTitle}>Chat history</span>
-        <button type="button" className={styles.newChatButton} onClick={onNewChat} aria-label="New chat">
-          <PlusIcon />
-        </button>
-      </div>
-      <div className={styles.searchWrapper}>
-        <input
-          ref={searchInputRef}
-          type="search"
-          className={styles.searchInput}
-          placeholder="Search conversations"
-          value={searchTerm}
-          onChange={(event) => onSearchChange(event.target.value)}
-          aria-label="Search chat history"
+      {isSettingsOpen && activeSession && (
+        <SessionSettingsDrawer
+          settings={activeSession.settings}
+          defaults={settings.defaultSessionSettings}
+          onChange={handleSessionSettingsChange}
+          onSaveDefaults={handleSaveDefaultSettings}
+          onClose={() => setIsSettingsOpen(false)}
+        />
+      )}
+      {isCustomizing && (
+        <PersonaSettings
+          settings={settings}
+          personas={personas}
+          onSettingsChange={setSettings}
+          onSavePersona={handleSavePersona}
+          onDeletePersona={handleDeletePersona}
+          onClose={handleCloseCustomize}
+        />
+      )}
+      {isPromptLibraryOpen && (
+        <PromptLibrary
+          prompts={prompts}
+          onSavePrompt={handleSavePrompt}
+          onDeletePrompt={handleDeletePrompt}
+          onUsePrompt={handleUseTemplate}
+          onClose={handleClosePrompts}
         />
-      </div>
-      <nav className={styles.historyList} aria-label="Chat history">
-        {sessions.map((session) => (
-          <div
-            key={session.id}
-            className={clsx(styles.historyItem, {
-              [styles.historyItemActive]: session.id === activeSessionId
-            })}
-            role="button"
-            tabIndex={0}
-            onClick={() => onSelect(session.id)}
-            onKeyDown={(event) => {
-              if (event.key === "Enter" || event.key === " ") {
-                event.preventDefault();
-                onSelect(session.id);
-              }
+      )}
+      {isSyncOpen && syncConfig && (
+        <SyncSettings
+          config={syncConfig}
+          status={syncStatus}
+          isEncrypted={Boolean(vaultHeader)}
+          onSave={setSyncConfig}
+          onSyncNow={handleSyncNow}
+          onClose={handleCloseSync}
+        />
+      )}
+      {isShareOpen && activeSession && <ShareDialog session={activeSession} onClose={handleCloseShare} />}
+      {isEncryptionOpen && (
+        <EncryptionSettings
+          isEncrypted={Boolean(vaultHeader)}
+          autoLockMinutes={settings.autoLockMinutes}
+          onAutoLockChange={handleAutoLockChange}
+          onUpdate={handleUpdateEncryption}
+          onLock={handleLock}
+          onClose={handleCloseEncryption}
+        />
+      )}
+      {toast && (
+        <div className={styles.toast} role="status">
+          {toast.message}
+          <button
+            type="button"
+            className={styles.secondaryButton}
+            onClick={() => {
+              toast.onUndo();
+              setToast(null);
             }}
           >
-            <span className={styles.historyTitle}>{session.title}</span>
-            <span className={styles.historyTimestamp}>{formatRelativeTimestamp(session.updatedAt)}</span>
-            <button
-              type="button"
-              className={styles.deleteButton}
-              onClick={(event) => {
-                event.stopPropagation();
-                onDelete(session.id);
-              }}
-              aria-label="Delete chat"
-            >
-              <TrashIcon />
-            </button>
-          </div>
-        ))}
-      </nav>
-      <div className={styles.profileFooter}>
-        <div className={styles.avatar} aria-hidden="true">
-          JT
-        </div>
-        <div>
-          <div style={{ fontWeight: 600 }}>Jordan Taylor</div>
-          <div style={{ fontSize: "0.8rem", color: "#a1a4ac" }}>Local workspace</div>
+            Undo
+          </button>
         </div>
-      </div>
-    </>
+      )}
+    </div>
   );
-};
-
-const PlusIcon = () => (
-  <svg width="20" height="20" viewBox="0 0 20 20" fill="none" aria-hidden="true">
-    <path d="M10 4V16M4 10H16" stroke="currentColor" strokeWidth="2" strokeLinecap="round" />
-  </svg>
-);
-
-const TrashIcon = () => (
-  <svg width="16" height="16" viewBox="0 0 16 16" fill="none" aria-hidden="true">
-    <path
-      d="M5.5 6.5V12M10.5 6.5V12M3.5 4.5H12.5M6.5 2.5H9.5M4.5 4.5L5 13C5 13.5523 5.44772 14 6 14H10C10.5523 14 11 13.5523 11 13L11.5 4.5"
-      stroke="currentColor"
-      strokeWidth="1.5"
-      strokeLinecap="round"
-      strokeLinejoin="round"
-    />
-  </svg>
-);
+}
 
 const SendIcon = () => (
   <svg width="18" height="18" viewBox="0 0 18 18" fill="none" aria-hidden="true">
@@ -672,6 +1647,12 @@ const SendIcon = () => (
   </svg>
 );
 
+const StopIcon = () => (
+  <svg width="18" height="18" viewBox="0 0 18 18" fill="none" aria-hidden="true">
+    <rect x="4" y="4" width="10" height="10" rx="2" fill="currentColor" />
+  </svg>
+);
+
 const EmojiIcon = () => (
   <svg width="20" height="20" viewBox="0 0 20 20" fill="none" aria-hidden="true">
     <path
@@ -698,6 +1679,30 @@ const EmojiIcon = () => (
   </svg>
 );
 
+const PaperclipIcon = () => (
+  <svg width="20" height="20" viewBox="0 0 20 20" fill="none" aria-hidden="true">
+    <path
+      d="M15.5 9.5L10 15C8.34 16.66 5.66 16.66 4 15C2.34 13.34 2.34 10.66 4 9L9.5 3.5C10.6 2.4 12.4 2.4 13.5 3.5C14.6 4.6 14.6 6.4 13.5 7.5L8.25 12.75C7.7 13.3 6.8 13.3 6.25 12.75C5.7 12.2 5.7 11.3 6.25 10.75L11 6"
+      stroke="currentColor"
+      strokeWidth="1.5"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    />
+  </svg>
+);
+
+const MicrophoneIcon = () => (
+  <svg width="20" height="20" viewBox="0 0 20 20" fill="none" aria-hidden="true">
+    <path
+      d="M10 2.75C8.757 2.75 7.75 3.757 7.75 5V10C7.75 11.243 8.757 12.25 10 12.25C11.243 12.25 12.25 11.243 12.25 10V5C12.25 3.757 11.243 2.75 10 2.75ZM4.75 9.5C4.75 12.4 7.1 14.75 10 14.75C12.9 14.75 15.25 12.4 15.25 9.5M10 14.75V17.25"
+      stroke="currentColor"
+      strokeWidth="1.5"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    />
+  </svg>
+);
+
 const HamburgerIcon = () => (
   <svg width="22" height="22" viewBox="0 0 22 22" fill="none" aria-hidden="true">
     <path
@@ -0,0 +1,173 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { FormEvent } from "react";
+import styles from "./ChatApp.module.css";
+import { AUTO_LOCK_OPTIONS } from "./settings";
+import { VaultError } from "./storage";
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+type EncryptionSettingsProps = {
+  isEncrypted: boolean;
+  autoLockMinutes: number;
+  onAutoLockChange: (minutes: number) => void;
+  /** Re-encrypts saved chats; `current` is checked first when they are already encrypted, `next` null decrypts. */
+  onUpdate: (current: string | null, next: string | null) => Promise<void>;
+  onLock: () => void;
+  onClose: () => void;
+};
+
+const EncryptionSettings = ({
+  isEncrypted,
+  autoLockMinutes,
+  onAutoLockChange,
+  onUpdate,
+  onLock,
+  onClose
+}: EncryptionSettingsProps) => {
+  const [current, setCurrent] = useState("");
+  const [next, setNext] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape" && !isWorking) onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose, isWorking]);
+
+  const runUpdate = async (nextPassphrase: string | null, done: string) => {
+    setIsWorking(true);
+    setError(null);
+    setNotice(null);
+    try {
+      await onUpdate(isEncrypted ? current : null, nextPassphrase);
+      setCurrent("");
+      setNext("");
+      setConfirmation("");
+      setNotice(done);
+    } catch (updateError) {
+      console.warn("Failed to change chat encryption", updateError);
+      setError(updateError instanceof VaultError ? updateError.message : "Saved chats could not be re-encrypted.");
+    }
+    setIsWorking(false);
+  };
+
+  const submitPassphrase = (event: FormEvent) => {
+    event.preventDefault();
+    if (next.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+      return;
+    }
+    if (next !== confirmation) {
+      setError("The passphrases don't match.");
+      return;
+    }
+    void runUpdate(next, isEncrypted ? "Passphrase changed." : "Saved chats are now encrypted.");
+  };
+
+  return (
+    <div className={styles.dialogOverlay} role="dialog" aria-modal="true" aria-labelledby="encryption-title">
+      <div className={styles.dialog}>
+        <div className={styles.dialogHeader}>
+          <h2 id="encryption-title">Encryption</h2>
+          <button type="button" className={styles.secondaryButton} onClick={onClose} disabled={isWorking}>
+            Close
+          </button>
+        </div>
+        <form className={styles.dialogSection} onSubmit={submitPassphrase}>
+          <p className={styles.helperText}>
+            {isEncrypted
+              ? "Saved chats and attached files are encrypted with your passphrase."
+              : "Encrypt saved chats and attached files with a passphrase. A forgotten passphrase can't be recovered."}
+          </p>
+          {isEncrypted && (
+            <input
+              type="password"
+              className={styles.searchInput}
+              placeholder="Current passphrase"
+              value={current}
+              onChange={(event) => setCurrent(event.target.value)}
+              aria-label="Current passphrase"
+              autoComplete="current-password"
+              required
+            />
+          )}
+          <input
+            type="password"
+            className={styles.searchInput}
+            placeholder={isEncrypted ? "New passphrase" : "Passphrase"}
+            value={next}
+            onChange={(event) => setNext(event.target.value)}
+            aria-label={isEncrypted ? "New passphrase" : "Passphrase"}
+            autoComplete="new-password"
+          />
+          <input
+            type="password"
+            className={styles.searchInput}
+            placeholder="Repeat passphrase"
+            value={confirmation}
+            onChange={(event) => setConfirmation(event.target.value)}
+            aria-label="Repeat passphrase"
+            autoComplete="new-password"
+          />
+          {error && (
+            <p className={styles.helperText} role="alert">
+              {error}
+            </p>
+          )}
+          {notice && (
+            <p className={styles.helperText} role="status">
+              {notice}
+            </p>
+          )}
+          <div className={styles.messageEditorActions}>
+            {isEncrypted && (
+              <button
+                type="button"
+                className={styles.secondaryButton}
+                onClick={() => void runUpdate(null, "Saved chats are no longer encrypted.")}
+                disabled={!current || isWorking}
+              >
+                Turn off
+              </button>
+            )}
+            <button type="submit" className={styles.primaryButton} disabled={!next || isWorking}>
+              {isWorking ? "Encrypting…" : isEncrypted ? "Change passphrase" : "Encrypt chats"}
+            </button>
+          </div>
+        </form>
+        {isEncrypted && (
+          <div className={styles.dialogSection}>
+            <label className={styles.helperText}>
+              Lock after inactivity{" "}
+              <select
+                value={autoLockMinutes}
+                onChange={(event) => onAutoLockChange(Number(event.target.value))}
+                aria-label="Lock after inactivity"
+              >
+                {AUTO_LOCK_OPTIONS.map((minutes) => (
+                  <option key={minutes} value={minutes}>
+                    {minutes ? `${minutes} minutes` : "Never"}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <div className={styles.messageEditorActions}>
+              <button type="button" className={styles.secondaryButton} onClick={onLock} disabled={isWorking}>
+                Lock now
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EncryptionSettings;
@@ -0,0 +1,33 @@
+"use client";
+
+import styles from "./ChatApp.module.css";
+import { EXPORT_FORMATS } from "./transfer";
+import type { ExportFormat } from "./transfer";
+
+type ExportSelectProps = {
+  label: string;
+  disabled?: boolean;
+  onExport: (format: ExportFormat) => void;
+};
+
+const ExportSelect = ({ label, disabled, onExport }: ExportSelectProps) => (
+  <label className={styles.exportSelect}>
+    <span className="sr-only">{label}</span>
+    <select
+      value=""
+      disabled={disabled}
+      onChange={(event) => {
+        if (event.target.value) onExport(event.target.value as ExportFormat);
+      }}
+    >
+      <option value="">{label}…</option>
+      {EXPORT_FORMATS.map((format) => (
+        <option key={format.id} value={format.id}>
+          {format.label}
+        </option>
+      ))}
+    </select>
+  </label>
+);
+
+export default ExportSelect;
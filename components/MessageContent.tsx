@@ -0,0 +1,101 @@
+"use client";
+
+import { Children, isValidElement, memo, useCallback, useEffect, useRef, useState } from "react";
+import type { ComponentPropsWithoutRef, ReactElement } from "react";
+import ReactMarkdown from "react-markdown";
+import type { Components } from "react-markdown";
+import rehypeHighlight from "rehype-highlight";
+import rehypeKatex from "rehype-katex";
+import rehypeSanitize, { defaultSchema } from "rehype-sanitize";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import styles from "./ChatApp.module.css";
+
+const COPY_RESET_MS = 2000;
+
+// Sanitizing runs before KaTeX and highlighting so only the markup those trusted
+// plugins generate survives; the math classes remark-math relies on are kept.
+const sanitizeSchema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    code: [["className", /^language-./, "math-inline", "math-display"]]
+  }
+};
+
+const REMARK_PLUGINS = [remarkGfm, remarkMath];
+const REHYPE_PLUGINS = [
+  [rehypeSanitize, sanitizeSchema],
+  rehypeKatex,
+  [rehypeHighlight, { detect: true }]
+] as NonNullable<ComponentPropsWithoutRef<typeof ReactMarkdown>["rehypePlugins"]>;
+
+const CodeBlock = ({ children, ...props }: ComponentPropsWithoutRef<"pre">) => {
+  const preRef = useRef<HTMLPreElement | null>(null);
+  const resetRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [copyState, setCopyState] = useState<"idle" | "copied" | "failed">("idle");
+
+  useEffect(() => () => {
+    if (resetRef.current) clearTimeout(resetRef.current);
+  }, []);
+
+  const codeElement = Children.toArray(children).find(isValidElement) as
+    | ReactElement<{ className?: string }>
+    | undefined;
+  const language = codeElement?.props.className?.match(/language-([\w-]+)/)?.[1];
+
+  const handleCopy = useCallback(async () => {
+    const text = preRef.current?.querySelector("code")?.textContent ?? "";
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopyState("copied");
+    } catch (error) {
+      console.warn("Failed to copy code block", error);
+      setCopyState("failed");
+    }
+    if (resetRef.current) clearTimeout(resetRef.current);
+    resetRef.current = setTimeout(() => setCopyState("idle"), COPY_RESET_MS);
+  }, []);
+
+  return (
+    <div className={styles.codeBlock}>
+      <div className={styles.codeBlockHeader}>
+        <span className={styles.codeBlockLanguage}>{language ?? "code"}</span>
+        <button type="button" className={styles.codeCopyButton} onClick={handleCopy} aria-live="polite">
+          {copyState === "copied" ? "Copied!" : copyState === "failed" ? "Copy failed" : "Copy code"}
+        </button>
+      </div>
+      <pre ref={preRef} {...props}>
+        {children}
+      </pre>
+    </div>
+  );
+};
+
+const MARKDOWN_COMPONENTS: Components = {
+  pre: ({ node: _node, ...props }) => <CodeBlock {...props} />,
+  a: ({ node: _node, ...props }) => <a {...props} target="_blank" rel="noopener noreferrer" />,
+  table: ({ node: _node, ...props }) => (
+    <div className={styles.tableWrapper}>
+      <table {...props} />
+    </div>
+  )
+};
+
+type MessageContentProps = {
+  content: string;
+};
+
+const MessageContent = ({ content }: MessageContentProps) => (
+  <div className={styles.markdown}>
+    <ReactMarkdown
+      remarkPlugins={REMARK_PLUGINS}
+      rehypePlugins={REHYPE_PLUGINS}
+      components={MARKDOWN_COMPONENTS}
+    >
+      {content}
+    </ReactMarkdown>
+  </div>
+);
+
+export default memo(MessageContent);
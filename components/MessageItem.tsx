@@ -0,0 +1,359 @@
+"use client";
+
+import { memo, useCallback, useEffect, useRef, useState } from "react";
+import type { KeyboardEvent as ReactKeyboardEvent, ReactNode } from "react";
+import clsx from "clsx";
+import AttachmentList from "./AttachmentList";
+import styles from "./ChatApp.module.css";
+import MessageContent from "./MessageContent";
+import type { ChatMessage, MessageRating, RatingValue } from "./types";
+
+const COPY_RESET_MS = 2000;
+
+const formatTimestamp = (iso: string) => {
+  const formatter = new Intl.DateTimeFormat([], {
+    hour: "2-digit",
+    minute: "2-digit",
+    month: "short",
+    day: "numeric"
+  });
+  return formatter.format(new Date(iso));
+};
+
+export const getMessageAnchorId = (messageId: string) => `message-${messageId}`;
+
+type MessageBubbleProps = {
+  message: Pick<ChatMessage, "role" | "content" | "status" | "createdAt" | "attachments">;
+  loadAttachment: (id: string) => Promise<Blob | null>;
+  /** Status labels shown after the content. */
+  children?: ReactNode;
+};
+
+/** A message's content as shown in the chat, also used for read-only shared chats. */
+export const MessageBubble = ({ message, loadAttachment, children }: MessageBubbleProps) => (
+  <div
+    className={clsx(styles.messageBubble, {
+      [styles.userBubble]: message.role === "user",
+      [styles.assistantBubble]: message.role === "assistant",
+      [styles.errorBubble]: message.status === "error"
+    })}
+    aria-busy={message.status === "streaming"}
+  >
+    {message.attachments?.length ? (
+      <AttachmentList attachments={message.attachments} loadAttachment={loadAttachment} />
+    ) : null}
+    {message.role === "assistant" ? <MessageContent content={message.content} /> : message.content}
+    {message.status === "interrupted" && <span className={styles.messageStatus}>Stopped</span>}
+    {children}
+    <span className={styles.timestamp}>{formatTimestamp(message.createdAt)}</span>
+  </div>
+);
+
+type MessageItemProps = {
+  message: ChatMessage;
+  siblings: ChatMessage[];
+  isBusy: boolean;
+  isFlashing?: boolean;
+  /** Left out of the next request by the session's context budget. */
+  isExcluded?: boolean;
+  /** Shown when the session keeps pinned messages in context. */
+  onTogglePin?: (message: ChatMessage) => void;
+  /** Shown on assistant messages when the browser can speak; called again to stop. */
+  onReadAloud?: (message: ChatMessage) => void;
+  isSpeaking?: boolean;
+  loadAttachment: (id: string) => Promise<Blob | null>;
+  onSelectBranch: (messageId: string) => void;
+  onEdit: (message: ChatMessage, content: string) => void;
+  onRegenerate: (message: ChatMessage) => void;
+  onRate: (message: ChatMessage, rating: MessageRating | undefined) => void;
+};
+
+const MessageItem = ({
+  message,
+  siblings,
+  isBusy,
+  isFlashing = false,
+  isExcluded = false,
+  onTogglePin,
+  onReadAloud,
+  isSpeaking = false,
+  loadAttachment,
+  onSelectBranch,
+  onEdit,
+  onRegenerate,
+  onRate
+}: MessageItemProps) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
+  const [copyState, setCopyState] = useState<"idle" | "copied" | "failed">("idle");
+  const [isCommenting, setIsCommenting] = useState(false);
+  const [comment, setComment] = useState(message.rating?.comment ?? "");
+  const editorRef = useRef<HTMLTextAreaElement | null>(null);
+  const copyResetRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const branchIndex = siblings.findIndex((sibling) => sibling.id === message.id);
+
+  useEffect(() => () => {
+    if (copyResetRef.current) clearTimeout(copyResetRef.current);
+  }, []);
+
+  // Only opening the editor moves the caret, so the length is read from the textarea rather than the draft.
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!isEditing || !editor) return;
+    editor.focus();
+    editor.setSelectionRange(editor.value.length, editor.value.length);
+  }, [isEditing]);
+
+  const startEditing = useCallback(() => {
+    setDraft(message.content);
+    setIsEditing(true);
+  }, [message.content]);
+
+  const submitEdit = useCallback(() => {
+    if (!draft.trim() || draft.trim() === message.content.trim()) {
+      setIsEditing(false);
+      return;
+    }
+    onEdit(message, draft);
+    setIsEditing(false);
+  }, [draft, message, onEdit]);
+
+  const handleCopy = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(message.content);
+      setCopyState("copied");
+    } catch (error) {
+      console.warn("Failed to copy message", error);
+      setCopyState("failed");
+    }
+    if (copyResetRef.current) clearTimeout(copyResetRef.current);
+    copyResetRef.current = setTimeout(() => setCopyState("idle"), COPY_RESET_MS);
+  }, [message.content]);
+
+  const handleRate = useCallback(
+    (value: RatingValue) => {
+      if (message.rating?.value === value) {
+        onRate(message, undefined);
+        setIsCommenting(false);
+        return;
+      }
+      onRate(message, { value, comment: message.rating?.comment, ratedAt: new Date().toISOString() });
+      setComment(message.rating?.comment ?? "");
+      setIsCommenting(true);
+    },
+    [message, onRate]
+  );
+
+  const submitComment = useCallback(() => {
+    if (!message.rating) return;
+    onRate(message, { ...message.rating, comment: comment.trim() || undefined });
+    setIsCommenting(false);
+  }, [comment, message, onRate]);
+
+  const handleEditorKeyDown = useCallback(
+    (event: ReactKeyboardEvent<HTMLTextAreaElement>) => {
+      if (event.key === "Escape") {
+        event.preventDefault();
+        setIsEditing(false);
+      }
+      if (event.key === "Enter" && !event.shiftKey) {
+        event.preventDefault();
+        submitEdit();
+      }
+    },
+    [submitEdit]
+  );
+
+  if (message.status === "streaming" && !message.content) {
+    return (
+      <div className={clsx(styles.messageRow, styles.messageRowAssistant)}>
+        <div className={styles.typingIndicator} aria-live="assertive" aria-label="Assistant typing">
+          <span className={styles.typingDot} />
+          <span className={styles.typingDot} />
+          <span className={styles.typingDot} />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      id={getMessageAnchorId(message.id)}
+      className={clsx(styles.messageRow, {
+        [styles.messageRowUser]: message.role === "user",
+        [styles.messageRowAssistant]: message.role === "assistant",
+        [styles.messageFlash]: isFlashing,
+        [styles.messageExcluded]: isExcluded
+      })}
+    >
+      {isEditing ? (
+        <div className={styles.messageEditor}>
+          <textarea
+            ref={editorRef}
+            className={styles.textarea}
+            value={draft}
+            rows={3}
+            onChange={(event) => setDraft(event.target.value)}
+            onKeyDown={handleEditorKeyDown}
+            aria-label="Edit message"
+          />
+          <div className={styles.messageEditorActions}>
+            <button type="button" className={styles.secondaryButton} onClick={() => setIsEditing(false)}>
+              Cancel
+            </button>
+            <button
+              type="button"
+              className={styles.primaryButton}
+              onClick={submitEdit}
+              disabled={isBusy || !draft.trim()}
+            >
+              Save &amp; submit
+            </button>
+          </div>
+        </div>
+      ) : (
+        <MessageBubble message={message} loadAttachment={loadAttachment}>
+          {isExcluded && (
+            <span className={styles.messageStatus} title="Outside the context budget for the next reply">
+              Not sent
+            </span>
+          )}
+        </MessageBubble>
+      )}
+      {!isEditing && message.status !== "streaming" && (
+        <div className={styles.messageActions}>
+          {siblings.length > 1 && (
+            <div className={styles.branchSwitcher} aria-label="Switch between versions">
+              <button
+                type="button"
+                className={styles.messageActionButton}
+                onClick={() => onSelectBranch(siblings[branchIndex - 1].id)}
+                disabled={isBusy || branchIndex <= 0}
+                aria-label="Previous version"
+              >
+                &lt;
+              </button>
+              <span>
+                {branchIndex + 1}/{siblings.length}
+              </span>
+              <button
+                type="button"
+                className={styles.messageActionButton}
+                onClick={() => onSelectBranch(siblings[branchIndex + 1].id)}
+                disabled={isBusy || branchIndex >= siblings.length - 1}
+                aria-label="Next version"
+              >
+                &gt;
+              </button>
+            </div>
+          )}
+          {message.role === "user" && (
+            <button
+              type="button"
+              className={styles.messageActionButton}
+              onClick={startEditing}
+              disabled={isBusy}
+              aria-label="Edit message"
+            >
+              Edit
+            </button>
+          )}
+          {message.role === "assistant" && (
+            <>
+              <button
+                type="button"
+                className={styles.messageActionButton}
+                onClick={handleCopy}
+                aria-label="Copy message"
+                aria-live="polite"
+              >
+                {copyState === "copied" ? "Copied!" : copyState === "failed" ? "Copy failed" : "Copy"}
+              </button>
+              {onReadAloud && (
+                <button
+                  type="button"
+                  className={clsx(styles.messageActionButton, { [styles.messageActionActive]: isSpeaking })}
+                  onClick={() => onReadAloud(message)}
+                  aria-pressed={isSpeaking}
+                  aria-label={isSpeaking ? "Stop reading aloud" : "Read aloud"}
+                >
+                  {isSpeaking ? "Stop" : "Read aloud"}
+                </button>
+              )}
+              <button
+                type="button"
+                className={styles.messageActionButton}
+                onClick={() => onRegenerate(message)}
+                disabled={isBusy}
+                aria-label="Regenerate response"
+              >
+                Regenerate
+              </button>
+              <button
+                type="button"
+                className={clsx(styles.messageActionButton, {
+                  [styles.messageActionActive]: message.rating?.value === "up"
+                })}
+                onClick={() => handleRate("up")}
+                aria-pressed={message.rating?.value === "up"}
+                aria-label="Good response"
+              >
+                👍
+              </button>
+              <button
+                type="button"
+                className={clsx(styles.messageActionButton, {
+                  [styles.messageActionActive]: message.rating?.value === "down"
+                })}
+                onClick={() => handleRate("down")}
+                aria-pressed={message.rating?.value === "down"}
+                aria-label="Bad response"
+              >
+                👎
+              </button>
+            </>
+          )}
+          {onTogglePin && (
+            <button
+              type="button"
+              className={clsx(styles.messageActionButton, { [styles.messageActionActive]: message.pinned })}
+              onClick={() => onTogglePin(message)}
+              aria-pressed={Boolean(message.pinned)}
+              aria-label={message.pinned ? "Unpin from context" : "Pin to context"}
+            >
+              {message.pinned ? "Unpin" : "Pin"}
+            </button>
+          )}
+        </div>
+      )}
+      {isCommenting && message.rating && (
+        <form
+          className={styles.ratingComment}
+          onSubmit={(event) => {
+            event.preventDefault();
+            submitComment();
+          }}
+        >
+          <input
+            type="text"
+            className={styles.searchInput}
+            placeholder={
+              message.rating.value === "up" ? "What did you like? (optional)" : "What went wrong? (optional)"
+            }
+            value={comment}
+            onChange={(event) => setComment(event.target.value)}
+            aria-label="Rating comment"
+          />
+          <button type="button" className={styles.secondaryButton} onClick={() => setIsCommenting(false)}>
+            Skip
+          </button>
+          <button type="submit" className={styles.primaryButton}>
+            Save
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default memo(MessageItem);
@@ -0,0 +1,261 @@
+"use client";
+
+import { memo, useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
+import styles from "./ChatApp.module.css";
+import { useChatStore } from "./chatStore";
+import { selectActiveSession } from "./core";
+import type { ChatCore } from "./core";
+import MessageItem from "./MessageItem";
+import { getActivePath, getSiblings } from "./messageTree";
+import type { ChatMessage, MessageRating } from "./types";
+
+// Rows are laid out at this height until they have been rendered and measured once.
+const ESTIMATED_ROW_HEIGHT = 160;
+// Rendered beyond each edge of the viewport so fast scrolling rarely reaches unrendered space.
+const OVERSCAN_PX = 800;
+// Within this distance of the end the list counts as being at the bottom and follows new content.
+const BOTTOM_THRESHOLD_PX = 48;
+
+// Layout effects warn during the server render, where there is nothing to measure anyway.
+const useIsomorphicLayoutEffect = typeof window === "undefined" ? useEffect : useLayoutEffect;
+
+type MessageListProps = {
+  core: ChatCore;
+  isBusy: boolean;
+  flashMessageId: string | null;
+  excludedIds?: ReadonlySet<string>;
+  onTogglePin?: (message: ChatMessage) => void;
+  speakingMessageId: string | null;
+  onReadAloud?: (message: ChatMessage) => void;
+  loadAttachment: (id: string) => Promise<Blob | null>;
+  onSelectBranch: (messageId: string) => void;
+  onEdit: (message: ChatMessage, content: string) => void;
+  onRegenerate: (message: ChatMessage) => void;
+  onRate: (message: ChatMessage, rating: MessageRating | undefined) => void;
+};
+
+/** Index of the row containing `position`, given each row's start offset plus the total height. */
+const findRowAt = (offsets: number[], position: number) => {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const middle = (low + high + 1) >> 1;
+    if (offsets[middle] <= position) low = middle;
+    else high = middle - 1;
+  }
+  return Math.max(low, 0);
+};
+
+const isSameList = (a: ChatMessage[], b: ChatMessage[]) =>
+  a.length === b.length && a.every((message, index) => message === b[index]);
+
+/**
+ * The active chat's path, rendered as a window of rows around the viewport. Row heights are measured as
+ * rows render; when rows above the viewport change height the scroll position moves with them, so the
+ * text being read stays put. New content is followed only while the list is already at the bottom.
+ */
+const MessageList = ({
+  core,
+  isBusy,
+  flashMessageId,
+  excludedIds,
+  onTogglePin,
+  speakingMessageId,
+  onReadAloud,
+  loadAttachment,
+  onSelectBranch,
+  onEdit,
+  onRegenerate,
+  onRate
+}: MessageListProps) => {
+  const activeSession = useChatStore(core, selectActiveSession);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const heightsRef = useRef(new Map<string, number>());
+  const activePathRef = useRef<ChatMessage[]>([]);
+  const offsetsRef = useRef<number[]>([0]);
+  const siblingsRef = useRef(new Map<string, ChatMessage[]>());
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const isAtBottomRef = useRef(true);
+  const lastMessageIdRef = useRef<string | null>(null);
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+  const [layoutVersion, setLayoutVersion] = useState(0);
+
+  const activePath = useMemo(() => {
+    const path = activeSession ? getActivePath(activeSession) : [];
+    activePathRef.current = path;
+    return path;
+  }, [activeSession]);
+
+  // Sibling lists are reused while unchanged, so a streamed token doesn't re-render every visible row.
+  const branchSiblings = useMemo(() => {
+    const siblings = new Map<string, ChatMessage[]>();
+    activePath.forEach((message) => {
+      const next = getSiblings(activeSession?.messages ?? [], message);
+      const previous = siblingsRef.current.get(message.id);
+      siblings.set(message.id, previous && isSameList(previous, next) ? previous : next);
+    });
+    siblingsRef.current = siblings;
+    return siblings;
+  }, [activePath, activeSession]);
+
+  const offsets = useMemo(() => {
+    const result = [0];
+    activePath.forEach((message, index) => {
+      result.push(result[index] + (heightsRef.current.get(message.id) ?? ESTIMATED_ROW_HEIGHT));
+    });
+    offsetsRef.current = result;
+    return result;
+    // layoutVersion changes whenever a measured height does.
+  }, [activePath, layoutVersion]);
+
+  const updateViewport = useCallback(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    isAtBottomRef.current = element.scrollHeight - element.scrollTop - element.clientHeight <= BOTTOM_THRESHOLD_PX;
+    setViewport((prev) =>
+      prev.top === element.scrollTop && prev.height === element.clientHeight
+        ? prev
+        : { top: element.scrollTop, height: element.clientHeight }
+    );
+  }, []);
+
+  const handleRowResize = useCallback((entries: ResizeObserverEntry[]) => {
+    const element = containerRef.current;
+    if (!element) return;
+    const firstVisible = findRowAt(offsetsRef.current, element.scrollTop);
+    let shiftAbove = 0;
+    let isChanged = false;
+    entries.forEach((entry) => {
+      const row = entry.target as HTMLElement;
+      // Rows that scrolled out of the window report a size of zero on their way out.
+      if (!row.isConnected) {
+        observerRef.current?.unobserve(row);
+        return;
+      }
+      const messageId = row.dataset.messageId ?? "";
+      const height = entry.borderBoxSize?.[0]?.blockSize ?? row.getBoundingClientRect().height;
+      const previous = heightsRef.current.get(messageId) ?? ESTIMATED_ROW_HEIGHT;
+      if (Math.abs(height - previous) < 0.5) return;
+      heightsRef.current.set(messageId, height);
+      isChanged = true;
+      if (Number(row.dataset.index) < firstVisible) shiftAbove += height - previous;
+    });
+    if (!isChanged) return;
+    if (shiftAbove && !isAtBottomRef.current) element.scrollTop += shiftAbove;
+    setLayoutVersion((version) => version + 1);
+  }, []);
+
+  const measureRow = useCallback(
+    (row: HTMLDivElement | null) => {
+      if (!row) return;
+      observerRef.current ??= new ResizeObserver(handleRowResize);
+      observerRef.current.observe(row);
+    },
+    [handleRowResize]
+  );
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(() => {
+      if (isAtBottomRef.current) element.scrollTop = element.scrollHeight;
+      updateViewport();
+    });
+    observer.observe(element);
+    return () => {
+      observer.disconnect();
+      observerRef.current?.disconnect();
+      observerRef.current = null;
+    };
+  }, [updateViewport]);
+
+  // A chat opens scrolled to its newest message.
+  useIsomorphicLayoutEffect(() => {
+    isAtBottomRef.current = true;
+    lastMessageIdRef.current = null;
+  }, [activeSession?.id]);
+
+  useIsomorphicLayoutEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    // Sending a message brings the list down to it even when reading further up.
+    const previousLast = activePath.findIndex((message) => message.id === lastMessageIdRef.current);
+    if (previousLast >= 0 && activePath.slice(previousLast + 1).some((message) => message.role === "user")) {
+      isAtBottomRef.current = true;
+    }
+    lastMessageIdRef.current = activePath[activePath.length - 1]?.id ?? null;
+    if (isAtBottomRef.current) element.scrollTop = element.scrollHeight;
+    updateViewport();
+  }, [offsets, activePath, updateViewport]);
+
+  // Only a new flash moves the list, so the path and offsets are read from refs: later layout changes keep the
+  // reader's position.
+  useIsomorphicLayoutEffect(() => {
+    const element = containerRef.current;
+    const index = activePathRef.current.findIndex((message) => message.id === flashMessageId);
+    if (!element || index < 0) return;
+    isAtBottomRef.current = false;
+    const rowHeight = offsetsRef.current[index + 1] - offsetsRef.current[index];
+    element.scrollTop = Math.max(offsetsRef.current[index] - (element.clientHeight - rowHeight) / 2, 0);
+    updateViewport();
+  }, [flashMessageId, updateViewport]);
+
+  if (!activePath.length) {
+    return (
+      <div ref={containerRef} className={styles.chatMessages} role="log" aria-live="polite">
+        <div className={styles.emptyState}>
+          <div className={styles.emptyTitle}>Start chatting with ChatGPT</div>
+          <div className={styles.emptyText}>
+            This replica keeps every conversation stored locally in your browser. Create new chats, revisit
+            previous topics, and pick up right where you left off.
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const start = findRowAt(offsets, viewport.top - OVERSCAN_PX);
+  const end = findRowAt(offsets, viewport.top + viewport.height + OVERSCAN_PX) + 1;
+  const total = offsets[offsets.length - 1];
+
+  return (
+    <div
+      ref={containerRef}
+      className={styles.chatMessages}
+      style={{ overflowAnchor: "none" }}
+      role="log"
+      aria-live="polite"
+      onScroll={updateViewport}
+    >
+      <div style={{ height: offsets[start], flexShrink: 0 }} aria-hidden="true" />
+      {activePath.slice(start, end).map((message, offset) => (
+        <div
+          key={message.id}
+          ref={measureRow}
+          style={{ display: "flex", flexDirection: "column" }}
+          data-message-id={message.id}
+          data-index={start + offset}
+        >
+          <MessageItem
+            message={message}
+            siblings={branchSiblings.get(message.id) ?? [message]}
+            isBusy={isBusy}
+            isFlashing={message.id === flashMessageId}
+            isExcluded={excludedIds?.has(message.id)}
+            onTogglePin={onTogglePin}
+            isSpeaking={message.id === speakingMessageId}
+            onReadAloud={onReadAloud}
+            onSelectBranch={onSelectBranch}
+            onEdit={onEdit}
+            onRegenerate={onRegenerate}
+            onRate={onRate}
+            loadAttachment={loadAttachment}
+          />
+        </div>
+      ))}
+      <div style={{ height: total - offsets[Math.min(end, activePath.length)], flexShrink: 0 }} aria-hidden="true" />
+    </div>
+  );
+};
+
+export default memo(MessageList);
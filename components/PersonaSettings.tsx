@@ -0,0 +1,243 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { FormEvent } from "react";
+import clsx from "clsx";
+import styles from "./ChatApp.module.css";
+import { createPersona } from "./personas";
+import { SPEECH_RATE_OPTIONS } from "./settings";
+import type { WorkspaceSettings } from "./settings";
+import { isSpeechSynthesisSupported, listVoices } from "./speech";
+import type { Persona } from "./types";
+
+type PersonaDraft = {
+  id: string | null;
+  name: string;
+  systemPrompt: string;
+  model: string;
+  temperature: string;
+};
+
+const EMPTY_DRAFT: PersonaDraft = { id: null, name: "", systemPrompt: "", model: "", temperature: "" };
+
+const toDraft = (persona: Persona): PersonaDraft => ({
+  id: persona.id,
+  name: persona.name,
+  systemPrompt: persona.systemPrompt,
+  model: persona.model ?? "",
+  temperature: persona.temperature === undefined ? "" : String(persona.temperature)
+});
+
+const parseTemperature = (value: string) => {
+  const temperature = Number.parseFloat(value);
+  return value.trim() && Number.isFinite(temperature) ? Math.min(Math.max(temperature, 0), 2) : undefined;
+};
+
+type PersonaSettingsProps = {
+  settings: WorkspaceSettings;
+  personas: Persona[];
+  onSettingsChange: (settings: WorkspaceSettings) => void;
+  onSavePersona: (persona: Persona) => void;
+  onDeletePersona: (personaId: string) => void;
+  onClose: () => void;
+};
+
+/** Dialog for the workspace's custom instructions, its list of personas and the read-aloud voice. */
+const PersonaSettings = ({
+  settings,
+  personas,
+  onSettingsChange,
+  onSavePersona,
+  onDeletePersona,
+  onClose
+}: PersonaSettingsProps) => {
+  const [instructions, setInstructions] = useState(settings.customInstructions);
+  const [draft, setDraft] = useState<PersonaDraft | null>(null);
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const canSpeak = isSpeechSynthesisSupported();
+
+  // Browsers load their voice list asynchronously and announce it with `voiceschanged`.
+  useEffect(() => {
+    if (!isSpeechSynthesisSupported()) return;
+    const updateVoices = () => setVoices(listVoices());
+    updateVoices();
+    window.speechSynthesis.addEventListener("voiceschanged", updateVoices);
+    return () => window.speechSynthesis.removeEventListener("voiceschanged", updateVoices);
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const submitInstructions = (event: FormEvent) => {
+    event.preventDefault();
+    onSettingsChange({ ...settings, customInstructions: instructions.trim() });
+  };
+
+  const submitPersona = (event: FormEvent) => {
+    event.preventDefault();
+    if (!draft || !draft.name.trim()) return;
+    const fields = {
+      name: draft.name.trim(),
+      systemPrompt: draft.systemPrompt.trim(),
+      model: draft.model.trim() || undefined,
+      temperature: parseTemperature(draft.temperature)
+    };
+    const existing = personas.find((persona) => persona.id === draft.id);
+    onSavePersona(existing ? { ...existing, ...fields, updatedAt: new Date().toISOString() } : createPersona(fields));
+    setDraft(null);
+  };
+
+  return (
+    <div className={styles.dialogOverlay} role="dialog" aria-modal="true" aria-labelledby="persona-settings-title">
+      <div className={styles.dialog}>
+        <div className={styles.dialogHeader}>
+          <h2 id="persona-settings-title">Customize ChatGPT</h2>
+          <button type="button" className={styles.secondaryButton} onClick={onClose}>
+            Close
+          </button>
+        </div>
+        <form className={styles.dialogSection} onSubmit={submitInstructions}>
+          <label htmlFor="custom-instructions">Custom instructions</label>
+          <textarea
+            id="custom-instructions"
+            className={styles.textarea}
+            rows={4}
+            value={instructions}
+            onChange={(event) => setInstructions(event.target.value)}
+            placeholder="What should the assistant know about you and how should it respond?"
+          />
+          <button
+            type="submit"
+            className={styles.primaryButton}
+            disabled={instructions.trim() === settings.customInstructions}
+          >
+            Save instructions
+          </button>
+        </form>
+        <section className={styles.dialogSection}>
+          <div className={styles.dialogHeader}>
+            <h3>Personas</h3>
+            <button type="button" className={styles.secondaryButton} onClick={() => setDraft(EMPTY_DRAFT)}>
+              New persona
+            </button>
+          </div>
+          {!personas.length && !draft && <p className={styles.helperText}>No personas yet.</p>}
+          <ul className={styles.personaList}>
+            {personas.map((persona) => (
+              <li key={persona.id} className={clsx({ [styles.historyItemActive]: draft?.id === persona.id })}>
+                <span className={styles.historyTitle}>{persona.name}</span>
+                <span className={styles.historyTimestamp}>
+                  {[persona.model, persona.temperature !== undefined && `temp ${persona.temperature}`]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </span>
+                <button type="button" className={styles.messageActionButton} onClick={() => setDraft(toDraft(persona))}>
+                  Edit
+                </button>
+                <button
+                  type="button"
+                  className={styles.messageActionButton}
+                  onClick={() => onDeletePersona(persona.id)}
+                  aria-label={`Delete persona ${persona.name}`}
+                >
+                  Delete
+                </button>
+              </li>
+            ))}
+          </ul>
+          {draft && (
+            <form className={styles.personaForm} onSubmit={submitPersona}>
+              <input
+                type="text"
+                className={styles.searchInput}
+                placeholder="Name"
+                value={draft.name}
+                onChange={(event) => setDraft({ ...draft, name: event.target.value })}
+                aria-label="Persona name"
+                required
+              />
+              <textarea
+                className={styles.textarea}
+                rows={4}
+                placeholder="System prompt"
+                value={draft.systemPrompt}
+                onChange={(event) => setDraft({ ...draft, systemPrompt: event.target.value })}
+                aria-label="Persona system prompt"
+              />
+              <input
+                type="text"
+                className={styles.searchInput}
+                placeholder="Model (optional)"
+                value={draft.model}
+                onChange={(event) => setDraft({ ...draft, model: event.target.value })}
+                aria-label="Persona model"
+              />
+              <input
+                type="number"
+                className={styles.searchInput}
+                placeholder="Temperature (optional)"
+                min={0}
+                max={2}
+                step={0.1}
+                value={draft.temperature}
+                onChange={(event) => setDraft({ ...draft, temperature: event.target.value })}
+                aria-label="Persona temperature"
+              />
+              <div className={styles.messageEditorActions}>
+                <button type="button" className={styles.secondaryButton} onClick={() => setDraft(null)}>
+                  Cancel
+                </button>
+                <button type="submit" className={styles.primaryButton} disabled={!draft.name.trim()}>
+                  Save persona
+                </button>
+              </div>
+            </form>
+          )}
+        </section>
+        <section className={styles.dialogSection}>
+          <h3>Read aloud</h3>
+          {canSpeak ? (
+            <>
+              <label className={styles.sessionMenuField}>
+                <span>Voice</span>
+                <select
+                  value={settings.speechVoice ?? ""}
+                  onChange={(event) => onSettingsChange({ ...settings, speechVoice: event.target.value || null })}
+                >
+                  <option value="">Browser default</option>
+                  {voices.map((voice) => (
+                    <option key={voice.voiceURI} value={voice.voiceURI}>
+                      {voice.name} ({voice.lang})
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className={styles.sessionMenuField}>
+                <span>Speed</span>
+                <select
+                  value={settings.speechRate}
+                  onChange={(event) => onSettingsChange({ ...settings, speechRate: Number(event.target.value) })}
+                >
+                  {SPEECH_RATE_OPTIONS.map((rate) => (
+                    <option key={rate} value={rate}>
+                      {rate}×
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </>
+          ) : (
+            <p className={styles.helperText}>This browser can&apos;t read messages aloud.</p>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default PersonaSettings;
@@ -0,0 +1,142 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { FormEvent } from "react";
+import clsx from "clsx";
+import styles from "./ChatApp.module.css";
+import { createPromptTemplate, extractVariables } from "./prompts";
+import type { PromptTemplate } from "./types";
+
+type PromptDraft = {
+  id: string | null;
+  name: string;
+  content: string;
+};
+
+const EMPTY_DRAFT: PromptDraft = { id: null, name: "", content: "" };
+
+type PromptLibraryProps = {
+  prompts: PromptTemplate[];
+  onSavePrompt: (prompt: PromptTemplate) => void;
+  onDeletePrompt: (promptId: string) => void;
+  onUsePrompt: (prompt: PromptTemplate) => void;
+  onClose: () => void;
+};
+
+/** Dialog for the saved prompt templates offered by the composer's slash menu. */
+const PromptLibrary = ({ prompts, onSavePrompt, onDeletePrompt, onUsePrompt, onClose }: PromptLibraryProps) => {
+  const [draft, setDraft] = useState<PromptDraft | null>(null);
+  const variables = draft ? extractVariables(draft.content) : [];
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const submitPrompt = (event: FormEvent) => {
+    event.preventDefault();
+    if (!draft || !draft.name.trim() || !draft.content.trim()) return;
+    const fields = { name: draft.name.trim(), content: draft.content.trim() };
+    const existing = prompts.find((prompt) => prompt.id === draft.id);
+    onSavePrompt(
+      existing ? { ...existing, ...fields, updatedAt: new Date().toISOString() } : createPromptTemplate(fields)
+    );
+    setDraft(null);
+  };
+
+  return (
+    <div className={styles.dialogOverlay} role="dialog" aria-modal="true" aria-labelledby="prompt-library-title">
+      <div className={styles.dialog}>
+        <div className={styles.dialogHeader}>
+          <h2 id="prompt-library-title">Prompt library</h2>
+          <button type="button" className={styles.secondaryButton} onClick={onClose}>
+            Close
+          </button>
+        </div>
+        <section className={styles.dialogSection}>
+          <div className={styles.dialogHeader}>
+            <p className={styles.helperText}>Type / in the message box to use a prompt.</p>
+            <button type="button" className={styles.secondaryButton} onClick={() => setDraft(EMPTY_DRAFT)}>
+              New prompt
+            </button>
+          </div>
+          {!prompts.length && !draft && <p className={styles.helperText}>No saved prompts yet.</p>}
+          <ul className={styles.personaList}>
+            {prompts.map((prompt) => (
+              <li key={prompt.id} className={clsx({ [styles.historyItemActive]: draft?.id === prompt.id })}>
+                <span className={styles.historyTitle}>{prompt.name}</span>
+                <span className={styles.historyTimestamp}>
+                  {extractVariables(prompt.content)
+                    .map((name) => `{{${name}}}`)
+                    .join(" ")}
+                </span>
+                <button type="button" className={styles.messageActionButton} onClick={() => onUsePrompt(prompt)}>
+                  Use
+                </button>
+                <button
+                  type="button"
+                  className={styles.messageActionButton}
+                  onClick={() => setDraft({ id: prompt.id, name: prompt.name, content: prompt.content })}
+                >
+                  Edit
+                </button>
+                <button
+                  type="button"
+                  className={styles.messageActionButton}
+                  onClick={() => onDeletePrompt(prompt.id)}
+                  aria-label={`Delete prompt ${prompt.name}`}
+                >
+                  Delete
+                </button>
+              </li>
+            ))}
+          </ul>
+          {draft && (
+            <form className={styles.personaForm} onSubmit={submitPrompt}>
+              <input
+                type="text"
+                className={styles.searchInput}
+                placeholder="Name"
+                value={draft.name}
+                onChange={(event) => setDraft({ ...draft, name: event.target.value })}
+                aria-label="Prompt name"
+                required
+              />
+              <textarea
+                className={styles.textarea}
+                rows={6}
+                placeholder="Summarize {{text}} for {{audience}}"
+                value={draft.content}
+                onChange={(event) => setDraft({ ...draft, content: event.target.value })}
+                aria-label="Prompt text"
+                required
+              />
+              <p className={styles.helperText}>
+                {variables.length
+                  ? `Asks for: ${variables.join(", ")}`
+                  : "Wrap words in {{double braces}} to ask for them each time the prompt is used."}
+              </p>
+              <div className={styles.messageEditorActions}>
+                <button type="button" className={styles.secondaryButton} onClick={() => setDraft(null)}>
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className={styles.primaryButton}
+                  disabled={!draft.name.trim() || !draft.content.trim()}
+                >
+                  Save prompt
+                </button>
+              </div>
+            </form>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default PromptLibrary;
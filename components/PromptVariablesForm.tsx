@@ -0,0 +1,59 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { FormEvent } from "react";
+import styles from "./ChatApp.module.css";
+import { extractVariables, fillTemplate } from "./prompts";
+import type { PromptTemplate } from "./types";
+
+type PromptVariablesFormProps = {
+  template: PromptTemplate;
+  onSubmit: (content: string) => void;
+  onCancel: () => void;
+};
+
+/** Asks for each `{{variable}}` of a template and hands back the filled-in prompt. */
+const PromptVariablesForm = ({ template, onSubmit, onCancel }: PromptVariablesFormProps) => {
+  const variables = useMemo(() => extractVariables(template.content), [template.content]);
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    onSubmit(fillTemplate(template.content, values));
+  };
+
+  return (
+    <form
+      className={styles.promptVariables}
+      onSubmit={handleSubmit}
+      onKeyDown={(event) => {
+        if (event.key === "Escape") onCancel();
+      }}
+      aria-label={`Fill in ${template.name}`}
+    >
+      <div className={styles.dialogHeader}>
+        <strong>{template.name}</strong>
+        <button type="button" className={styles.secondaryButton} onClick={onCancel}>
+          Cancel
+        </button>
+      </div>
+      {variables.map((name, index) => (
+        <label key={name}>
+          <span>{name}</span>
+          <input
+            type="text"
+            className={styles.searchInput}
+            value={values[name] ?? ""}
+            onChange={(event) => setValues((prev) => ({ ...prev, [name]: event.target.value }))}
+            autoFocus={index === 0}
+          />
+        </label>
+      ))}
+      <button type="submit" className={styles.primaryButton}>
+        Insert prompt
+      </button>
+    </form>
+  );
+};
+
+export default PromptVariablesForm;
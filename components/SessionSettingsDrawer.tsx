@@ -0,0 +1,172 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { FormEvent } from "react";
+import styles from "./ChatApp.module.css";
+import { CONTEXT_STRATEGIES, MAX_STOP_SEQUENCES, SETTING_LIMITS, normalizeSessionSettings } from "./generationSettings";
+import type { SessionSettings } from "./types";
+
+type SettingsDraft = {
+  model: string;
+  temperature: string;
+  topP: string;
+  maxTokens: string;
+  stop: string;
+  contextBudget: string;
+  contextStrategy: string;
+};
+
+const toDraft = (settings: SessionSettings): SettingsDraft => ({
+  model: settings.model ?? "",
+  temperature: settings.temperature?.toString() ?? "",
+  topP: settings.topP?.toString() ?? "",
+  maxTokens: settings.maxTokens?.toString() ?? "",
+  stop: (settings.stop ?? []).join("\n"),
+  contextBudget: settings.contextBudget?.toString() ?? "",
+  contextStrategy: settings.contextStrategy ?? CONTEXT_STRATEGIES[0].id
+});
+
+const parseNumber = (value: string) => (value.trim() ? Number(value) : undefined);
+
+const fromDraft = (draft: SettingsDraft): SessionSettings =>
+  normalizeSessionSettings({
+    model: draft.model,
+    temperature: parseNumber(draft.temperature),
+    topP: parseNumber(draft.topP),
+    maxTokens: parseNumber(draft.maxTokens),
+    stop: draft.stop.split("\n").filter((line) => line.trim()),
+    contextBudget: parseNumber(draft.contextBudget),
+    contextStrategy: draft.contextStrategy
+  });
+
+type SessionSettingsDrawerProps = {
+  settings: SessionSettings;
+  defaults: SessionSettings;
+  onChange: (settings: SessionSettings) => void;
+  onSaveDefaults: (settings: SessionSettings) => void;
+  onClose: () => void;
+};
+
+/** Side drawer for one session's generation settings. Empty fields fall back to the provider's defaults. */
+const SessionSettingsDrawer = ({
+  settings,
+  defaults,
+  onChange,
+  onSaveDefaults,
+  onClose
+}: SessionSettingsDrawerProps) => {
+  const [draft, setDraft] = useState(() => toDraft(settings));
+
+  useEffect(() => {
+    setDraft(toDraft(settings));
+  }, [settings]);
+
+  const update = (field: keyof SettingsDraft) => (event: { target: { value: string } }) =>
+    setDraft((prev) => ({ ...prev, [field]: event.target.value }));
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    onChange(fromDraft(draft));
+  };
+
+  return (
+    <aside className={styles.settingsDrawer} aria-label="Chat settings">
+      <div className={styles.dialogHeader}>
+        <h2>Chat settings</h2>
+        <button type="button" className={styles.secondaryButton} onClick={onClose}>
+          Close
+        </button>
+      </div>
+      <form className={styles.settingsForm} onSubmit={handleSubmit}>
+        <label>
+          <span>Model</span>
+          <input
+            type="text"
+            className={styles.searchInput}
+            value={draft.model}
+            onChange={update("model")}
+            placeholder="Provider default"
+          />
+        </label>
+        <label>
+          <span>Temperature</span>
+          <input
+            type="number"
+            className={styles.searchInput}
+            value={draft.temperature}
+            onChange={update("temperature")}
+            min={SETTING_LIMITS.temperature.min}
+            max={SETTING_LIMITS.temperature.max}
+            step={0.1}
+            placeholder="Default"
+          />
+        </label>
+        <label>
+          <span>Top-p</span>
+          <input
+            type="number"
+            className={styles.searchInput}
+            value={draft.topP}
+            onChange={update("topP")}
+            min={SETTING_LIMITS.topP.min}
+            max={SETTING_LIMITS.topP.max}
+            step={0.05}
+            placeholder="Default"
+          />
+        </label>
+        <label>
+          <span>Max tokens</span>
+          <input
+            type="number"
+            className={styles.searchInput}
+            value={draft.maxTokens}
+            onChange={update("maxTokens")}
+            min={SETTING_LIMITS.maxTokens.min}
+            max={SETTING_LIMITS.maxTokens.max}
+            placeholder="Default"
+          />
+        </label>
+        <label>
+          <span>Stop sequences (one per line, up to {MAX_STOP_SEQUENCES})</span>
+          <textarea className={styles.textarea} rows={3} value={draft.stop} onChange={update("stop")} />
+        </label>
+        <label>
+          <span>Context budget (tokens)</span>
+          <input
+            type="number"
+            className={styles.searchInput}
+            value={draft.contextBudget}
+            onChange={update("contextBudget")}
+            min={SETTING_LIMITS.contextBudget.min}
+            max={SETTING_LIMITS.contextBudget.max}
+            step={256}
+            placeholder="Unlimited"
+          />
+        </label>
+        <label>
+          <span>When over budget</span>
+          <select className={styles.searchInput} value={draft.contextStrategy} onChange={update("contextStrategy")}>
+            {CONTEXT_STRATEGIES.map((strategy) => (
+              <option key={strategy.id} value={strategy.id}>
+                {strategy.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <div className={styles.messageEditorActions}>
+          <button type="button" className={styles.secondaryButton} onClick={() => setDraft(toDraft(defaults))}>
+            Use workspace defaults
+          </button>
+          <button type="button" className={styles.secondaryButton} onClick={() => onSaveDefaults(fromDraft(draft))}>
+            Save as default for new chats
+          </button>
+          <button type="submit" className={styles.primaryButton}>
+            Apply
+          </button>
+        </div>
+      </form>
+    </aside>
+  );
+};
+
+export default SessionSettingsDrawer;
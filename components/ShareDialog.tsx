@@ -0,0 +1,166 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import styles from "./ChatApp.module.css";
+import { getActivePath } from "./messageTree";
+import { buildShareUrl, buildSharedChat, encodeSharedChat } from "./share";
+import type { ChatSession } from "./types";
+
+const COPY_RESET_MS = 2000;
+const PREVIEW_LENGTH = 80;
+// Some chat apps and mail clients cut links off somewhere past this length.
+const LONG_LINK_LENGTH = 8000;
+
+type ShareDialogProps = {
+  session: ChatSession;
+  onClose: () => void;
+};
+
+/** Builds a read-only link to the branch being viewed, optionally leaving out individual messages. */
+const ShareDialog = ({ session, onClose }: ShareDialogProps) => {
+  const [redactedIds, setRedactedIds] = useState<Set<string>>(() => new Set());
+  const [url, setUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [copyState, setCopyState] = useState<"idle" | "copied" | "failed">("idle");
+  const copyResetRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const messages = useMemo(
+    () => getActivePath(session).filter((message) => message.status !== "streaming"),
+    [session]
+  );
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  useEffect(() => () => {
+    if (copyResetRef.current) clearTimeout(copyResetRef.current);
+  }, []);
+
+  // A link already made no longer matches once the selection or the chat changes.
+  useEffect(() => setUrl(null), [redactedIds, session]);
+
+  const toggleMessage = (messageId: string) => {
+    setRedactedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(messageId)) {
+        next.delete(messageId);
+      } else {
+        next.add(messageId);
+      }
+      return next;
+    });
+  };
+
+  const createLink = async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const encoded = await encodeSharedChat(buildSharedChat(session, redactedIds));
+      setUrl(buildShareUrl(window.location.origin, encoded));
+    } catch (shareError) {
+      console.warn("Failed to create share link", shareError);
+      setError("This browser can't compress the chat into a link.");
+    }
+    setIsWorking(false);
+  };
+
+  const copyLink = async () => {
+    if (!url) return;
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopyState("copied");
+    } catch (copyError) {
+      console.warn("Failed to copy share link", copyError);
+      setCopyState("failed");
+    }
+    if (copyResetRef.current) clearTimeout(copyResetRef.current);
+    copyResetRef.current = setTimeout(() => setCopyState("idle"), COPY_RESET_MS);
+  };
+
+  return (
+    <div className={styles.dialogOverlay} role="dialog" aria-modal="true" aria-labelledby="share-title">
+      <div className={styles.dialog}>
+        <div className={styles.dialogHeader}>
+          <h2 id="share-title">Share chat</h2>
+          <button type="button" className={styles.secondaryButton} onClick={onClose}>
+            Close
+          </button>
+        </div>
+        <div className={styles.dialogSection}>
+          <p className={styles.helperText}>
+            Anyone with the link can read the version of this chat you are viewing. The chat is stored in the link
+            itself, so it never passes through a server. Attached files are listed by name only.
+          </p>
+          <ul className={styles.shareMessageList} aria-label="Messages to include">
+            {messages.map((message) => (
+              <li key={message.id}>
+                <label className={styles.settingToggle}>
+                  <input
+                    type="checkbox"
+                    checked={!redactedIds.has(message.id)}
+                    onChange={() => toggleMessage(message.id)}
+                  />
+                  <span className={styles.historyTimestamp}>{message.role === "user" ? "You" : "Assistant"}</span>
+                  <span className={styles.historyTitle}>
+                    {message.content.slice(0, PREVIEW_LENGTH) || message.attachments?.[0]?.name}
+                  </span>
+                </label>
+              </li>
+            ))}
+          </ul>
+          {error && (
+            <p className={styles.helperText} role="alert">
+              {error}
+            </p>
+          )}
+          {url && (
+            <>
+              <input
+                type="text"
+                className={styles.searchInput}
+                value={url}
+                readOnly
+                onFocus={(event) => event.target.select()}
+                aria-label="Share link"
+              />
+              {url.length > LONG_LINK_LENGTH && (
+                <p className={styles.helperText}>
+                  This link is long; some apps may cut it off. Leaving out long messages makes it shorter.
+                </p>
+              )}
+            </>
+          )}
+          <div className={styles.messageEditorActions}>
+            {url ? (
+              <>
+                <a className={styles.secondaryButton} href={url} target="_blank" rel="noreferrer">
+                  Preview
+                </a>
+                <button type="button" className={styles.primaryButton} onClick={copyLink} aria-live="polite">
+                  {copyState === "copied" ? "Copied!" : copyState === "failed" ? "Copy failed" : "Copy link"}
+                </button>
+              </>
+            ) : (
+              <button
+                type="button"
+                className={styles.primaryButton}
+                onClick={() => void createLink()}
+                disabled={isWorking || redactedIds.size === messages.length}
+              >
+                {isWorking ? "Creating…" : "Create link"}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShareDialog;
@@ -0,0 +1,88 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import clsx from "clsx";
+import styles from "./ChatApp.module.css";
+import { MessageBubble, getMessageAnchorId } from "./MessageItem";
+import { ShareError, decodeSharedChat } from "./share";
+import type { SharedChat } from "./share";
+
+// Links carry no file contents, so attachments show as unavailable chips.
+const loadNothing = () => Promise.resolve(null);
+
+/** Read-only rendering of a chat shared as a link; the chat is decoded from the URL fragment. */
+const SharedChatView = () => {
+  const [chat, setChat] = useState<SharedChat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const openFragment = () => {
+      const fragment = window.location.hash.slice(1);
+      if (!fragment) {
+        setError("This link doesn't contain a chat.");
+        return;
+      }
+      decodeSharedChat(fragment)
+        .then((decoded) => {
+          if (cancelled) return;
+          setChat(decoded);
+          setError(null);
+          document.title = decoded.title;
+        })
+        .catch((decodeError) => {
+          if (cancelled) return;
+          setChat(null);
+          setError(decodeError instanceof ShareError ? decodeError.message : "This chat could not be opened.");
+        });
+    };
+    openFragment();
+    window.addEventListener("hashchange", openFragment);
+    return () => {
+      cancelled = true;
+      window.removeEventListener("hashchange", openFragment);
+    };
+  }, []);
+
+  return (
+    <div className={styles.container}>
+      <main className={styles.chatArea}>
+        <header className={styles.chatHeader}>
+          <span className={styles.chatHeaderTitle}>{chat?.title ?? "Shared chat"}</span>
+          {chat && (
+            <span className={styles.historyTimestamp}>
+              Read-only · shared {new Date(chat.sharedAt).toLocaleDateString()}
+            </span>
+          )}
+          <a className={styles.secondaryButton} href="/">
+            Open ChatGPT
+          </a>
+        </header>
+        <div className={styles.chatMessages} role="log">
+          {error && (
+            <div className={styles.emptyState}>
+              <div className={styles.emptyTitle}>This chat can&apos;t be shown</div>
+              <div className={styles.emptyText}>{error}</div>
+            </div>
+          )}
+          {chat?.messages.map((message) => (
+            <div
+              key={message.id}
+              id={getMessageAnchorId(message.id)}
+              className={clsx(styles.messageRow, {
+                [styles.messageRowUser]: message.role === "user",
+                [styles.messageRowAssistant]: message.role === "assistant"
+              })}
+            >
+              <MessageBubble message={message} loadAttachment={loadNothing}>
+                {message.redacted && <span className={styles.messageStatus}>Hidden when shared</span>}
+              </MessageBubble>
+            </div>
+          ))}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default SharedChatView;
@@ -0,0 +1,752 @@
+"use client";
+
+import { memo, useCallback, useMemo, useRef, useState } from "react";
+import type { ChangeEvent, DragEvent as ReactDragEvent, FormEvent, RefObject } from "react";
+import clsx from "clsx";
+import styles from "./ChatApp.module.css";
+import { TRASH_RETENTION_DAYS } from "./core";
+import type { SessionPatch } from "./core";
+import ExportSelect from "./ExportSelect";
+import { SESSION_DRAG_TYPE, buildSidebarSections, collectTags, normalizeTag } from "./library";
+import type { SidebarFilter, SidebarView } from "./library";
+import type { SearchHit, SessionSearchResult, SnippetRange } from "./search";
+import type { WorkspaceSettings } from "./settings";
+import type { SyncStatus } from "./sync";
+import TitleInput from "./TitleInput";
+import type { ExportFormat } from "./transfer";
+import type { ChatFolder, ChatSession, Persona } from "./types";
+
+const VIEWS: { id: SidebarView; label: string }[] = [
+  { id: "chats", label: "Chats" },
+  { id: "pinned", label: "Pinned" },
+  { id: "archived", label: "Archived" },
+  { id: "trash", label: "Trash" }
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const describeTimeLeft = (deletedAt: string) => {
+  const daysLeft = Math.ceil(TRASH_RETENTION_DAYS - (Date.now() - new Date(deletedAt).getTime()) / DAY_MS);
+  return daysLeft > 1 ? `${daysLeft} days left` : "Deleted within a day";
+};
+
+const formatRelativeTimestamp = (iso: string) => {
+  const now = Date.now();
+  const timestamp = new Date(iso).getTime();
+  const diff = now - timestamp;
+
+  const minutes = Math.round(diff / 60000);
+  if (minutes < 1) return "Just now";
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours} hr${hours > 1 ? "s" : ""} ago`;
+  const days = Math.round(hours / 24);
+  if (days < 7) return `${days} day${days > 1 ? "s" : ""} ago`;
+  return new Intl.DateTimeFormat([], {
+    month: "short",
+    day: "numeric"
+  }).format(new Date(iso));
+};
+
+const describeSyncStatus = ({ phase, pending, lastSyncedAt }: SyncStatus) => {
+  const waiting = pending ? ` · ${pending} change${pending > 1 ? "s" : ""} waiting` : "";
+  if (phase === "off") return "Local workspace";
+  if (phase === "standby") return "Syncing in another tab";
+  if (phase === "syncing") return "Syncing…";
+  if (phase === "offline") return `Offline${waiting}`;
+  if (phase === "error") return `Sync failed${waiting}`;
+  return `Synced${lastSyncedAt ? ` ${formatRelativeTimestamp(lastSyncedAt).toLowerCase()}` : ""}${waiting}`;
+};
+
+type HighlightedSnippetProps = {
+  text: string;
+  highlights: SnippetRange[];
+};
+
+const HighlightedSnippet = ({ text, highlights }: HighlightedSnippetProps) => {
+  const parts: JSX.Element[] = [];
+  let cursor = 0;
+  highlights.forEach((range) => {
+    if (range.start > cursor) parts.push(<span key={`text-${cursor}`}>{text.slice(cursor, range.start)}</span>);
+    parts.push(<mark key={`mark-${range.start}`}>{text.slice(range.start, range.end)}</mark>);
+    cursor = range.end;
+  });
+  if (cursor < text.length) parts.push(<span key={`text-${cursor}`}>{text.slice(cursor)}</span>);
+  return <span className={styles.searchSnippet}>{parts}</span>;
+};
+
+type SessionMenuProps = {
+  session: ChatSession;
+  folders: ChatFolder[];
+  onUpdate: (sessionId: string, patch: SessionPatch) => void;
+  onDelete: (sessionId: string) => void;
+  onStartRename: () => void;
+};
+
+const SessionMenu = ({ session, folders, onUpdate, onDelete, onStartRename }: SessionMenuProps) => {
+  const [tagDraft, setTagDraft] = useState("");
+
+  const addTag = (event: FormEvent) => {
+    event.preventDefault();
+    const tag = normalizeTag(tagDraft);
+    setTagDraft("");
+    if (!tag || session.tags.includes(tag)) return;
+    onUpdate(session.id, { tags: [...session.tags, tag] });
+  };
+
+  return (
+    <details className={styles.sessionMenu}>
+      <summary className={styles.messageActionButton} aria-label="Chat options">
+        ⋯
+      </summary>
+      <div className={styles.sessionMenuPanel}>
+        <button type="button" className={styles.secondaryButton} onClick={onStartRename}>
+          Rename
+        </button>
+        <button
+          type="button"
+          className={styles.secondaryButton}
+          onClick={() => onUpdate(session.id, { archived: !session.archived })}
+        >
+          {session.archived ? "Unarchive" : "Archive"}
+        </button>
+        <label className={styles.sessionMenuField}>
+          <span>Folder</span>
+          <select
+            value={session.folderId ?? ""}
+            onChange={(event) => onUpdate(session.id, { folderId: event.target.value || null })}
+          >
+            <option value="">No folder</option>
+            {folders.map((folder) => (
+              <option key={folder.id} value={folder.id}>
+                {folder.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <div className={styles.tagList}>
+          {session.tags.map((tag) => (
+            <button
+              key={tag}
+              type="button"
+              className={styles.tagChip}
+              onClick={() => onUpdate(session.id, { tags: session.tags.filter((item) => item !== tag) })}
+              aria-label={`Remove tag ${tag}`}
+            >
+              #{tag} ×
+            </button>
+          ))}
+        </div>
+        <form className={styles.sessionMenuField} onSubmit={addTag}>
+          <input
+            type="text"
+            className={styles.searchInput}
+            placeholder="Add tag"
+            value={tagDraft}
+            onChange={(event) => setTagDraft(event.target.value)}
+            aria-label="Add tag"
+          />
+        </form>
+        <button type="button" className={styles.deleteButton} onClick={() => onDelete(session.id)}>
+          <TrashIcon /> Delete
+        </button>
+      </div>
+    </details>
+  );
+};
+
+type TrashRowProps = {
+  session: ChatSession;
+  onRestore: (sessionId: string) => void;
+  onPurge: (sessionId: string) => void;
+};
+
+const TrashRow = ({ session, onRestore, onPurge }: TrashRowProps) => (
+  <div className={styles.historyGroup}>
+    <div className={styles.historyItem}>
+      <div className={styles.historyItemMain}>
+        <span className={styles.historyTitle}>{session.title}</span>
+        <span className={styles.historyTimestamp}>{describeTimeLeft(session.deletedAt ?? "")}</span>
+      </div>
+      <button type="button" className={styles.messageActionButton} onClick={() => onRestore(session.id)}>
+        Restore
+      </button>
+      <button
+        type="button"
+        className={styles.deleteButton}
+        onClick={() => onPurge(session.id)}
+        aria-label={`Delete ${session.title} forever`}
+        title="Delete forever"
+      >
+        <TrashIcon />
+      </button>
+    </div>
+  </div>
+);
+
+type SessionRowProps = {
+  session: ChatSession;
+  hits?: SearchHit[];
+  isActive: boolean;
+  folders: ChatFolder[];
+  onSelect: (sessionId: string) => void;
+  onDelete: (sessionId: string) => void;
+  onUpdate: (sessionId: string, patch: SessionPatch) => void;
+  onRename: (sessionId: string, title: string) => void;
+  onOpenSearchHit: (hit: SearchHit) => void;
+};
+
+const SessionRow = ({
+  session,
+  hits = [],
+  isActive,
+  folders,
+  onSelect,
+  onDelete,
+  onUpdate,
+  onRename,
+  onOpenSearchHit
+}: SessionRowProps) => {
+  const [isRenaming, setIsRenaming] = useState(false);
+
+  return (
+    <div
+      className={styles.historyGroup}
+      draggable={!isRenaming}
+      onDragStart={(event) => {
+        event.dataTransfer.setData(SESSION_DRAG_TYPE, session.id);
+        event.dataTransfer.effectAllowed = "move";
+      }}
+    >
+      <div className={clsx(styles.historyItem, { [styles.historyItemActive]: isActive })}>
+        {isRenaming ? (
+          <TitleInput
+            title={session.title}
+            onCommit={(title) => {
+              setIsRenaming(false);
+              onRename(session.id, title);
+            }}
+            onCancel={() => setIsRenaming(false)}
+          />
+        ) : (
+          <div
+            className={styles.historyItemMain}
+            role="button"
+            tabIndex={0}
+            onClick={() => onSelect(session.id)}
+            onKeyDown={(event) => {
+              if (event.key === "Enter" || event.key === " ") {
+                event.preventDefault();
+                onSelect(session.id);
+              }
+            }}
+          >
+            <span className={styles.historyTitle} onDoubleClick={() => setIsRenaming(true)}>
+              {session.title}
+            </span>
+            {session.tags.length > 0 && (
+              <span className={styles.tagList}>
+                {session.tags.map((tag) => (
+                  <span key={tag} className={styles.tagChip}>
+                    #{tag}
+                  </span>
+                ))}
+              </span>
+            )}
+            <span className={styles.historyTimestamp}>{formatRelativeTimestamp(session.updatedAt)}</span>
+          </div>
+        )}
+        <button
+          type="button"
+          className={clsx(styles.messageActionButton, { [styles.messageActionActive]: session.pinned })}
+          onClick={() => onUpdate(session.id, { pinned: !session.pinned })}
+          aria-pressed={session.pinned}
+          aria-label={session.pinned ? "Unpin chat" : "Pin chat"}
+        >
+          <PinIcon />
+        </button>
+        <SessionMenu
+          session={session}
+          folders={folders}
+          onUpdate={onUpdate}
+          onDelete={onDelete}
+          onStartRename={() => setIsRenaming(true)}
+        />
+      </div>
+      {hits.length > 0 && (
+        <ul className={styles.searchHits}>
+          {hits.map((hit) => (
+            <li key={hit.messageId}>
+              <button type="button" className={styles.searchHit} onClick={() => onOpenSearchHit(hit)}>
+                <span className={styles.searchHitRole}>{hit.role === "user" ? "You" : "Assistant"}</span>
+                <HighlightedSnippet text={hit.snippet} highlights={hit.highlights} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export type SidebarProps = {
+  sessions: ChatSession[];
+  folders: ChatFolder[];
+  filter: SidebarFilter;
+  searchResults: SessionSearchResult[] | null;
+  activeSessionId: string | null;
+  searchTerm: string;
+  searchInputRef: RefObject<HTMLInputElement>;
+  onFilterChange: (filter: SidebarFilter) => void;
+  onSearchChange: (value: string) => void;
+  onOpenSearchHit: (hit: SearchHit) => void;
+  onSelect: (sessionId: string) => void;
+  /** Moves the chat to the trash; `onPurge` removes a trashed chat for good. */
+  onDelete: (sessionId: string) => void;
+  onRestore: (sessionId: string) => void;
+  onPurge: (sessionId: string) => void;
+  onEmptyTrash: () => void;
+  onUpdateSession: (sessionId: string, patch: SessionPatch) => void;
+  onRenameSession: (sessionId: string, title: string) => void;
+  settings: WorkspaceSettings;
+  onSettingsChange: (settings: WorkspaceSettings) => void;
+  personas: Persona[];
+  onNewChat: (personaId?: string | null) => void;
+  onOpenCustomize: () => void;
+  onOpenPrompts: () => void;
+  syncStatus: SyncStatus;
+  /** Marks this browser in the list of synced devices. */
+  deviceId: string | null;
+  onOpenSync: () => void;
+  isEncrypted: boolean;
+  onOpenEncryption: () => void;
+  onLock: () => void;
+  onCreateFolder: (name: string) => void;
+  onRenameFolder: (folderId: string, name: string) => void;
+  onDeleteFolder: (folderId: string) => void;
+  onImport: (file: File) => void;
+  onExportAll: (format: ExportFormat) => void;
+};
+
+const Sidebar = ({
+  sessions,
+  folders,
+  filter,
+  searchResults,
+  activeSessionId,
+  searchTerm,
+  searchInputRef,
+  onFilterChange,
+  onSearchChange,
+  onOpenSearchHit,
+  onSelect,
+  onDelete,
+  onRestore,
+  onPurge,
+  onEmptyTrash,
+  onUpdateSession,
+  onRenameSession,
+  settings,
+  onSettingsChange,
+  personas,
+  onNewChat,
+  onOpenCustomize,
+  onOpenPrompts,
+  syncStatus,
+  deviceId,
+  onOpenSync,
+  isEncrypted,
+  onOpenEncryption,
+  onLock,
+  onCreateFolder,
+  onRenameFolder,
+  onDeleteFolder,
+  onImport,
+  onExportAll
+}: SidebarProps) => {
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [collapsedFolders, setCollapsedFolders] = useState<Set<string>>(() => new Set());
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [folderDraft, setFolderDraft] = useState<{ folderId: string | null; name: string } | null>(null);
+  const [isConfirmingEmpty, setIsConfirmingEmpty] = useState(false);
+
+  const liveSessions = useMemo(() => sessions.filter((session) => !session.deletedAt), [sessions]);
+  const trashed = useMemo(
+    () =>
+      sessions
+        .filter((session) => session.deletedAt)
+        .sort((a, b) => ((a.deletedAt ?? "") > (b.deletedAt ?? "") ? -1 : 1)),
+    [sessions]
+  );
+  const tags = useMemo(() => collectTags(liveSessions), [liveSessions]);
+  const sections = useMemo(() => buildSidebarSections(sessions, folders, filter), [sessions, folders, filter]);
+
+  const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (file) onImport(file);
+  };
+
+  const toggleFolder = useCallback((folderId: string) => {
+    setCollapsedFolders((prev) => {
+      const next = new Set(prev);
+      if (next.has(folderId)) {
+        next.delete(folderId);
+      } else {
+        next.add(folderId);
+      }
+      return next;
+    });
+  }, []);
+
+  const submitFolderDraft = (event: FormEvent) => {
+    event.preventDefault();
+    const name = folderDraft?.name.trim();
+    if (folderDraft && name) {
+      if (folderDraft.folderId) {
+        onRenameFolder(folderDraft.folderId, name);
+      } else {
+        onCreateFolder(name);
+      }
+    }
+    setFolderDraft(null);
+  };
+
+  // Folders and the unfiled list accept sessions dragged from any row.
+  const dropProps = (targetId: string, folderId: string | null) => ({
+    onDragOver: (event: ReactDragEvent) => {
+      if (!event.dataTransfer.types.includes(SESSION_DRAG_TYPE)) return;
+      event.preventDefault();
+      event.dataTransfer.dropEffect = "move";
+      setDropTarget(targetId);
+    },
+    onDragLeave: () => setDropTarget((current) => (current === targetId ? null : current)),
+    onDrop: (event: ReactDragEvent) => {
+      const sessionId = event.dataTransfer.getData(SESSION_DRAG_TYPE);
+      setDropTarget(null);
+      if (!sessionId) return;
+      event.preventDefault();
+      onUpdateSession(sessionId, { folderId });
+    }
+  });
+
+  const renderRow = (session: ChatSession, hits?: SearchHit[]) =>
+    session.deletedAt ? (
+      <TrashRow key={session.id} session={session} onRestore={onRestore} onPurge={onPurge} />
+    ) : (
+      <SessionRow
+        key={session.id}
+        session={session}
+        hits={hits}
+        isActive={session.id === activeSessionId}
+        folders={folders}
+        onSelect={onSelect}
+        onDelete={onDelete}
+        onUpdate={onUpdateSession}
+        onRename={onRenameSession}
+        onOpenSearchHit={onOpenSearchHit}
+      />
+    );
+
+  const folderForm = (
+    <form className={styles.folderForm} onSubmit={submitFolderDraft}>
+      <input
+        type="text"
+        className={styles.searchInput}
+        placeholder="Folder name"
+        value={folderDraft?.name ?? ""}
+        onChange={(event) => setFolderDraft((prev) => prev && { ...prev, name: event.target.value })}
+        onBlur={submitFolderDraft}
+        onKeyDown={(event) => {
+          if (event.key === "Escape") setFolderDraft(null);
+        }}
+        aria-label="Folder name"
+        autoFocus
+      />
+    </form>
+  );
+
+  return (
+    <>
+      <div className={styles.sidebarHeader}>
+        <span className={styles.sidebarTitle}>Chat history</span>
+        {personas.length > 0 && (
+          <label className={styles.providerSelect}>
+            <span className="sr-only">New chat with a persona</span>
+            <select
+              value=""
+              onChange={(event) => {
+                if (event.target.value) onNewChat(event.target.value);
+              }}
+            >
+              <option value="">Persona…</option>
+              {personas.map((persona) => (
+                <option key={persona.id} value={persona.id}>
+                  {persona.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        <button type="button" className={styles.newChatButton} onClick={() => onNewChat()} aria-label="New chat">
+          <PlusIcon />
+        </button>
+      </div>
+      <div className={styles.searchWrapper}>
+        <input
+          ref={searchInputRef}
+          type="search"
+          className={styles.searchInput}
+          placeholder="Search conversations"
+          value={searchTerm}
+          onChange={(event) => onSearchChange(event.target.value)}
+          title={`Use "quotes" for phrases, role:user, before:YYYY-MM-DD, after:YYYY-MM-DD, tag:name or is:pinned`}
+          aria-label="Search chat history"
+        />
+      </div>
+      <div className={styles.sidebarFilters} role="group" aria-label="Filter chats">
+        {VIEWS.map((view) => (
+          <button
+            key={view.id}
+            type="button"
+            className={clsx(styles.filterButton, { [styles.filterButtonActive]: filter.view === view.id })}
+            aria-pressed={filter.view === view.id}
+            onClick={() => {
+              setIsConfirmingEmpty(false);
+              onFilterChange({ ...filter, view: view.id, tag: view.id === "trash" ? null : filter.tag });
+            }}
+          >
+            {view.label}
+          </button>
+        ))}
+      </div>
+      {tags.length > 0 && filter.view !== "trash" && (
+        <div className={styles.tagList} role="group" aria-label="Filter by tag">
+          {tags.map((tag) => (
+            <button
+              key={tag}
+              type="button"
+              className={clsx(styles.tagChip, { [styles.tagChipActive]: filter.tag === tag })}
+              aria-pressed={filter.tag === tag}
+              onClick={() => onFilterChange({ ...filter, tag: filter.tag === tag ? null : tag })}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+      <nav className={styles.historyList} aria-label="Chat history">
+        {searchResults ? (
+          <>
+            {!searchResults.length && <div className={styles.searchEmpty}>No matching messages</div>}
+            {searchResults.map(({ session, hits }) => renderRow(session, hits))}
+          </>
+        ) : filter.view === "trash" ? (
+          <section className={styles.historySection}>
+            <div className={styles.historySectionHeader}>
+              <h3 className={styles.historySectionTitle}>
+                Deleted chats are removed after {TRASH_RETENTION_DAYS} days
+              </h3>
+              {trashed.length > 0 && (
+                <button
+                  type="button"
+                  className={styles.deleteButton}
+                  onClick={() => {
+                    if (!isConfirmingEmpty) {
+                      setIsConfirmingEmpty(true);
+                      return;
+                    }
+                    setIsConfirmingEmpty(false);
+                    onEmptyTrash();
+                  }}
+                  onBlur={() => setIsConfirmingEmpty(false)}
+                >
+                  {isConfirmingEmpty ? "Delete all forever?" : "Empty trash"}
+                </button>
+              )}
+            </div>
+            {trashed.map((session) => renderRow(session))}
+            {!trashed.length && <div className={styles.searchEmpty}>Trash is empty</div>}
+          </section>
+        ) : (
+          <>
+            {sections.pinned.length > 0 && (
+              <section className={styles.historySection}>
+                <h3 className={styles.historySectionTitle}>Pinned</h3>
+                {sections.pinned.map((session) => renderRow(session))}
+              </section>
+            )}
+            {filter.view === "chats" && (
+              <section className={styles.historySection}>
+                <div className={styles.historySectionHeader}>
+                  <h3 className={styles.historySectionTitle}>Folders</h3>
+                  <button
+                    type="button"
+                    className={styles.messageActionButton}
+                    onClick={() => setFolderDraft({ folderId: null, name: "" })}
+                    aria-label="New folder"
+                  >
+                    <PlusIcon />
+                  </button>
+                </div>
+                {folderDraft && !folderDraft.folderId && folderForm}
+                {sections.folders.map(({ folder, sessions: folderSessions }) => (
+                  <div
+                    key={folder.id}
+                    className={clsx(styles.folder, { [styles.dropTarget]: dropTarget === folder.id })}
+                    {...dropProps(folder.id, folder.id)}
+                  >
+                    {folderDraft?.folderId === folder.id ? (
+                      folderForm
+                    ) : (
+                      <div className={styles.historySectionHeader}>
+                        <button
+                          type="button"
+                          className={styles.folderToggle}
+                          onClick={() => toggleFolder(folder.id)}
+                          aria-expanded={!collapsedFolders.has(folder.id)}
+                        >
+                          {collapsedFolders.has(folder.id) ? "▸" : "▾"} {folder.name}
+                          <span className={styles.historyTimestamp}>{folderSessions.length}</span>
+                        </button>
+                        <button
+                          type="button"
+                          className={styles.messageActionButton}
+                          onClick={() => setFolderDraft({ folderId: folder.id, name: folder.name })}
+                          aria-label={`Rename folder ${folder.name}`}
+                        >
+                          Rename
+                        </button>
+                        <button
+                          type="button"
+                          className={styles.deleteButton}
+                          onClick={() => onDeleteFolder(folder.id)}
+                          aria-label={`Delete folder ${folder.name}`}
+                        >
+                          <TrashIcon />
+                        </button>
+                      </div>
+                    )}
+                    {!collapsedFolders.has(folder.id) && folderSessions.map((session) => renderRow(session))}
+                  </div>
+                ))}
+              </section>
+            )}
+            <div
+              className={clsx(styles.historySection, { [styles.dropTarget]: dropTarget === "unfiled" })}
+              {...dropProps("unfiled", null)}
+            >
+              {sections.dated.map((group) => (
+                <section key={group.label}>
+                  <h3 className={styles.historySectionTitle}>{group.label}</h3>
+                  {group.sessions.map((session) => renderRow(session))}
+                </section>
+              ))}
+              {!sections.dated.length && filter.view !== "chats" && (
+                <div className={styles.searchEmpty}>
+                  {filter.view === "archived" ? "No archived chats" : "No pinned chats"}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </nav>
+      <div className={styles.transferBar}>
+        <button type="button" className={styles.secondaryButton} onClick={() => fileInputRef.current?.click()}>
+          Import
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="sr-only"
+          tabIndex={-1}
+          onChange={handleFileChange}
+          aria-label="Import chats from a JSON file"
+        />
+        <ExportSelect label="Export all" disabled={!liveSessions.length} onExport={onExportAll} />
+      </div>
+      <div className={styles.profileFooter}>
+        <div className={styles.avatar} aria-hidden="true">
+          JT
+        </div>
+        <div>
+          <div style={{ fontWeight: 600 }}>Jordan Taylor</div>
+          <div style={{ fontSize: "0.8rem", color: "#a1a4ac" }} title={syncStatus.error ?? undefined}>
+            {describeSyncStatus(syncStatus)}
+          </div>
+          {syncStatus.devices.length > 0 && (
+            <ul className={styles.syncDevices} aria-label="Synced devices">
+              {syncStatus.devices.map((device) => (
+                <li key={device.id}>
+                  <span className={styles.historyTitle}>
+                    {device.name}
+                    {device.id === deviceId && " (this device)"}
+                  </span>
+                  <span className={styles.historyTimestamp}>{formatRelativeTimestamp(device.lastSeenAt)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          <label className={styles.settingToggle}>
+            <input
+              type="checkbox"
+              checked={settings.autoTitle}
+              onChange={(event) => onSettingsChange({ ...settings, autoTitle: event.target.checked })}
+            />
+            Auto-title new chats
+          </label>
+          <button type="button" className={styles.secondaryButton} onClick={onOpenPrompts}>
+            Prompts
+          </button>
+          <button type="button" className={styles.secondaryButton} onClick={onOpenSync}>
+            Sync
+          </button>
+          <button type="button" className={styles.secondaryButton} onClick={onOpenEncryption}>
+            Encryption
+          </button>
+          {isEncrypted && (
+            <button type="button" className={styles.secondaryButton} onClick={onLock}>
+              Lock
+            </button>
+          )}
+          <button type="button" className={styles.secondaryButton} onClick={onOpenCustomize}>
+            Customize
+          </button>
+        </div>
+      </div>
+    </>
+  );
+};
+
+const PlusIcon = () => (
+  <svg width="20" height="20" viewBox="0 0 20 20" fill="none" aria-hidden="true">
+    <path d="M10 4V16M4 10H16" stroke="currentColor" strokeWidth="2" strokeLinecap="round" />
+  </svg>
+);
+
+const TrashIcon = () => (
+  <svg width="16" height="16" viewBox="0 0 16 16" fill="none" aria-hidden="true">
+    <path
+      d="M5.5 6.5V12M10.5 6.5V12M3.5 4.5H12.5M6.5 2.5H9.5M4.5 4.5L5 13C5 13.5523 5.44772 14 6 14H10C10.5523 14 11 13.5523 11 13L11.5 4.5"
+      stroke="currentColor"
+      strokeWidth="1.5"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    />
+  </svg>
+);
+
+const PinIcon = () => (
+  <svg width="14" height="14" viewBox="0 0 16 16" fill="none" aria-hidden="true">
+    <path
+      d="M10 2L14 6L11 7.5L8.5 10L9 13L3 7L6 7.5L8.5 5L10 2ZM5.5 10.5L2 14"
+      stroke="currentColor"
+      strokeWidth="1.4"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    />
+  </svg>
+);
+
+export default memo(Sidebar);
@@ -0,0 +1,50 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import clsx from "clsx";
+import styles from "./ChatApp.module.css";
+import type { SlashCommand } from "./slashCommands";
+
+export const SLASH_MENU_ID = "slash-command-menu";
+
+export const getSlashOptionId = (command: SlashCommand) => `${SLASH_MENU_ID}-${command.id}`;
+
+type SlashCommandMenuProps = {
+  commands: SlashCommand[];
+  activeIndex: number;
+  onSelect: (command: SlashCommand) => void;
+  onHighlight: (index: number) => void;
+};
+
+/** Autocomplete list under a leading "/"; the composer keeps focus and drives it from the keyboard. */
+const SlashCommandMenu = ({ commands, activeIndex, onSelect, onHighlight }: SlashCommandMenuProps) => {
+  const listRef = useRef<HTMLUListElement | null>(null);
+
+  useEffect(() => {
+    const active = listRef.current?.children[activeIndex];
+    active?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  return (
+    <ul ref={listRef} id={SLASH_MENU_ID} className={styles.slashMenu} role="listbox" aria-label="Commands">
+      {commands.map((command, index) => (
+        <li
+          key={command.id}
+          id={getSlashOptionId(command)}
+          role="option"
+          aria-selected={index === activeIndex}
+          className={clsx(styles.slashMenuItem, { [styles.historyItemActive]: index === activeIndex })}
+          // Keep focus in the composer so typing can continue after a click.
+          onMouseDown={(event) => event.preventDefault()}
+          onMouseEnter={() => onHighlight(index)}
+          onClick={() => onSelect(command)}
+        >
+          <span className={styles.historyTitle}>/{command.command}</span>
+          <span className={styles.historyTimestamp}>{command.description}</span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default SlashCommandMenu;
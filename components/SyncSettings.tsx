@@ -0,0 +1,114 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { FormEvent } from "react";
+import styles from "./ChatApp.module.css";
+import type { SyncConfig, SyncStatus } from "./sync";
+
+type SyncSettingsProps = {
+  config: SyncConfig;
+  status: SyncStatus;
+  /** Whether chats are sealed with a passphrase in this browser; sync still sends them in the clear. */
+  isEncrypted: boolean;
+  onSave: (config: SyncConfig) => void;
+  onSyncNow: () => void;
+  onClose: () => void;
+};
+
+/** Dialog for pointing this browser at a sync server; the sidebar footer shows how syncing is going. */
+const SyncSettings = ({ config, status, isEncrypted, onSave, onSyncNow, onClose }: SyncSettingsProps) => {
+  const [draft, setDraft] = useState(config);
+  const isChanged = (Object.keys(config) as (keyof SyncConfig)[]).some((key) => draft[key] !== config[key]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const submitConfig = (event: FormEvent) => {
+    event.preventDefault();
+    onSave({ ...draft, url: draft.url.trim(), token: draft.token.trim(), deviceName: draft.deviceName.trim() });
+  };
+
+  return (
+    <div className={styles.dialogOverlay} role="dialog" aria-modal="true" aria-labelledby="sync-settings-title">
+      <div className={styles.dialog}>
+        <div className={styles.dialogHeader}>
+          <h2 id="sync-settings-title">Sync</h2>
+          <button type="button" className={styles.secondaryButton} onClick={onClose}>
+            Close
+          </button>
+        </div>
+        <form className={styles.dialogSection} onSubmit={submitConfig}>
+          <p className={styles.helperText}>
+            Keeps chats in step across browsers through a server you run. Folders, personas, prompts and attached
+            files stay on each device.
+          </p>
+          <p className={styles.helperText}>
+            Synced chats are sent to the server and stored there as plain text
+            {isEncrypted ? ", even though the passphrase lock encrypts them in this browser" : ""}. Only sync with
+            a server you trust.
+          </p>
+          <label className={styles.settingToggle}>
+            <input
+              type="checkbox"
+              checked={draft.enabled}
+              onChange={(event) => setDraft({ ...draft, enabled: event.target.checked })}
+            />
+            Sync chat history
+          </label>
+          <input
+            type="text"
+            className={styles.searchInput}
+            placeholder="Server URL"
+            value={draft.url}
+            onChange={(event) => setDraft({ ...draft, url: event.target.value })}
+            aria-label="Sync server URL"
+            required
+          />
+          <input
+            type="password"
+            className={styles.searchInput}
+            placeholder="Access token"
+            value={draft.token}
+            onChange={(event) => setDraft({ ...draft, token: event.target.value })}
+            aria-label="Sync access token"
+            autoComplete="off"
+          />
+          <input
+            type="text"
+            className={styles.searchInput}
+            placeholder="Device name"
+            value={draft.deviceName}
+            onChange={(event) => setDraft({ ...draft, deviceName: event.target.value })}
+            aria-label="Device name"
+            maxLength={80}
+          />
+          {status.error && (
+            <p className={styles.helperText} role="alert">
+              {status.error}
+            </p>
+          )}
+          <div className={styles.messageEditorActions}>
+            <button
+              type="button"
+              className={styles.secondaryButton}
+              onClick={onSyncNow}
+              disabled={!config.enabled || status.phase === "standby"}
+            >
+              Sync now
+            </button>
+            <button type="submit" className={styles.primaryButton} disabled={!isChanged || !draft.url.trim()}>
+              Save
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default SyncSettings;
@@ -0,0 +1,54 @@
+"use client";
+
+import { useState } from "react";
+import styles from "./ChatApp.module.css";
+
+type TitleInputProps = {
+  title: string;
+  /** Called with the trimmed title; an empty string asks for the automatic title back. */
+  onCommit: (title: string) => void;
+  onCancel: () => void;
+};
+
+/** Inline title field: Enter or blur saves, Escape cancels. */
+const TitleInput = ({ title, onCommit, onCancel }: TitleInputProps) => {
+  const [draft, setDraft] = useState(title);
+  const [isDone, setIsDone] = useState(false);
+
+  const commit = () => {
+    if (isDone) return;
+    setIsDone(true);
+    if (draft.trim() === title) {
+      onCancel();
+      return;
+    }
+    onCommit(draft.trim());
+  };
+
+  return (
+    <input
+      type="text"
+      className={styles.titleInput}
+      value={draft}
+      onChange={(event) => setDraft(event.target.value)}
+      onBlur={commit}
+      onKeyDown={(event) => {
+        if (event.key === "Enter") {
+          event.preventDefault();
+          commit();
+        }
+        if (event.key === "Escape") {
+          event.preventDefault();
+          setIsDone(true);
+          onCancel();
+        }
+      }}
+      onFocus={(event) => event.target.select()}
+      placeholder="Leave empty for an automatic title"
+      aria-label="Chat title"
+      autoFocus
+    />
+  );
+};
+
+export default TitleInput;
@@ -0,0 +1,66 @@
+"use client";
+
+import { useState } from "react";
+import type { FormEvent } from "react";
+import styles from "./ChatApp.module.css";
+import { VaultError } from "./storage";
+
+type UnlockScreenProps = {
+  onUnlock: (passphrase: string) => Promise<void>;
+};
+
+/** Shown instead of the app while saved chats are encrypted and no key is in memory. */
+const UnlockScreen = ({ onUnlock }: UnlockScreenProps) => {
+  const [passphrase, setPassphrase] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const submitPassphrase = async (event: FormEvent) => {
+    event.preventDefault();
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await onUnlock(passphrase);
+    } catch (unlockError) {
+      console.warn("Failed to unlock saved chats", unlockError);
+      setError(unlockError instanceof VaultError ? unlockError.message : "Saved chats could not be unlocked.");
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className={styles.dialogOverlay} role="dialog" aria-modal="true" aria-labelledby="unlock-title">
+      <form className={styles.dialog} onSubmit={submitPassphrase}>
+        <div className={styles.dialogHeader}>
+          <h2 id="unlock-title">Chats are locked</h2>
+        </div>
+        <div className={styles.dialogSection}>
+          <p className={styles.helperText}>Enter your passphrase to decrypt the chats saved in this browser.</p>
+          <input
+            type="password"
+            className={styles.searchInput}
+            placeholder="Passphrase"
+            value={passphrase}
+            onChange={(event) => setPassphrase(event.target.value)}
+            aria-label="Passphrase"
+            autoComplete="current-password"
+            autoFocus
+            required
+          />
+          {error && (
+            <p className={styles.helperText} role="alert">
+              {error}
+            </p>
+          )}
+          <div className={styles.messageEditorActions}>
+            <button type="submit" className={styles.primaryButton} disabled={!passphrase || isUnlocking}>
+              {isUnlocking ? "Unlocking…" : "Unlock"}
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default UnlockScreen;
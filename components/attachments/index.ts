@@ -0,0 +1,147 @@
+import { v4 as uuid } from "uuid";
+import type { ProviderMessage } from "../providers";
+import { isQuotaError } from "../storage/errors";
+import type { SessionStore } from "../storage";
+import type { ChatAttachment, ChatMessage, MessagePart } from "../types";
+import { extractPdfText } from "./pdf";
+
+export const MAX_ATTACHMENTS = 4;
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+export const MAX_FILE_BYTES = 10 * 1024 * 1024;
+// Longer text is cut off; it would not fit in a typical context window anyway.
+const MAX_TEXT_LENGTH = 60_000;
+// Kept free so the chats themselves can still be saved after an attachment.
+const STORAGE_RESERVE_BYTES = 5 * 1024 * 1024;
+
+const IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+const TEXT_EXTENSIONS = (
+  "txt md markdown csv tsv json yaml yml xml html css log ini toml sql " +
+  "js jsx ts tsx py rb go rs java kt swift c h cpp cs php sh"
+).split(" ");
+const TEXT_ACCEPT = TEXT_EXTENSIONS.map((extension) => `.${extension}`);
+
+/** Value for the composer's file input `accept` attribute. */
+export const ATTACHMENT_ACCEPT = [...IMAGE_TYPES, "application/pdf", "text/*", ...TEXT_ACCEPT].join(",");
+
+export type DraftAttachment = { attachment: ChatAttachment; blob: Blob };
+
+export class AttachmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AttachmentError";
+  }
+}
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const getExtension = (name: string) => (name.includes(".") ? name.split(".").pop()?.toLowerCase() ?? "" : "");
+
+const classifyFile = (file: File) => {
+  if (IMAGE_TYPES.includes(file.type)) return "image";
+  if (file.type === "application/pdf" || getExtension(file.name) === "pdf") return "pdf";
+  if (file.type.startsWith("text/") || TEXT_EXTENSIONS.includes(getExtension(file.name))) return "text";
+  return null;
+};
+
+/** Validates a dropped, pasted or picked file and reads the text it contributes to the prompt. */
+export const readAttachment = async (file: File): Promise<DraftAttachment> => {
+  const name = file.name || "Pasted file";
+  const kind = classifyFile(file);
+  if (!kind) {
+    throw new AttachmentError(`${name} can't be attached. Use images, text, code or PDF files.`);
+  }
+  const limit = kind === "image" ? MAX_IMAGE_BYTES : MAX_FILE_BYTES;
+  if (file.size > limit) {
+    throw new AttachmentError(`${name} is ${formatBytes(file.size)}; attachments can be up to ${formatBytes(limit)}.`);
+  }
+
+  const attachment: ChatAttachment = {
+    id: uuid(),
+    name,
+    mimeType: file.type || (kind === "pdf" ? "application/pdf" : "text/plain"),
+    size: file.size,
+    kind: kind === "image" ? "image" : "text"
+  };
+  if (kind !== "image") {
+    const text = (kind === "pdf" ? await extractPdfText(file) : await file.text()).trim();
+    if (!text) {
+      throw new AttachmentError(kind === "pdf" ? `No text could be read from ${name}.` : `${name} is empty.`);
+    }
+    attachment.text = text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH)}\n[truncated]` : text;
+  }
+  return { attachment, blob: file };
+};
+
+export const describeAttachmentError = (error: unknown) => {
+  if (error instanceof AttachmentError) return error.message;
+  if (isQuotaError(error)) {
+    return "Browser storage is full, so the attachments were not saved. Export or delete old chats to free up space.";
+  }
+  return "The attachments could not be read or saved. Try again.";
+};
+
+const ensureStorageHeadroom = async (bytes: number) => {
+  let estimate: StorageEstimate | undefined;
+  try {
+    estimate = await navigator.storage?.estimate();
+  } catch (error) {
+    console.warn("Failed to estimate available storage", error);
+  }
+  if (estimate?.quota === undefined || estimate.usage === undefined) return;
+  const available = estimate.quota - estimate.usage;
+  if (available < bytes + STORAGE_RESERVE_BYTES) {
+    throw new AttachmentError(
+      `Browser storage is almost full (${formatBytes(Math.max(available, 0))} left). ` +
+        "Export or delete old chats before attaching more files."
+    );
+  }
+};
+
+/** Stores the original files before the message that references them is added. */
+export const saveAttachments = async (store: SessionStore, sessionId: string, drafts: DraftAttachment[]) => {
+  await ensureStorageHeadroom(drafts.reduce((sum, draft) => sum + draft.blob.size, 0));
+  await store.putAttachments(sessionId, drafts.map(({ attachment, blob }) => ({ id: attachment.id, blob })));
+};
+
+export const readBlobAsDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export const formatTextAttachment = (attachment: ChatAttachment) =>
+  `Attached file ${attachment.name}:\n\`\`\`\n${attachment.text ?? ""}\n\`\`\``;
+
+/** Expands attachments into multi-part messages; messages without attachments pass through unchanged. */
+export const toProviderMessages = (
+  messages: ChatMessage[],
+  loadAttachment: (id: string) => Promise<Blob | null>
+): Promise<ProviderMessage[]> =>
+  Promise.all(
+    messages.map(async (message) => {
+      if (!message.attachments?.length) return message;
+      const parts: MessagePart[] = message.content ? [{ type: "text", text: message.content }] : [];
+      for (const attachment of message.attachments) {
+        if (attachment.kind === "text") {
+          parts.push({ type: "text", text: formatTextAttachment(attachment) });
+          continue;
+        }
+        const blob = await loadAttachment(attachment.id).catch((error: unknown) => {
+          console.warn("Failed to load attachment", error);
+          return null;
+        });
+        parts.push(
+          blob
+            ? { type: "image", url: await readBlobAsDataUrl(blob) }
+            : { type: "text", text: `[The image ${attachment.name} is no longer available]` }
+        );
+      }
+      return { ...message, parts };
+    })
+  );
@@ -0,0 +1,110 @@
+/*
+ * Best-effort PDF text extraction without a PDF library. Content streams are
+ * inflated with the browser's DecompressionStream and the strings shown by
+ * the text operators (Tj, TJ, ' and ") are collected in order. That covers
+ * most generated documents; scanned pages and fonts with custom encodings
+ * yield little or no text, which the caller reports as an error.
+ */
+
+const STREAM_START = /(?<!end)stream\r?\n/g;
+// TJ arrays use large negative kerning to fake word spacing.
+const TJ_SPACE_THRESHOLD = -250;
+const TOKEN =
+  /\((?:\\[\s\S]|[^\\)])*\)|<[0-9A-Fa-f\s]*>|[+-]?(?:\d+\.?\d*|\.\d+)|\/[^\s/[\]()<>{}]+|[A-Za-z'"*]+|\[|\]/g;
+
+const ESCAPES: Record<string, string> = { n: "\n", r: "\r", t: "\t", b: "\b", f: "\f" };
+
+const decodeLiteral = (token: string) =>
+  token
+    .slice(1, -1)
+    .replace(/\\(\r\n|\n|\r)/g, "")
+    .replace(/\\([0-7]{1,3}|[\s\S])/g, (_, code: string) =>
+      /^[0-7]+$/.test(code) ? String.fromCharCode(parseInt(code, 8)) : ESCAPES[code] ?? code
+    );
+
+const decodeHex = (token: string) => {
+  const hex = token.slice(1, -1).replace(/\s+/g, "");
+  let text = "";
+  for (let index = 0; index < hex.length; index += 2) {
+    text += String.fromCharCode(parseInt(hex.slice(index, index + 2).padEnd(2, "0"), 16));
+  }
+  return text;
+};
+
+const decodeString = (token: string) => (token.startsWith("(") ? decodeLiteral(token) : decodeHex(token));
+
+const isString = (token: string) => token.startsWith("(") || (token.startsWith("<") && token !== "<<");
+
+const inflate = async (data: Blob) => {
+  const stream = data.stream().pipeThrough(new DecompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const readContentText = (content: string) => {
+  let text = "";
+  let operands: string[] = [];
+  let array: string[] | null = null;
+  for (const [token] of content.matchAll(TOKEN)) {
+    if (token === "[") {
+      array = [];
+    } else if (token === "]") {
+      operands.push(JSON.stringify(array ?? []));
+      array = null;
+    } else if (array) {
+      array.push(token);
+    } else if (isString(token) || /^[+-]?[\d.]/.test(token) || token.startsWith("/")) {
+      operands.push(token);
+    } else {
+      if (token === "Tj" || token === "'" || token === '"') {
+        const shown = operands.filter(isString).pop();
+        if (token !== "Tj") text += "\n";
+        if (shown) text += decodeString(shown);
+      } else if (token === "TJ") {
+        const items: string[] = JSON.parse(operands[operands.length - 1] ?? "[]");
+        items.forEach((item) => {
+          if (isString(item)) text += decodeString(item);
+          else if (Number(item) < TJ_SPACE_THRESHOLD) text += " ";
+        });
+      } else if (token === "Td" || token === "TD") {
+        text += Number(operands[operands.length - 1]) ? "\n" : " ";
+      } else if (token === "T*" || token === "ET") {
+        text += "\n";
+      }
+      operands = [];
+    }
+  }
+  return text;
+};
+
+export const extractPdfText = async (file: Blob) => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  // latin1 maps every byte to one character, so string offsets are byte offsets.
+  const source = new TextDecoder("latin1").decode(bytes);
+  const pages: string[] = [];
+  for (const match of source.matchAll(STREAM_START)) {
+    const start = (match.index ?? 0) + match[0].length;
+    const end = source.indexOf("endstream", start);
+    if (end < 0) break;
+    const dictionary = source.slice(Math.max(0, source.lastIndexOf("obj", match.index)), match.index);
+    if (/\/Subtype\s*\/Image|\/(?:DCT|JPX|CCITTFax|JBIG2)Decode/.test(dictionary)) continue;
+    let dataEnd = end;
+    while (dataEnd > start && (bytes[dataEnd - 1] === 0x0a || bytes[dataEnd - 1] === 0x0d)) {
+      dataEnd -= 1;
+    }
+    try {
+      const content = /\/FlateDecode/.test(dictionary)
+        ? new TextDecoder("latin1").decode(await inflate(file.slice(start, dataEnd)))
+        : "";
+      const raw = content || (/\/Filter/.test(dictionary) ? "" : source.slice(start, end));
+      if (raw.includes("BT")) pages.push(readContentText(raw));
+    } catch {
+      // Fonts and other binary streams fail to inflate or parse; skip them.
+    }
+  }
+  return pages
+    .join("\n")
+    .split("\n")
+    .map((line) => line.replace(/[^\S\n]+/g, " ").trim())
+    .filter(Boolean)
+    .join("\n");
+};
@@ -0,0 +1,14 @@
+import { useSyncExternalStore } from "react";
+import type { ChatCore, ChatCoreState } from "./core";
+
+/**
+ * Subscribes a component to one slice of the chat core, re-rendering only when `selector` returns something
+ * new; selectors must therefore not build fresh objects. Typing in the composer or a token streamed into
+ * another chat leaves components reading unrelated slices alone.
+ */
+export const useChatStore = <T>(core: ChatCore, selector: (state: ChatCoreState) => T) =>
+  useSyncExternalStore(
+    core.subscribe,
+    () => selector(core.getState()),
+    () => selector(core.getState())
+  );
@@ -0,0 +1,146 @@
+import type { AssistantProvider } from "./providers";
+import { countMessageTokens, countRequestTokens } from "./tokenizer";
+import type { ChatMessage, ContextStrategy, ContextSummary } from "./types";
+
+/*
+ * Decides which part of a conversation path is sent with a request. Without a
+ * budget everything is sent. Over budget, the system prompt and the newest
+ * message are always kept and the strategy picks the rest:
+ *
+ * - sliding-window: the newest messages that fit.
+ * - pinned: pinned messages first (newest first), then the newest that fit.
+ * - summary: the newest messages that fit, plus a rolling summary of the
+ *   older ones that the caller refreshes through `summarizeMessages`.
+ */
+
+export interface ContextPlan {
+  /** What is sent to the provider, in order. */
+  messages: ChatMessage[];
+  /** Path messages left out of the request. */
+  excludedIds: Set<string>;
+  /** The stored summary, when it still applies to this path. */
+  summary: ContextSummary | null;
+  /** Excluded messages the summary does not cover yet. */
+  unsummarized: ChatMessage[];
+  tokens: number;
+  budget?: number;
+  strategy: ContextStrategy;
+}
+
+type PlanOptions = {
+  systemPrompt?: string;
+  budget?: number;
+  strategy?: ContextStrategy;
+  summary?: ContextSummary;
+};
+
+// Room kept for the summary message before one exists, so adding it later doesn't overflow the budget.
+const SUMMARY_RESERVE_TOKENS = 300;
+const SUMMARY_MAX_TOKENS = 400;
+const SUMMARY_PROMPT =
+  "Summarize the conversation excerpt below for your own future reference. Keep names, facts, decisions, " +
+  "code identifiers and open questions. Write plain prose under 200 words.";
+
+const makeSystemMessage = (id: string, content: string, createdAt: string): ChatMessage => ({
+  id,
+  role: "system",
+  content,
+  parentId: null,
+  createdAt
+});
+
+export const toSummaryMessage = (summary: ContextSummary) =>
+  makeSystemMessage("context-summary", `Summary of the earlier conversation:\n${summary.content}`, summary.createdAt);
+
+export const planContext = (
+  path: ChatMessage[],
+  { systemPrompt = "", budget, strategy = "sliding-window", summary }: PlanOptions = {}
+): ContextPlan => {
+  const system = systemPrompt ? makeSystemMessage("system-prompt", systemPrompt, path[0]?.createdAt ?? "") : null;
+  const withSystem = (messages: ChatMessage[]) => (system ? [system, ...messages] : messages);
+  const full = withSystem(path);
+  const fullTokens = countRequestTokens(full);
+  const summaryIndex = summary ? path.findIndex((message) => message.id === summary.throughMessageId) : -1;
+  const validSummary = summary && summaryIndex >= 0 ? summary : null;
+  if (!budget || fullTokens <= budget || path.length <= 1) {
+    return {
+      messages: full,
+      excludedIds: new Set(),
+      summary: validSummary,
+      unsummarized: [],
+      tokens: fullTokens,
+      budget,
+      strategy
+    };
+  }
+
+  const summaryMessage = validSummary ? toSummaryMessage(validSummary) : null;
+  let remaining = budget - countRequestTokens(withSystem([]));
+  if (strategy === "summary") {
+    remaining -= summaryMessage ? countMessageTokens(summaryMessage) : SUMMARY_RESERVE_TOKENS;
+  }
+
+  const keep = new Set<string>();
+  const take = (message: ChatMessage, force = false) => {
+    const cost = countMessageTokens(message);
+    if (!force && cost > remaining) return false;
+    keep.add(message.id);
+    remaining -= cost;
+    return true;
+  };
+  const last = path[path.length - 1];
+  take(last, true);
+  const older = path.slice(0, -1).reverse();
+  if (strategy === "pinned") {
+    older.filter((message) => message.pinned).forEach((message) => take(message));
+  }
+  for (const message of older) {
+    if (keep.has(message.id)) continue;
+    // Sliding strategies keep a contiguous tail; the pinned one keeps filling around gaps.
+    if (!take(message) && strategy !== "pinned") break;
+  }
+
+  const kept = path.filter((message) => keep.has(message.id));
+  const excluded = path.filter((message) => !keep.has(message.id));
+  const messages = withSystem(
+    strategy === "summary" && summaryMessage && excluded.length ? [summaryMessage, ...kept] : kept
+  );
+  return {
+    messages,
+    excludedIds: new Set(excluded.map((message) => message.id)),
+    summary: validSummary,
+    unsummarized:
+      strategy === "summary" ? excluded.filter((message) => path.indexOf(message) > summaryIndex) : [],
+    tokens: countRequestTokens(messages),
+    budget,
+    strategy
+  };
+};
+
+/** Folds `messages` into the previous summary; resolves to null when the provider can't summarise. */
+export const summarizeMessages = async (
+  provider: AssistantProvider,
+  previous: ContextSummary | undefined,
+  messages: ChatMessage[],
+  signal?: AbortSignal
+): Promise<ContextSummary | null> => {
+  if (!provider.canSummarize || !messages.length) return null;
+  const transcript = messages.map((message) => `${message.role}: ${message.content}`).join("\n\n");
+  const earlier = previous ? `Summary so far:\n${previous.content}\n\n` : "";
+  const request = makeSystemMessage("summary-request", SUMMARY_PROMPT, new Date().toISOString());
+  const excerpt: ChatMessage = { ...request, id: "summary-excerpt", role: "user", content: `${earlier}${transcript}` };
+  let content = "";
+  for await (const token of provider.streamReply([request, excerpt], {
+    signal,
+    params: { temperature: 0.2, maxTokens: SUMMARY_MAX_TOKENS }
+  })) {
+    content += token;
+  }
+  content = content.trim();
+  if (!content) return null;
+  return {
+    content,
+    throughMessageId: messages[messages.length - 1].id,
+    createdAt: new Date().toISOString()
+  };
+};
@@ -0,0 +1,345 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { ChatSession, SessionSettings } from "../types";
+import {
+  TRASH_RETENTION_DAYS,
+  createChatCore,
+  createMemoryStorage,
+  getSessionHistory,
+  selectActiveSession
+} from "./index";
+import type { ChatCoreEvent } from "./index";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2026, 0, 31, 12);
+
+/** A core on a clock that only moves when told to, with ids numbered in order. */
+const setup = (rememberedId: string | null = null) => {
+  let time = START;
+  let nextId = 0;
+  const storage = createMemoryStorage(rememberedId);
+  const core = createChatCore({
+    now: () => new Date(time),
+    createId: () => `id-${(nextId += 1)}`,
+    storage
+  });
+  const events: ChatCoreEvent[] = [];
+  core.onEvent((event) => events.push(event));
+  return {
+    core,
+    storage,
+    events,
+    tick(ms = 1000) {
+      time += ms;
+    }
+  };
+};
+
+const buildSession = (id: string, updatedAt: number, deletedAt: number | null = null): ChatSession => ({
+  id,
+  title: `Chat ${id}`,
+  titleLocked: false,
+  messages: [],
+  currentNodeId: null,
+  provider: "echo",
+  personaId: null,
+  settings: {},
+  folderId: null,
+  tags: [],
+  pinned: false,
+  archived: false,
+  deletedAt: deletedAt === null ? null : new Date(deletedAt).toISOString(),
+  createdAt: new Date(updatedAt).toISOString(),
+  updatedAt: new Date(updatedAt).toISOString()
+});
+
+const sessionIds = (core: ReturnType<typeof setup>["core"]) => core.getState().sessions.map((session) => session.id);
+
+const contents = (session: ChatSession | null | undefined) => session?.messages.map((message) => message.content);
+
+describe("createChatCore sessions", () => {
+  it("opens a new session at the top of the list", () => {
+    const { core, storage } = setup();
+    const first = core.createSession();
+    const second = core.createSession({ provider: "openai" });
+    assert.deepEqual(sessionIds(core), [second.id, first.id]);
+    assert.equal(core.getState().activeSessionId, second.id);
+    assert.equal(storage.read(), second.id);
+    assert.equal(second.provider, "openai");
+  });
+
+  it("moves the open chat to the Trash and opens the newest one left", () => {
+    const { core, events } = setup();
+    core.load([buildSession("older", START - 2000), buildSession("newer", START - 1000)]);
+    core.selectSession("older");
+    core.trashSession("older");
+
+    const trashed = core.getState().sessions.find((session) => session.id === "older");
+    assert.equal(trashed?.deletedAt, new Date(START).toISOString());
+    // The chat keeps its place when restored, so trashing it doesn't count as an edit.
+    assert.equal(trashed?.updatedAt, new Date(START - 2000).toISOString());
+    assert.equal(core.getState().activeSessionId, "newer");
+    assert.deepEqual(events.slice(-2), [
+      { type: "sessionTrashed", sessionId: "older" },
+      { type: "sessionSelected", sessionId: "newer" }
+    ]);
+  });
+
+  it("opens a fresh chat when the last live one is trashed", () => {
+    const { core } = setup();
+    core.load([buildSession("only", START)]);
+    core.trashSession("only");
+    const active = selectActiveSession(core.getState());
+    assert.ok(active);
+    assert.notEqual(active.id, "only");
+    assert.equal(active.messages.length, 0);
+    assert.deepEqual(sessionIds(core), [active.id, "only"]);
+  });
+
+  it("brings a trashed chat back without opening it", () => {
+    const { core } = setup();
+    core.load([buildSession("a", START), buildSession("b", START - 1000)]);
+    core.trashSession("b");
+    core.restoreSession("b");
+    assert.equal(core.getState().sessions.find((session) => session.id === "b")?.deletedAt, null);
+    assert.equal(core.getState().activeSessionId, "a");
+  });
+
+  it("deletes the open chat for good along with its undo history and opens the next one", () => {
+    const { core } = setup();
+    core.load([buildSession("a", START), buildSession("b", START - 1000)]);
+    core.appendMessage("a", { role: "user", content: "Hello" });
+    core.clearMessages("a");
+    core.deleteSession("a");
+    assert.deepEqual(sessionIds(core), ["b"]);
+    assert.equal(core.getState().activeSessionId, "b");
+    assert.deepEqual(getSessionHistory(core.getState(), "a"), { past: [], future: [] });
+  });
+
+  it("opens a fresh chat when the last one is deleted", () => {
+    const { core } = setup();
+    core.load([buildSession("only", START)]);
+    core.deleteSession("only");
+    const [fresh] = core.getState().sessions;
+    assert.equal(core.getState().sessions.length, 1);
+    assert.notEqual(fresh.id, "only");
+    assert.equal(core.getState().activeSessionId, fresh.id);
+  });
+
+  it("gives chats opened automatically the workspace's default settings", () => {
+    let defaults: SessionSettings = { temperature: 0.3 };
+    const core = createChatCore({ defaultSettings: () => defaults });
+    core.load([]);
+    assert.deepEqual(selectActiveSession(core.getState())?.settings, { temperature: 0.3 });
+
+    // The defaults are read each time, so a change in the workspace settings applies to the next chat.
+    defaults = { temperature: 0.7, maxTokens: 200 };
+    core.trashSession(core.getState().activeSessionId ?? "");
+    assert.deepEqual(selectActiveSession(core.getState())?.settings, { temperature: 0.7, maxTokens: 200 });
+    assert.deepEqual(core.createSession({ settings: { topP: 0.5 } }).settings, { topP: 0.5 });
+  });
+
+  it("only empties the Trash", () => {
+    const { core } = setup();
+    core.load([buildSession("kept", START), buildSession("trashed", START - 1000, START - 1000)]);
+    core.emptyTrash();
+    assert.deepEqual(sessionIds(core), ["kept"]);
+  });
+});
+
+describe("createChatCore load", () => {
+  it("reopens the remembered chat", () => {
+    const { core, events } = setup("older");
+    core.load([buildSession("older", START - 1000), buildSession("newer", START)]);
+    assert.equal(core.getState().activeSessionId, "older");
+    assert.deepEqual(events, [{ type: "sessionSelected", sessionId: "older" }]);
+  });
+
+  it("opens the latest chat when the remembered one is gone", () => {
+    const { core, storage } = setup("deleted-elsewhere");
+    core.load([buildSession("older", START - 2000), buildSession("newer", START - 1000)]);
+    assert.equal(core.getState().activeSessionId, "newer");
+    assert.equal(storage.read(), "newer");
+  });
+
+  it("doesn't reopen a remembered chat that is in the Trash", () => {
+    const { core } = setup("trashed");
+    core.load([buildSession("trashed", START, START - 1000), buildSession("live", START - 1000)]);
+    assert.equal(core.getState().activeSessionId, "live");
+  });
+
+  it("purges chats that have been in the Trash longer than the retention period", () => {
+    const { core, events } = setup();
+    const retention = TRASH_RETENTION_DAYS * DAY_MS;
+    core.load([
+      buildSession("live", START),
+      buildSession("expired", START - retention - DAY_MS, START - retention - 1),
+      buildSession("recent", START - retention, START - retention + DAY_MS)
+    ]);
+    assert.deepEqual(sessionIds(core), ["live", "recent"]);
+    assert.deepEqual(events[0], { type: "sessionDeleted", sessionId: "expired" });
+  });
+
+  it("starts a fresh chat when nothing live was stored", () => {
+    const { core } = setup();
+    core.load([buildSession("trashed", START, START)]);
+    assert.equal(core.getState().sessions.length, 2);
+    assert.equal(selectActiveSession(core.getState())?.deletedAt, null);
+  });
+});
+
+describe("createChatCore undo and redo", () => {
+  it("undoes and redoes clearing a chat", () => {
+    const { core, events } = setup();
+    const { id } = core.createSession();
+    core.appendMessage(id, { role: "user", content: "Hello" });
+    core.appendMessage(id, { role: "assistant", content: "Hi" });
+    core.clearMessages(id);
+    assert.deepEqual(contents(selectActiveSession(core.getState())), []);
+
+    assert.equal(core.undo(id), true);
+    assert.deepEqual(contents(selectActiveSession(core.getState())), ["Hello", "Hi"]);
+    assert.equal(selectActiveSession(core.getState())?.title, "Hello");
+    assert.deepEqual(events[events.length - 1], { type: "historyChanged", sessionId: id, direction: "undo" });
+
+    assert.equal(core.redo(id), true);
+    assert.deepEqual(contents(selectActiveSession(core.getState())), []);
+    assert.equal(core.redo(id), false);
+  });
+
+  it("undoes an edit back to the original branch", () => {
+    const { core } = setup();
+    const { id } = core.createSession();
+    const question = core.appendMessage(id, { role: "user", content: "Hello" });
+    core.appendMessage(id, { role: "assistant", content: "Hi" });
+    assert.ok(question);
+    core.editMessage(id, question.id, "Hello again");
+    assert.deepEqual(contents(selectActiveSession(core.getState())), ["Hello", "Hi", "Hello again"]);
+    assert.equal(selectActiveSession(core.getState())?.title, "Hello again");
+
+    core.undo(id);
+    const session = selectActiveSession(core.getState());
+    assert.deepEqual(contents(session), ["Hello", "Hi"]);
+    assert.equal(session?.title, "Hello");
+  });
+
+  it("has nothing to undo in a chat that was never changed", () => {
+    const { core } = setup();
+    const { id } = core.createSession();
+    assert.equal(core.undo(id), false);
+  });
+
+  it("forgets what was undone once a new message is appended", () => {
+    const { core } = setup();
+    const { id } = core.createSession();
+    core.appendMessage(id, { role: "user", content: "Hello" });
+    core.clearMessages(id);
+    core.undo(id);
+    assert.equal(getSessionHistory(core.getState(), id).future.length, 1);
+
+    core.appendMessage(id, { role: "assistant", content: "Hi" });
+    assert.deepEqual(getSessionHistory(core.getState(), id).future, []);
+    assert.equal(core.redo(id), false);
+    assert.deepEqual(contents(selectActiveSession(core.getState())), ["Hello", "Hi"]);
+  });
+
+  it("keeps a message sent after clearing a chat within reach when the clear is undone", () => {
+    const { core, events } = setup();
+    const { id } = core.createSession();
+    core.appendMessage(id, { role: "user", content: "Hello" });
+    core.clearMessages(id);
+    core.appendMessage(id, { role: "user", content: "Start over" });
+    // The app drops the clear's undo toast on this event, so the toast can't revert the new message.
+    assert.deepEqual(
+      events.slice(-1).map((event) => event.type),
+      ["messageAppended"]
+    );
+
+    core.undo(id);
+    assert.deepEqual(contents(selectActiveSession(core.getState())), ["Hello"]);
+    core.redo(id);
+    assert.deepEqual(contents(selectActiveSession(core.getState())), ["Start over"]);
+  });
+});
+
+describe("createChatCore session updates", () => {
+  it("switches to the latest reply on another branch and retitles the chat", () => {
+    const { core, tick } = setup();
+    const { id } = core.createSession();
+    const first = core.appendMessage(id, { role: "user", content: "First question" });
+    core.appendMessage(id, { role: "assistant", content: "First answer" });
+    tick();
+    core.appendMessage(id, { role: "user", content: "Second question", parentId: null });
+    assert.ok(first);
+
+    core.selectBranch(id, first.id);
+    const session = selectActiveSession(core.getState());
+    const current = session?.messages.find((message) => message.id === session.currentNodeId);
+    assert.equal(current?.content, "First answer");
+    assert.equal(session?.title, "First question");
+  });
+
+  it("leaves a chat alone when the message is already on screen", () => {
+    const { core, events } = setup();
+    const { id } = core.createSession();
+    const question = core.appendMessage(id, { role: "user", content: "Hello" });
+    assert.ok(question);
+    const before = core.getState();
+    const eventCount = events.length;
+    core.selectBranch(id, question.id);
+    assert.equal(core.getState(), before);
+    assert.equal(events.length, eventCount);
+  });
+
+  it("locks a renamed title and derives it again when the name is cleared", () => {
+    const { core, events } = setup();
+    const { id } = core.createSession();
+    core.appendMessage(id, { role: "user", content: "Plan a trip" });
+
+    core.renameSession(id, "Holidays");
+    assert.equal(selectActiveSession(core.getState())?.title, "Holidays");
+    assert.deepEqual(events[events.length - 1], {
+      type: "sessionUpdated",
+      sessionId: id,
+      fields: ["title", "titleLocked"]
+    });
+    // A title generated in the meantime doesn't overwrite the one chosen by hand.
+    core.setGeneratedTitle(id, "Trip planning");
+    assert.equal(selectActiveSession(core.getState())?.title, "Holidays");
+
+    core.renameSession(id, "");
+    assert.equal(selectActiveSession(core.getState())?.title, "Plan a trip");
+    core.setGeneratedTitle(id, "Trip planning");
+    assert.equal(selectActiveSession(core.getState())?.title, "Trip planning");
+  });
+
+  it("applies a persona's settings on top of the session's own", () => {
+    const { core } = setup();
+    const { id } = core.createSession({ settings: { temperature: 0.2, maxTokens: 500 } });
+    core.setPersona(id, "persona-1", { temperature: 0.9 });
+    const session = selectActiveSession(core.getState());
+    assert.equal(session?.personaId, "persona-1");
+    assert.deepEqual(session?.settings, { temperature: 0.9, maxTokens: 500 });
+  });
+
+  it("moves chats out of a deleted folder without touching the others", () => {
+    const { core } = setup();
+    core.load([buildSession("a", START), buildSession("b", START - 1000), buildSession("c", START - 2000)]);
+    core.updateSession("a", { folderId: "work" });
+    core.updateSession("b", { folderId: "home" });
+    core.removeFromFolder("work");
+    assert.deepEqual(
+      core.getState().sessions.map((session) => session.folderId),
+      [null, "home", null]
+    );
+  });
+
+  it("adds imported chats at the top without opening them", () => {
+    const { core, events } = setup();
+    core.load([buildSession("existing", START)]);
+    core.importSessions([buildSession("imported", START - DAY_MS)]);
+    assert.deepEqual(sessionIds(core), ["imported", "existing"]);
+    assert.equal(core.getState().activeSessionId, "existing");
+    assert.deepEqual(events[events.length - 1], { type: "sessionsImported", sessionIds: ["imported"] });
+  });
+});
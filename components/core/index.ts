@@ -0,0 +1,482 @@
+import { v4 as uuid } from "uuid";
+import { findLatestLeaf, getActivePath } from "../messageTree";
+import { DEFAULT_PROVIDER_ID } from "../providers";
+import { DEFAULT_TITLE, deriveTitle, resolveTitle } from "../titles";
+import type {
+  ChatAttachment,
+  ChatMessage,
+  ChatSession,
+  ContextSummary,
+  MessageStatus,
+  ProviderId,
+  SessionSettings
+} from "../types";
+
+/*
+ * Framework-free chat state: the sessions, which one is open, and the actions
+ * that change them. The clock, id generator and the storage for the open
+ * chat are injected, so the same rules run in the app, in a worker or under
+ * a test with fixed ids and times. Saving the sessions themselves is left to
+ * subscribers, which in the app hand them to the session persister.
+ *
+ * Deleting a chat moves it to the Trash, where it stays for
+ * TRASH_RETENTION_DAYS before `load` purges it. Clearing a chat and editing a
+ * message can be undone per session for as long as the page stays open.
+ */
+
+export const TRASH_RETENTION_DAYS = 30;
+const TRASH_RETENTION_MS = TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+const MAX_UNDO_STEPS = 50;
+
+/** The parts of a session that undo and redo restore. */
+export type SessionSnapshot = Pick<ChatSession, "messages" | "currentNodeId" | "contextSummary">;
+
+export interface SessionHistory {
+  past: SessionSnapshot[];
+  future: SessionSnapshot[];
+}
+
+export interface ChatCoreState {
+  sessions: ChatSession[];
+  activeSessionId: string | null;
+  history: Readonly<Record<string, SessionHistory>>;
+}
+
+export type ChatCoreEvent =
+  | { type: "sessionCreated"; session: ChatSession }
+  | { type: "sessionSelected"; sessionId: string | null }
+  | { type: "sessionTrashed"; sessionId: string }
+  | { type: "sessionRestored"; sessionId: string }
+  | { type: "sessionDeleted"; sessionId: string }
+  | { type: "sessionUpdated"; sessionId: string; fields: (keyof ChatSession)[] }
+  | { type: "sessionsImported"; sessionIds: string[] }
+  | { type: "messageAppended"; sessionId: string; message: ChatMessage }
+  | { type: "sessionCleared"; sessionId: string }
+  | { type: "historyChanged"; sessionId: string; direction: "undo" | "redo" };
+
+/** Remembers which chat is open across reloads. */
+export interface ActiveSessionStorage {
+  read(): string | null;
+  write(sessionId: string | null): void;
+}
+
+export interface ChatCoreOptions {
+  now?: () => Date;
+  createId?: () => string;
+  storage?: ActiveSessionStorage;
+  /** Generation settings for sessions created without any, including the ones opened automatically. */
+  defaultSettings?: () => SessionSettings;
+}
+
+export interface NewSessionOptions {
+  provider?: ProviderId;
+  personaId?: string | null;
+  settings?: SessionSettings;
+}
+
+export interface NewMessage {
+  role: ChatMessage["role"];
+  content: string;
+  /** Defaults to the session's current node, continuing the branch on screen. */
+  parentId?: string | null;
+  status?: MessageStatus;
+  attachments?: ChatAttachment[];
+}
+
+/** How a session is filed in the sidebar. */
+export type SessionPatch = Partial<Pick<ChatSession, "folderId" | "tags" | "pinned" | "archived">>;
+
+type Update<T> = T | ((prev: T) => T);
+
+export interface ChatCore {
+  getState(): ChatCoreState;
+  /** Called after every state change; made to fit React's useSyncExternalStore. */
+  subscribe(listener: () => void): () => void;
+  /** Called once per action with what happened, after the state reflects it. */
+  onEvent(listener: (event: ChatCoreEvent) => void): () => void;
+  /** Builds a message with the core's clock and ids without adding it to a session. */
+  createMessage(
+    role: ChatMessage["role"],
+    content: string,
+    parentId: string | null,
+    status?: MessageStatus
+  ): ChatMessage;
+  /** Adds an empty session at the top of the list and opens it. */
+  createSession(options?: NewSessionOptions): ChatSession;
+  /** Adds a message to a session and moves the session's current node to it. */
+  appendMessage(sessionId: string, input: NewMessage): ChatMessage | null;
+  /** Rewrites a session's messages, optionally moving its current node, and retitles it. */
+  updateMessages(
+    sessionId: string,
+    updater: (messages: ChatMessage[]) => ChatMessage[],
+    currentNodeId?: string | null
+  ): void;
+  /** Adds a user message next to `messageId` with new content, continuing the chat from the edited version. */
+  editMessage(sessionId: string, messageId: string, content: string): ChatMessage | null;
+  /** Shows the branch through `messageId` down to its latest reply; nothing changes when it is already on screen. */
+  selectBranch(sessionId: string, messageId: string): void;
+  /** Renames a session and locks the title; an empty title goes back to one derived from the messages. */
+  renameSession(sessionId: string, title: string): void;
+  /** Sets a generated title, unless the session was renamed while it was being generated. */
+  setGeneratedTitle(sessionId: string, title: string): void;
+  /** Files a session differently; like pins and archiving, this leaves `updatedAt` alone. */
+  updateSession(sessionId: string, patch: SessionPatch): void;
+  /** Moves every session in a folder back to the top level, e.g. once the folder is deleted. */
+  removeFromFolder(folderId: string): void;
+  setProvider(sessionId: string, provider: ProviderId): void;
+  /** Switches the persona and applies the generation settings it comes with. */
+  setPersona(sessionId: string, personaId: string | null, params: SessionSettings): void;
+  updateSettings(sessionId: string, settings: SessionSettings): void;
+  /** Caches the summary that stands in for earlier messages when the chat outgrows the context window. */
+  setContextSummary(sessionId: string, summary: ContextSummary): void;
+  /** Adds sessions read from an export at the top of the list without opening them. */
+  importSessions(sessions: ChatSession[]): void;
+  /** Removes every message from a session. */
+  clearMessages(sessionId: string): void;
+  undo(sessionId: string): boolean;
+  redo(sessionId: string): boolean;
+  /** Moves a session to the Trash; trashing the open one opens the next, and trashing the last leaves a fresh one. */
+  trashSession(sessionId: string): void;
+  restoreSession(sessionId: string): void;
+  /** Removes a session for good, whether or not it is in the Trash. */
+  deleteSession(sessionId: string): void;
+  emptyTrash(): void;
+  selectSession(sessionId: string | null): void;
+  /** Replaces everything with stored sessions, purges expired Trash and reopens the remembered or latest chat. */
+  load(sessions: ChatSession[]): void;
+  /** Empties the state without forgetting the remembered chat, e.g. while the workspace is locked. */
+  clear(): void;
+  /** Same contract as a React state setter, for code that transforms the whole list. */
+  setSessions(update: Update<ChatSession[]>): void;
+}
+
+export const createMemoryStorage = (initial: string | null = null): ActiveSessionStorage => {
+  let sessionId = initial;
+  return {
+    read: () => sessionId,
+    write: (next) => {
+      sessionId = next;
+    }
+  };
+};
+
+export const selectSessions = (state: ChatCoreState) => state.sessions;
+
+export const selectActiveSessionId = (state: ChatCoreState) => state.activeSessionId;
+
+export const selectActiveSession = (state: ChatCoreState) =>
+  state.sessions.find((session) => session.id === state.activeSessionId) ?? null;
+
+const EMPTY_HISTORY: SessionHistory = { past: [], future: [] };
+
+export const getSessionHistory = (state: ChatCoreState, sessionId: string | null) =>
+  (sessionId && state.history[sessionId]) || EMPTY_HISTORY;
+
+const isTrashed = (session: ChatSession) => Boolean(session.deletedAt);
+
+const takeSnapshot = ({ messages, currentNodeId, contextSummary }: ChatSession): SessionSnapshot => ({
+  messages,
+  currentNodeId,
+  contextSummary
+});
+
+export const createChatCore = ({
+  now = () => new Date(),
+  createId = uuid,
+  storage = createMemoryStorage(),
+  defaultSettings = () => ({})
+}: ChatCoreOptions = {}): ChatCore => {
+  let state: ChatCoreState = { sessions: [], activeSessionId: null, history: {} };
+  const listeners = new Set<() => void>();
+  const eventListeners = new Set<(event: ChatCoreEvent) => void>();
+
+  const timestamp = () => now().toISOString();
+
+  const commit = (next: ChatCoreState) => {
+    if (
+      next.sessions === state.sessions &&
+      next.activeSessionId === state.activeSessionId &&
+      next.history === state.history
+    ) {
+      return;
+    }
+    state = next;
+    listeners.forEach((listener) => listener());
+  };
+
+  const emit = (event: ChatCoreEvent) => eventListeners.forEach((listener) => listener(event));
+
+  const buildSession = ({
+    provider = DEFAULT_PROVIDER_ID,
+    personaId = null,
+    settings = defaultSettings()
+  }: NewSessionOptions) => {
+    const createdAt = timestamp();
+    const session: ChatSession = {
+      id: createId(),
+      title: DEFAULT_TITLE,
+      titleLocked: false,
+      messages: [],
+      currentNodeId: null,
+      provider,
+      personaId,
+      settings,
+      folderId: null,
+      tags: [],
+      pinned: false,
+      archived: false,
+      deletedAt: null,
+      createdAt,
+      updatedAt: createdAt
+    };
+    return session;
+  };
+
+  const open = (sessionId: string | null) => {
+    commit({ ...state, activeSessionId: sessionId });
+    storage.write(sessionId);
+    emit({ type: "sessionSelected", sessionId });
+  };
+
+  // After the open chat leaves the list, the newest remaining one opens; with none left a fresh one does.
+  const reopenAfter = (sessionId: string) => {
+    const live = state.sessions.filter((session) => !isTrashed(session));
+    if (!live.length) {
+      core.createSession();
+    } else if (state.activeSessionId === sessionId) {
+      open(live[0].id);
+    }
+  };
+
+  const setHistory = (sessionId: string, history: SessionHistory | null) => {
+    const next = { ...state.history };
+    if (history) next[sessionId] = history;
+    else delete next[sessionId];
+    commit({ ...state, history: next });
+  };
+
+  /** Records the session as it is now so the change about to be made can be undone. */
+  const checkpoint = (session: ChatSession) => {
+    const { past } = getSessionHistory(state, session.id);
+    setHistory(session.id, { past: [...past, takeSnapshot(session)].slice(-MAX_UNDO_STEPS), future: [] });
+  };
+
+  const restore = (sessionId: string, snapshot: SessionSnapshot) => {
+    core.setSessions((prev) =>
+      prev.map((session) => {
+        if (session.id !== sessionId) return session;
+        const nextSession = { ...session, ...snapshot };
+        return { ...nextSession, title: resolveTitle(nextSession), updatedAt: timestamp() };
+      })
+    );
+  };
+
+  const patchSession = (sessionId: string, patch: Partial<ChatSession>) =>
+    core.setSessions((prev) => prev.map((session) => (session.id === sessionId ? { ...session, ...patch } : session)));
+
+  const findSession = (sessionId: string) => state.sessions.find((session) => session.id === sessionId);
+
+  /** Replaces one session with what `revise` returns and reports the fields that changed, if any did. */
+  const reviseSession = (sessionId: string, revise: (session: ChatSession) => ChatSession) => {
+    const session = findSession(sessionId);
+    if (!session) return;
+    const next = revise(session);
+    const fields = (Object.keys(next) as (keyof ChatSession)[]).filter((field) => next[field] !== session[field]);
+    if (!fields.length) return;
+    commit({ ...state, sessions: state.sessions.map((item) => (item.id === sessionId ? next : item)) });
+    emit({ type: "sessionUpdated", sessionId, fields });
+  };
+
+  const core: ChatCore = {
+    getState: () => state,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    onEvent(listener) {
+      eventListeners.add(listener);
+      return () => {
+        eventListeners.delete(listener);
+      };
+    },
+    createMessage: (role, content, parentId, status = "complete") => ({
+      id: createId(),
+      role,
+      content: content.trimEnd(),
+      parentId,
+      status,
+      createdAt: timestamp()
+    }),
+    createSession(options = {}) {
+      const session = buildSession(options);
+      commit({ ...state, sessions: [session, ...state.sessions] });
+      emit({ type: "sessionCreated", session });
+      open(session.id);
+      return session;
+    },
+    appendMessage(sessionId, { role, content, parentId, status, attachments }) {
+      const session = findSession(sessionId);
+      if (!session) return null;
+      const parent = parentId === undefined ? session.currentNodeId : parentId;
+      const message = core.createMessage(role, content, parent, status);
+      if (attachments?.length) message.attachments = attachments;
+      core.updateMessages(sessionId, (messages) => [...messages, message], message.id);
+      // Something new was said, so whatever was undone can't be redone on top of it.
+      const history = getSessionHistory(state, sessionId);
+      if (history.future.length) setHistory(sessionId, { ...history, future: [] });
+      emit({ type: "messageAppended", sessionId, message });
+      return message;
+    },
+    updateMessages(sessionId, updater, currentNodeId) {
+      core.setSessions((prev) =>
+        prev.map((session) => {
+          if (session.id !== sessionId) return session;
+          const nextSession = {
+            ...session,
+            messages: updater(session.messages),
+            currentNodeId: currentNodeId === undefined ? session.currentNodeId : currentNodeId
+          };
+          return { ...nextSession, title: resolveTitle(nextSession), updatedAt: timestamp() };
+        })
+      );
+    },
+    editMessage(sessionId, messageId, content) {
+      const session = findSession(sessionId);
+      const original = session?.messages.find((message) => message.id === messageId);
+      if (!session || !original) return null;
+      checkpoint(session);
+      return core.appendMessage(sessionId, {
+        role: original.role,
+        content,
+        parentId: original.parentId,
+        attachments: original.attachments
+      });
+    },
+    selectBranch(sessionId, messageId) {
+      reviseSession(sessionId, (session) => {
+        if (getActivePath(session).some((message) => message.id === messageId)) return session;
+        const nextSession = { ...session, currentNodeId: findLatestLeaf(session.messages, messageId) };
+        return { ...nextSession, title: resolveTitle(nextSession) };
+      });
+    },
+    renameSession(sessionId, title) {
+      reviseSession(sessionId, (session) =>
+        title
+          ? { ...session, title, titleLocked: true }
+          : { ...session, title: deriveTitle(getActivePath(session)), titleLocked: false }
+      );
+    },
+    setGeneratedTitle(sessionId, title) {
+      reviseSession(sessionId, (session) => (session.titleLocked ? session : { ...session, title, titleLocked: true }));
+    },
+    updateSession(sessionId, patch) {
+      reviseSession(sessionId, (session) => ({ ...session, ...patch }));
+    },
+    removeFromFolder(folderId) {
+      state.sessions
+        .filter((session) => session.folderId === folderId)
+        .forEach((session) => reviseSession(session.id, (item) => ({ ...item, folderId: null })));
+    },
+    setProvider(sessionId, provider) {
+      reviseSession(sessionId, (session) => ({ ...session, provider }));
+    },
+    setPersona(sessionId, personaId, params) {
+      reviseSession(sessionId, (session) => ({ ...session, personaId, settings: { ...session.settings, ...params } }));
+    },
+    updateSettings(sessionId, settings) {
+      reviseSession(sessionId, (session) => ({ ...session, settings }));
+    },
+    setContextSummary(sessionId, contextSummary) {
+      reviseSession(sessionId, (session) => ({ ...session, contextSummary }));
+    },
+    importSessions(sessions) {
+      if (!sessions.length) return;
+      commit({ ...state, sessions: [...sessions, ...state.sessions] });
+      emit({ type: "sessionsImported", sessionIds: sessions.map((session) => session.id) });
+    },
+    clearMessages(sessionId) {
+      const session = findSession(sessionId);
+      if (!session?.messages.length) return;
+      checkpoint(session);
+      restore(sessionId, { messages: [], currentNodeId: null, contextSummary: undefined });
+      emit({ type: "sessionCleared", sessionId });
+    },
+    undo(sessionId) {
+      const session = findSession(sessionId);
+      const { past, future } = getSessionHistory(state, sessionId);
+      const snapshot = past[past.length - 1];
+      if (!session || !snapshot) return false;
+      setHistory(sessionId, { past: past.slice(0, -1), future: [takeSnapshot(session), ...future] });
+      restore(sessionId, snapshot);
+      emit({ type: "historyChanged", sessionId, direction: "undo" });
+      return true;
+    },
+    redo(sessionId) {
+      const session = findSession(sessionId);
+      const { past, future } = getSessionHistory(state, sessionId);
+      const [snapshot, ...rest] = future;
+      if (!session || !snapshot) return false;
+      setHistory(sessionId, { past: [...past, takeSnapshot(session)], future: rest });
+      restore(sessionId, snapshot);
+      emit({ type: "historyChanged", sessionId, direction: "redo" });
+      return true;
+    },
+    trashSession(sessionId) {
+      const session = findSession(sessionId);
+      if (!session || isTrashed(session)) return;
+      // Like pins and archiving, moving to the Trash leaves `updatedAt` alone so the chat keeps its place.
+      patchSession(sessionId, { deletedAt: timestamp() });
+      emit({ type: "sessionTrashed", sessionId });
+      reopenAfter(sessionId);
+    },
+    restoreSession(sessionId) {
+      const session = findSession(sessionId);
+      if (!session || !isTrashed(session)) return;
+      patchSession(sessionId, { deletedAt: null });
+      emit({ type: "sessionRestored", sessionId });
+    },
+    deleteSession(sessionId) {
+      if (!findSession(sessionId)) return;
+      commit({ ...state, sessions: state.sessions.filter((session) => session.id !== sessionId) });
+      setHistory(sessionId, null);
+      emit({ type: "sessionDeleted", sessionId });
+      reopenAfter(sessionId);
+    },
+    emptyTrash() {
+      state.sessions.filter(isTrashed).forEach((session) => core.deleteSession(session.id));
+    },
+    selectSession: open,
+    load(sessions) {
+      const rememberedId = storage.read();
+      const cutoff = now().getTime() - TRASH_RETENTION_MS;
+      const expired = sessions.filter((session) => session.deletedAt && Date.parse(session.deletedAt) < cutoff);
+      const kept = sessions.filter((session) => !expired.includes(session));
+      commit({ sessions: kept, activeSessionId: state.activeSessionId, history: {} });
+      expired.forEach((session) => emit({ type: "sessionDeleted", sessionId: session.id }));
+      const live = kept.filter((session) => !isTrashed(session));
+      if (!live.length) {
+        core.createSession();
+        return;
+      }
+      if (rememberedId && live.some((session) => session.id === rememberedId)) {
+        commit({ ...state, activeSessionId: rememberedId });
+        emit({ type: "sessionSelected", sessionId: rememberedId });
+        return;
+      }
+      const latest = live.reduce((best, session) => (session.updatedAt > best.updatedAt ? session : best));
+      open(latest.id);
+    },
+    clear() {
+      commit({ sessions: [], activeSessionId: null, history: {} });
+    },
+    setSessions(update) {
+      // The updater may call other actions, so it runs before the rest of the state is read.
+      const sessions = typeof update === "function" ? update(state.sessions) : update;
+      commit({ ...state, sessions });
+    }
+  };
+
+  return core;
+};
@@ -0,0 +1,66 @@
+import type { ContextStrategy, GenerationParams, SessionSettings } from "./types";
+
+/*
+ * Generation settings are stored on each session so replies from different
+ * sessions can be compared; new sessions copy the workspace defaults.
+ */
+
+export const MAX_STOP_SEQUENCES = 4;
+
+export const CONTEXT_STRATEGIES: { id: ContextStrategy; label: string }[] = [
+  { id: "sliding-window", label: "Sliding window" },
+  { id: "pinned", label: "Pinned messages first" },
+  { id: "summary", label: "Rolling summary" }
+];
+
+export const SETTING_LIMITS = {
+  temperature: { min: 0, max: 2 },
+  topP: { min: 0, max: 1 },
+  maxTokens: { min: 1, max: 32768 },
+  contextBudget: { min: 256, max: 200000 }
+} as const;
+
+const clamp = (value: number, { min, max }: { min: number; max: number }) => Math.min(Math.max(value, min), max);
+
+const readNumber = (value: unknown) => (typeof value === "number" && Number.isFinite(value) ? value : undefined);
+
+/** Keeps only well-formed values, clamped to the supported ranges. */
+export const normalizeSessionSettings = (value: unknown): SessionSettings => {
+  if (!value || typeof value !== "object") return {};
+  const record = value as Record<string, unknown>;
+  const { model, temperature, topP, maxTokens, stop, contextBudget, contextStrategy } = record;
+  const settings: SessionSettings = {};
+  if (typeof model === "string" && model.trim()) settings.model = model.trim();
+  const numbers = { temperature, topP, maxTokens, contextBudget };
+  (Object.keys(numbers) as (keyof typeof numbers)[]).forEach((key) => {
+    const number = readNumber(numbers[key]);
+    if (number === undefined) return;
+    const clamped = clamp(number, SETTING_LIMITS[key]);
+    settings[key] = key === "maxTokens" || key === "contextBudget" ? Math.round(clamped) : clamped;
+  });
+  if (Array.isArray(stop)) {
+    const sequences = stop.filter((item): item is string => typeof item === "string" && item !== "");
+    if (sequences.length) settings.stop = sequences.slice(0, MAX_STOP_SEQUENCES);
+  }
+  const strategy = CONTEXT_STRATEGIES.find((item) => item.id === contextStrategy);
+  if (strategy) settings.contextStrategy = strategy.id;
+  return settings;
+};
+
+/** The part of the session settings a provider understands. */
+export const toGenerationParams = ({
+  contextBudget: _budget,
+  contextStrategy: _strategy,
+  ...params
+}: SessionSettings): GenerationParams => params;
+
+export const describeSessionSettings = (settings: SessionSettings) => {
+  return [
+    settings.model,
+    settings.temperature !== undefined && `temp ${settings.temperature}`,
+    settings.topP !== undefined && `top-p ${settings.topP}`,
+    settings.maxTokens !== undefined && `${settings.maxTokens} max tokens`
+  ]
+    .filter(Boolean)
+    .join(" · ");
+};
@@ -0,0 +1,142 @@
+import type { ChatFolder, ChatSession } from "./types";
+
+/*
+ * Sidebar organisation: folders live in their own small list, while pins,
+ * tags, the archive flag and folder membership are stored on each session.
+ */
+
+export const FOLDERS_KEY = "chatgpt-local-folders";
+export const SESSION_DRAG_TYPE = "application/x-chat-session";
+
+export type SidebarView = "chats" | "pinned" | "archived" | "trash";
+
+export interface SidebarFilter {
+  view: SidebarView;
+  tag: string | null;
+}
+
+export const DEFAULT_SIDEBAR_FILTER: SidebarFilter = { view: "chats", tag: null };
+
+export interface SessionGroup {
+  label: string;
+  sessions: ChatSession[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const normalizeTag = (value: string) => {
+  return value.trim().toLowerCase().replace(/^#/, "").replace(/\s+/g, "-");
+};
+
+export const collectTags = (sessions: ChatSession[]) => {
+  return [...new Set(sessions.flatMap((session) => session.tags))].sort();
+};
+
+export const matchesSidebarFilter = (session: ChatSession, filter: SidebarFilter) => {
+  if (filter.tag && !session.tags.includes(filter.tag)) return false;
+  if (filter.view === "trash") return Boolean(session.deletedAt);
+  if (session.deletedAt) return false;
+  if (filter.view === "archived") return session.archived;
+  if (session.archived) return false;
+  return filter.view === "pinned" ? session.pinned : true;
+};
+
+const byUpdatedAt = (a: ChatSession, b: ChatSession) => (a.updatedAt > b.updatedAt ? -1 : 1);
+
+const startOfDay = (time: number) => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+const dateGroupLabel = (iso: string, now: number) => {
+  const time = new Date(iso).getTime();
+  const today = startOfDay(now);
+  if (time >= today) return "Today";
+  if (time >= today - DAY_MS) return "Yesterday";
+  if (time >= today - 7 * DAY_MS) return "Previous 7 days";
+  if (time >= today - 30 * DAY_MS) return "Previous 30 days";
+  const date = new Date(time);
+  if (date.getFullYear() === new Date(now).getFullYear()) {
+    return new Intl.DateTimeFormat([], { month: "long" }).format(date);
+  }
+  return String(date.getFullYear());
+};
+
+/** Sorts sessions newest first and splits them into Today, Yesterday, … sections. */
+export const groupByDate = (sessions: ChatSession[], now = Date.now()): SessionGroup[] => {
+  const groups: SessionGroup[] = [];
+  [...sessions].sort(byUpdatedAt).forEach((session) => {
+    const label = dateGroupLabel(session.updatedAt, now);
+    const last = groups[groups.length - 1];
+    if (last?.label === label) {
+      last.sessions.push(session);
+    } else {
+      groups.push({ label, sessions: [session] });
+    }
+  });
+  return groups;
+};
+
+export interface SidebarSections {
+  pinned: ChatSession[];
+  folders: { folder: ChatFolder; sessions: ChatSession[] }[];
+  dated: SessionGroup[];
+}
+
+/**
+ * Lays out the filtered sessions: pinned chats first, then one section per
+ * folder, then everything else by date. A session whose folder no longer
+ * exists is shown with the unfiled chats.
+ */
+export const buildSidebarSections = (
+  sessions: ChatSession[],
+  folders: ChatFolder[],
+  filter: SidebarFilter,
+  now = Date.now()
+): SidebarSections => {
+  const visible = sessions.filter((session) => matchesSidebarFilter(session, filter));
+  if (filter.view !== "chats") {
+    return { pinned: [], folders: [], dated: groupByDate(visible, now) };
+  }
+  const folderIds = new Set(folders.map((folder) => folder.id));
+  const pinned = visible.filter((session) => session.pinned).sort(byUpdatedAt);
+  const rest = visible.filter((session) => !session.pinned);
+  return {
+    pinned,
+    folders: folders.map((folder) => ({
+      folder,
+      sessions: rest.filter((session) => session.folderId === folder.id).sort(byUpdatedAt)
+    })),
+    dated: groupByDate(
+      rest.filter((session) => !session.folderId || !folderIds.has(session.folderId)),
+      now
+    )
+  };
+};
+
+const isFolder = (value: unknown): value is ChatFolder => {
+  if (!value || typeof value !== "object") return false;
+  const { id, name, createdAt } = value as Record<string, unknown>;
+  return typeof id === "string" && typeof name === "string" && typeof createdAt === "string";
+};
+
+export const readFolders = (): ChatFolder[] => {
+  if (typeof window === "undefined") return [];
+  try {
+    const parsed: unknown = JSON.parse(window.localStorage.getItem(FOLDERS_KEY) ?? "[]");
+    return Array.isArray(parsed) ? parsed.filter(isFolder) : [];
+  } catch (error) {
+    console.warn("Failed to read chat folders", error);
+    return [];
+  }
+};
+
+export const writeFolders = (folders: ChatFolder[]) => {
+  if (typeof window === "undefined") return;
+  try {
+    window.localStorage.setItem(FOLDERS_KEY, JSON.stringify(folders));
+  } catch (error) {
+    console.warn("Failed to persist chat folders", error);
+  }
+};
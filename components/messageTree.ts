@@ -0,0 +1,66 @@
+import type { ChatMessage, ChatSession } from "./types";
+
+/*
+ * Sessions store every message ever sent as a tree linked through `parentId`.
+ * `currentNodeId` marks the leaf of the branch being viewed; the visible
+ * conversation is the path from the root down to that leaf.
+ */
+
+const byCreatedAt = (a: ChatMessage, b: ChatMessage) => {
+  if (a.createdAt === b.createdAt) return 0;
+  return a.createdAt < b.createdAt ? -1 : 1;
+};
+
+export const getPathTo = (messages: ChatMessage[], nodeId: string | null): ChatMessage[] => {
+  const byId = new Map(messages.map((message) => [message.id, message]));
+  const path: ChatMessage[] = [];
+  const seen = new Set<string>();
+  let cursor = nodeId ? byId.get(nodeId) : undefined;
+  while (cursor && !seen.has(cursor.id)) {
+    seen.add(cursor.id);
+    path.push(cursor);
+    cursor = cursor.parentId ? byId.get(cursor.parentId) : undefined;
+  }
+  return path.reverse();
+};
+
+export const getActivePath = (session: Pick<ChatSession, "messages" | "currentNodeId">) => {
+  return getPathTo(session.messages, session.currentNodeId);
+};
+
+export const getChildren = (messages: ChatMessage[], parentId: string | null) => {
+  return messages.filter((message) => (message.parentId ?? null) === parentId).sort(byCreatedAt);
+};
+
+export const getSiblings = (messages: ChatMessage[], message: ChatMessage) => {
+  return getChildren(messages, message.parentId ?? null);
+};
+
+/** Follows the most recent child at each level to find the leaf shown when a branch is opened. */
+export const findLatestLeaf = (messages: ChatMessage[], nodeId: string) => {
+  let leafId = nodeId;
+  let children = getChildren(messages, leafId);
+  while (children.length) {
+    leafId = children[children.length - 1].id;
+    children = getChildren(messages, leafId);
+  }
+  return leafId;
+};
+
+/**
+ * Upgrades sessions saved before branching existed: a flat message list
+ * becomes a single chain and its last message becomes the current node.
+ */
+export const linkMessages = (messages: ChatMessage[], currentNodeId: string | null | undefined) => {
+  const isLegacy = messages.some((message) => message.parentId === undefined);
+  const linked = isLegacy
+    ? messages.map((message, index) => ({
+        ...message,
+        parentId: message.parentId === undefined ? messages[index - 1]?.id ?? null : message.parentId
+      }))
+    : messages;
+  const ids = new Set(linked.map((message) => message.id));
+  const current =
+    currentNodeId && ids.has(currentNodeId) ? currentNodeId : linked.length ? linked[linked.length - 1].id : null;
+  return { messages: linked, currentNodeId: current };
+};
@@ -0,0 +1,80 @@
+import { v4 as uuid } from "uuid";
+import type { GenerationParams, Persona } from "./types";
+
+/*
+ * A persona bundles a system prompt with generation defaults. The system
+ * prompt sent to the provider is never stored in the message tree; it is
+ * composed for every request from the workspace's custom instructions and the
+ * session's persona, so edits apply to the next reply.
+ */
+
+export const PERSONAS_KEY = "chatgpt-local-personas";
+
+const isOptionalNumber = (value: unknown) => value === undefined || (typeof value === "number" && isFinite(value));
+
+export const isPersona = (value: unknown): value is Persona => {
+  if (!value || typeof value !== "object") return false;
+  const { id, name, systemPrompt, model, temperature, createdAt, updatedAt } = value as Record<string, unknown>;
+  return (
+    typeof id === "string" &&
+    Boolean(id) &&
+    typeof name === "string" &&
+    typeof systemPrompt === "string" &&
+    (model === undefined || typeof model === "string") &&
+    isOptionalNumber(temperature) &&
+    typeof createdAt === "string" &&
+    typeof updatedAt === "string"
+  );
+};
+
+export const createPersona = (fields: Pick<Persona, "name" | "systemPrompt" | "model" | "temperature">): Persona => {
+  const timestamp = new Date().toISOString();
+  return { id: uuid(), ...fields, createdAt: timestamp, updatedAt: timestamp };
+};
+
+export const findPersona = (personas: Persona[], personaId: string | null) => {
+  return personaId ? personas.find((persona) => persona.id === personaId) ?? null : null;
+};
+
+/** Joins custom instructions and the persona prompt; "" when neither is set. */
+export const buildSystemPrompt = (customInstructions: string, persona: Persona | null) => {
+  return [customInstructions, persona?.systemPrompt ?? ""]
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .join("\n\n");
+};
+
+/** The generation settings a persona overrides when it is applied to a session. */
+export const getPersonaParams = (persona: Persona | null): GenerationParams => {
+  const params: GenerationParams = {};
+  if (persona?.model) params.model = persona.model;
+  if (persona?.temperature !== undefined) params.temperature = persona.temperature;
+  return params;
+};
+
+/** Adds imported personas that aren't known yet; a persona already stored under the same id wins. */
+export const mergePersonas = (existing: Persona[], incoming: Persona[]) => {
+  const known = new Set(existing.map((persona) => persona.id));
+  const added = incoming.filter((persona) => !known.has(persona.id) && known.add(persona.id));
+  return { personas: [...existing, ...added], added: added.length };
+};
+
+export const readPersonas = (): Persona[] => {
+  if (typeof window === "undefined") return [];
+  try {
+    const parsed: unknown = JSON.parse(window.localStorage.getItem(PERSONAS_KEY) ?? "[]");
+    return Array.isArray(parsed) ? parsed.filter(isPersona) : [];
+  } catch (error) {
+    console.warn("Failed to read personas", error);
+    return [];
+  }
+};
+
+export const writePersonas = (personas: Persona[]) => {
+  if (typeof window === "undefined") return;
+  try {
+    window.localStorage.setItem(PERSONAS_KEY, JSON.stringify(personas));
+  } catch (error) {
+    console.warn("Failed to persist personas", error);
+  }
+};
@@ -0,0 +1,58 @@
+import { v4 as uuid } from "uuid";
+import type { PromptTemplate } from "./types";
+
+export const PROMPTS_KEY = "chatgpt-local-prompts";
+
+const VARIABLE_PATTERN = /\{\{\s*([\p{L}\p{N}_][\p{L}\p{N}_ -]*?)\s*\}\}/gu;
+
+export const isPromptTemplate = (value: unknown): value is PromptTemplate => {
+  if (!value || typeof value !== "object") return false;
+  const { id, name, content, createdAt, updatedAt } = value as Record<string, unknown>;
+  return (
+    typeof id === "string" &&
+    Boolean(id) &&
+    typeof name === "string" &&
+    typeof content === "string" &&
+    typeof createdAt === "string" &&
+    typeof updatedAt === "string"
+  );
+};
+
+export const createPromptTemplate = (fields: Pick<PromptTemplate, "name" | "content">): PromptTemplate => {
+  const timestamp = new Date().toISOString();
+  return { id: uuid(), ...fields, createdAt: timestamp, updatedAt: timestamp };
+};
+
+/** Variable names in order of first appearance; `{{ topic }}` and `{{topic}}` are the same variable. */
+export const extractVariables = (content: string) => {
+  const names = new Set<string>();
+  for (const match of content.matchAll(VARIABLE_PATTERN)) {
+    names.add(match[1]);
+  }
+  return [...names];
+};
+
+/** Replaces every placeholder with its value; variables without a value are left as typed. */
+export const fillTemplate = (content: string, values: Record<string, string>) => {
+  return content.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name] ?? placeholder);
+};
+
+export const readPrompts = (): PromptTemplate[] => {
+  if (typeof window === "undefined") return [];
+  try {
+    const parsed: unknown = JSON.parse(window.localStorage.getItem(PROMPTS_KEY) ?? "[]");
+    return Array.isArray(parsed) ? parsed.filter(isPromptTemplate) : [];
+  } catch (error) {
+    console.warn("Failed to read saved prompts", error);
+    return [];
+  }
+};
+
+export const writePrompts = (prompts: PromptTemplate[]) => {
+  if (typeof window === "undefined") return;
+  try {
+    window.localStorage.setItem(PROMPTS_KEY, JSON.stringify(prompts));
+  } catch (error) {
+    console.warn("Failed to persist saved prompts", error);
+  }
+};
@@ -0,0 +1,65 @@
+import type { ProviderId } from "../types";
+import { ProviderError } from "./errors";
+import type { ChatErrorPayload } from "./errors";
+import type { AssistantProvider } from "./index";
+import { CHAT_ROUTE_PATH } from "./protocol";
+import type { ChatBackend, ChatRouteEvent, ChatRouteRequest } from "./protocol";
+import { readServerSentEvents } from "./sse";
+import { isAbortError } from "./utils";
+
+type ApiProviderConfig = {
+  id: ProviderId;
+  label: string;
+  backend: ChatBackend;
+};
+
+/** Streams replies through the app's own `/api/chat` route so provider keys stay on the server. */
+export const createApiProvider = ({ id, label, backend }: ApiProviderConfig): AssistantProvider => ({
+  id,
+  label,
+  canSummarize: true,
+  async *streamReply(messages, { signal, params } = {}) {
+    const body: ChatRouteRequest = {
+      backend,
+      messages: messages.map(({ role, content, parts }) => ({ role, content, parts })),
+      params
+    };
+
+    let response: Response;
+    try {
+      response = await fetch(CHAT_ROUTE_PATH, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+        signal
+      });
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      throw new ProviderError({ code: "network_error", message: "The chat service is unreachable" });
+    }
+
+    if (!response.ok || !response.body) {
+      const payload = (await response.json().catch(() => ({}))) as { error?: ChatErrorPayload };
+      throw new ProviderError(
+        payload.error ?? { code: "upstream_error", message: `The chat service responded with ${response.status}` },
+        response.status
+      );
+    }
+
+    for await (const data of readServerSentEvents(response.body)) {
+      let event: ChatRouteEvent;
+      try {
+        event = JSON.parse(data) as ChatRouteEvent;
+      } catch {
+        throw new ProviderError({ code: "upstream_error", message: "The chat service sent an unreadable reply" });
+      }
+      if (event.type === "token") {
+        yield event.content;
+      } else if (event.type === "error") {
+        throw new ProviderError(event.error);
+      } else {
+        return;
+      }
+    }
+  }
+});
@@ -0,0 +1,33 @@
+import type { AssistantProvider } from "./index";
+import { wait } from "./utils";
+
+const TYPING_DELAY_MS = 1000;
+const TOKEN_DELAY_MS = 35;
+
+const simulateAssistantResponse = (prompt: string) => {
+  const trimmed = prompt.trim();
+  if (!trimmed) {
+    return "I'm ready whenever you are!";
+  }
+
+  return [
+    `Here's a quick reflection on your last message:`,
+    `> ${trimmed}`,
+    "",
+    "This demo mirrors the ChatGPT interface with fully local chat history. Feel free to keep exploring or start a new conversation!"
+  ].join("\n");
+};
+
+export const echoProvider: AssistantProvider = {
+  id: "echo",
+  label: "Echo simulator",
+  async *streamReply(messages, { signal } = {}) {
+    const lastUser = [...messages].reverse().find((message) => message.role === "user");
+    await wait(TYPING_DELAY_MS, signal);
+    const tokens = simulateAssistantResponse(lastUser?.content ?? "").match(/\s*\S+\s*/g) ?? [];
+    for (const token of tokens) {
+      yield token;
+      await wait(TOKEN_DELAY_MS, signal);
+    }
+  }
+};
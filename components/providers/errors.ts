@@ -0,0 +1,58 @@
+export type ChatErrorCode =
+  | "rate_limited"
+  | "unauthorized"
+  | "bad_request"
+  | "upstream_error"
+  | "network_error"
+  | "not_configured";
+
+export interface ChatErrorPayload {
+  code: ChatErrorCode;
+  message: string;
+  retryAfter?: number;
+}
+
+export class ProviderError extends Error {
+  readonly code: ChatErrorCode;
+  readonly status: number;
+  readonly retryAfter?: number;
+
+  constructor({ code, message, retryAfter }: ChatErrorPayload, status = 502) {
+    super(message);
+    this.name = "ProviderError";
+    this.code = code;
+    this.status = status;
+    this.retryAfter = retryAfter;
+  }
+
+  toPayload(): ChatErrorPayload {
+    return { code: this.code, message: this.message, retryAfter: this.retryAfter };
+  }
+}
+
+const codeForStatus = (status: number): ChatErrorCode => {
+  if (status === 429) return "rate_limited";
+  if (status === 401 || status === 403) return "unauthorized";
+  if (status >= 400 && status < 500) return "bad_request";
+  return "upstream_error";
+};
+
+/** Parses a Retry-After header given either in seconds or as an HTTP date. */
+export const parseRetryAfter = (header: string | null) => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, Math.ceil(seconds));
+  const date = Date.parse(header);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+};
+
+export const providerErrorFromResponse = (response: Response, label: string, detail?: string) => {
+  const code = codeForStatus(response.status);
+  const retryAfter = parseRetryAfter(response.headers.get("Retry-After"));
+  const message =
+    code === "rate_limited"
+      ? `${label} is rate limited${retryAfter !== undefined ? `, try again in ${retryAfter}s` : ""}`
+      : detail || `${label} responded with ${response.status}`;
+  return new ProviderError({ code, message, retryAfter }, response.status);
+};
@@ -0,0 +1,38 @@
+import { ProviderError } from "./errors";
+import type { AssistantProvider } from "./index";
+import { wait } from "./utils";
+
+const TOKEN_DELAY_MS = 20;
+
+/**
+ * Deterministic offline backend for the chat route. A prompt containing
+ * `[fake:rate-limit]` or `[fake:error]` triggers the matching failure so
+ * integration tests can exercise error handling without a network.
+ */
+export const fakeProvider: AssistantProvider = {
+  id: "mock",
+  label: "Local fake backend",
+  async *streamReply(messages, { signal, params = {} } = {}) {
+    const lastUser = [...messages].reverse().find((message) => message.role === "user");
+    const prompt = lastUser?.content.trim() ?? "";
+
+    if (prompt.includes("[fake:rate-limit]")) {
+      throw new ProviderError({ code: "rate_limited", message: "Fake backend is rate limited", retryAfter: 1 }, 429);
+    }
+    if (prompt.includes("[fake:error]")) {
+      throw new ProviderError({ code: "upstream_error", message: "Fake backend failed" }, 500);
+    }
+
+    const attached = lastUser?.parts ? ` with ${lastUser.parts.length} parts` : "";
+    const fullReply = `Fake reply #${messages.length} from ${params.model || "fake-model"} to: ${prompt || "(empty prompt)"}${attached}`;
+    const stopAt = (params.stop ?? [])
+      .map((sequence) => fullReply.indexOf(sequence))
+      .filter((index) => index >= 0)
+      .sort((a, b) => a - b)[0];
+    const reply = stopAt === undefined ? fullReply : fullReply.slice(0, stopAt);
+    for (const token of reply.match(/\s*\S+\s*/g) ?? []) {
+      await wait(TOKEN_DELAY_MS, signal);
+      yield token;
+    }
+  }
+};
@@ -0,0 +1,46 @@
+import type { ChatMessage, GenerationParams, MessagePart, ProviderId } from "../types";
+import { createApiProvider } from "./api";
+import { echoProvider } from "./echo";
+
+export type GenerateReplyOptions = {
+  signal?: AbortSignal;
+  params?: GenerationParams;
+};
+
+/** A message as sent to a provider; `parts`, when present, replaces `content` for multi-part input. */
+export type ProviderMessage = ChatMessage & { parts?: MessagePart[] };
+
+export interface AssistantProvider {
+  id: ProviderId;
+  label: string;
+  /** Whether the provider follows instructions well enough to summarise a chat into a title. */
+  canSummarize?: boolean;
+  streamReply(messages: ProviderMessage[], options?: GenerateReplyOptions): AsyncIterable<string>;
+}
+
+export const DEFAULT_PROVIDER_ID: ProviderId = "echo";
+
+const openAIProvider = createApiProvider({
+  id: "openai",
+  label: "OpenAI compatible",
+  backend: "upstream"
+});
+
+const mockProvider = createApiProvider({
+  id: "mock",
+  label: "Local fake backend",
+  backend: "fake"
+});
+
+export const PROVIDERS: AssistantProvider[] = [echoProvider, openAIProvider, mockProvider];
+
+export const isProviderId = (value: unknown): value is ProviderId => {
+  return PROVIDERS.some((provider) => provider.id === value);
+};
+
+export const getProvider = (id: ProviderId | undefined): AssistantProvider => {
+  return PROVIDERS.find((provider) => provider.id === id) ?? echoProvider;
+};
+
+export { ProviderError } from "./errors";
+export { isAbortError } from "./utils";
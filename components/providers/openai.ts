@@ -0,0 +1,87 @@
+import type { ProviderId } from "../types";
+import { ProviderError, providerErrorFromResponse } from "./errors";
+import type { AssistantProvider, ProviderMessage } from "./index";
+import { readServerSentEvents } from "./sse";
+import { isAbortError } from "./utils";
+
+type OpenAICompatibleConfig = {
+  id: ProviderId;
+  label: string;
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+};
+
+type ChatCompletionError = {
+  error?: { message?: string };
+};
+
+type ChatCompletionChunk = {
+  choices?: { delta?: { content?: string | null } }[];
+};
+
+const toCompletionMessages = (messages: ProviderMessage[]) =>
+  messages.map(({ role, content, parts }) => ({
+    role,
+    content: parts
+      ? parts.map((part) =>
+          part.type === "text" ? { type: "text", text: part.text } : { type: "image_url", image_url: { url: part.url } }
+        )
+      : content
+  }));
+
+export const createOpenAICompatibleProvider = ({
+  id,
+  label,
+  baseUrl,
+  model,
+  apiKey
+}: OpenAICompatibleConfig): AssistantProvider => ({
+  id,
+  label,
+  async *streamReply(messages, { signal, params = {} } = {}) {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (apiKey) {
+      headers.Authorization = `Bearer ${apiKey}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          model: params.model || model,
+          messages: toCompletionMessages(messages),
+          temperature: params.temperature,
+          top_p: params.topP,
+          max_tokens: params.maxTokens,
+          stop: params.stop,
+          stream: true
+        }),
+        signal
+      });
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      throw new ProviderError({ code: "network_error", message: `${label} is unreachable` });
+    }
+
+    if (!response.ok || !response.body) {
+      const payload = (await response.json().catch(() => ({}))) as ChatCompletionError;
+      throw providerErrorFromResponse(response, label, payload.error?.message);
+    }
+
+    for await (const data of readServerSentEvents(response.body)) {
+      let chunk: ChatCompletionChunk;
+      try {
+        chunk = JSON.parse(data) as ChatCompletionChunk;
+      } catch {
+        continue;
+      }
+      const token = chunk.choices?.[0]?.delta?.content;
+      if (token) {
+        yield token;
+      }
+    }
+  }
+});
@@ -0,0 +1,24 @@
+import type { ChatRole, GenerationParams, MessagePart } from "../types";
+import type { ChatErrorPayload } from "./errors";
+
+export type ChatBackend = "upstream" | "fake";
+
+export interface ChatRouteRequest {
+  backend?: ChatBackend;
+  messages: { role: ChatRole; content: string; parts?: MessagePart[] }[];
+  params?: GenerationParams;
+}
+
+/**
+ * Events streamed by `/api/chat`, one JSON object per SSE `data:` line.
+ * Errors raised before the first token are returned as a JSON body
+ * (`{ error: ChatErrorPayload }`) with the upstream status instead.
+ */
+export type ChatRouteEvent =
+  | { type: "token"; content: string }
+  | { type: "done" }
+  | { type: "error"; error: ChatErrorPayload };
+
+export const CHAT_ROUTE_PATH = "/api/chat";
+
+export const encodeChatEvent = (event: ChatRouteEvent) => `data: ${JSON.stringify(event)}\n\n`;
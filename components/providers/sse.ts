@@ -0,0 +1,30 @@
+/**
+ * Yields the `data:` payload of each server-sent event in a streamed response body.
+ * The `[DONE]` sentinel used by OpenAI-compatible endpoints ends the stream.
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary = buffer.indexOf("\n");
+      while (boundary !== -1) {
+        const line = buffer.slice(0, boundary).trim();
+        buffer = buffer.slice(boundary + 1);
+        boundary = buffer.indexOf("\n");
+        if (!line.startsWith("data:")) continue;
+        const data = line.slice(5).trim();
+        if (data === "[DONE]") return;
+        yield data;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
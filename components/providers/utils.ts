@@ -0,0 +1,23 @@
+export const createAbortError = () => new DOMException("The request was aborted", "AbortError");
+
+export const isAbortError = (error: unknown) => {
+  return error instanceof DOMException && error.name === "AbortError";
+};
+
+export const wait = (ms: number, signal?: AbortSignal) => {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(createAbortError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+};
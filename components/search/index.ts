@@ -0,0 +1,228 @@
+import { DEFAULT_SIDEBAR_FILTER, matchesSidebarFilter } from "../library";
+import type { SidebarFilter } from "../library";
+import type { ChatMessage, ChatSession } from "../types";
+import { hasMessageFilters, isEmptyQuery, parseQuery, tokenize } from "./query";
+import type { ParsedQuery } from "./query";
+
+export interface SnippetRange {
+  start: number;
+  end: number;
+}
+
+export interface SearchHit {
+  sessionId: string;
+  messageId: string;
+  role: ChatMessage["role"];
+  score: number;
+  snippet: string;
+  highlights: SnippetRange[];
+}
+
+export interface SessionSearchResult {
+  session: ChatSession;
+  score: number;
+  titleMatch: boolean;
+  hits: SearchHit[];
+}
+
+type IndexedDoc = {
+  sessionId: string;
+  message: ChatMessage;
+  normalized: string;
+  termCounts: Map<string, number>;
+  length: number;
+};
+
+const SNIPPET_RADIUS = 60;
+const TITLE_BOOST = 3;
+const MAX_HITS_PER_SESSION = 3;
+
+const normalize = (text: string) => tokenize(text).join(" ");
+
+const countTerms = (text: string) => {
+  const counts = new Map<string, number>();
+  tokenize(text).forEach((token) => counts.set(token, (counts.get(token) ?? 0) + 1));
+  return counts;
+};
+
+const buildSnippet = (content: string, query: ParsedQuery) => {
+  const lower = content.toLowerCase();
+  const needles = [...query.phrases, ...query.terms].filter(Boolean);
+  const firstHit = needles
+    .map((needle) => lower.indexOf(needle.split(" ")[0]))
+    .filter((index) => index >= 0)
+    .sort((a, b) => a - b)[0];
+  const center = firstHit ?? 0;
+  const rawStart = Math.max(0, center - SNIPPET_RADIUS);
+  // Start on a word boundary so the snippet doesn't open mid-word.
+  const start = rawStart > 0 ? Math.min(center, content.indexOf(" ", rawStart) + 1 || center) : 0;
+  const end = Math.min(content.length, center + SNIPPET_RADIUS * 2);
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < content.length ? "…" : "";
+  const snippet = `${prefix}${content.slice(start, end).replace(/\s+/g, " ")}${suffix}`;
+
+  const highlights: SnippetRange[] = [];
+  const snippetLower = snippet.toLowerCase();
+  needles.forEach((needle) => {
+    needle.split(" ").forEach((word) => {
+      const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}`, "gu");
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(snippetLower))) {
+        highlights.push({ start: match.index, end: match.index + word.length });
+      }
+    });
+  });
+  highlights.sort((a, b) => a.start - b.start);
+  const merged = highlights.reduce<SnippetRange[]>((ranges, range) => {
+    const last = ranges[ranges.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      ranges.push({ ...range });
+    }
+    return ranges;
+  }, []);
+  return { snippet, highlights: merged };
+};
+
+/**
+ * Inverted index over every message in every session (all branches). `update`
+ * only re-indexes messages whose content changed since the previous call, so
+ * it is cheap to run on each state change, including while a reply streams in.
+ */
+export const createSearchIndex = () => {
+  const docs = new Map<string, IndexedDoc>();
+  const postings = new Map<string, Set<string>>();
+  const sessionsById = new Map<string, ChatSession>();
+
+  const removeDoc = (key: string) => {
+    const doc = docs.get(key);
+    if (!doc) return;
+    doc.termCounts.forEach((_count, term) => {
+      const keys = postings.get(term);
+      keys?.delete(key);
+      if (keys && !keys.size) postings.delete(term);
+    });
+    docs.delete(key);
+  };
+
+  const addDoc = (key: string, sessionId: string, message: ChatMessage) => {
+    const termCounts = countTerms(message.content);
+    docs.set(key, {
+      sessionId,
+      message,
+      normalized: normalize(message.content),
+      termCounts,
+      length: [...termCounts.values()].reduce((sum, count) => sum + count, 0)
+    });
+    termCounts.forEach((_count, term) => {
+      if (!postings.has(term)) postings.set(term, new Set());
+      postings.get(term)?.add(key);
+    });
+  };
+
+  const update = (sessions: ChatSession[]) => {
+    const liveKeys = new Set<string>();
+    sessions.forEach((session) => {
+      const previous = sessionsById.get(session.id);
+      sessionsById.set(session.id, session);
+      session.messages.forEach((message) => {
+        const key = `${session.id}:${message.id}`;
+        liveKeys.add(key);
+        if (previous === session && docs.has(key)) return;
+        const existing = docs.get(key);
+        if (existing && existing.message.content === message.content) {
+          existing.message = message;
+          return;
+        }
+        removeDoc(key);
+        addDoc(key, session.id, message);
+      });
+    });
+    [...docs.keys()].filter((key) => !liveKeys.has(key)).forEach(removeDoc);
+    const liveSessions = new Set(sessions.map((session) => session.id));
+    [...sessionsById.keys()].filter((id) => !liveSessions.has(id)).forEach((id) => sessionsById.delete(id));
+  };
+
+  const matchingKeys = (term: string, isPrefix: boolean) => {
+    if (!isPrefix) return postings.get(term) ?? new Set<string>();
+    const keys = new Set<string>();
+    postings.forEach((termKeys, candidate) => {
+      if (candidate.startsWith(term)) termKeys.forEach((key) => keys.add(key));
+    });
+    return keys;
+  };
+
+  /** Ranks sessions matching the query; results also honour the sidebar's view and tag filter. */
+  const search = (input: string, filter: SidebarFilter = DEFAULT_SIDEBAR_FILTER): SessionSearchResult[] => {
+    const query = parseQuery(input);
+    if (isEmptyQuery(query)) return [];
+    const sessionFilter = { ...filter, view: query.view ?? filter.view };
+    const isVisible = (session: ChatSession) =>
+      matchesSidebarFilter(session, sessionFilter) && query.tags.every((tag) => session.tags.includes(tag));
+
+    if (!hasMessageFilters(query)) {
+      return [...sessionsById.values()]
+        .filter(isVisible)
+        .sort((a, b) => (a.updatedAt > b.updatedAt ? -1 : 1))
+        .map((session) => ({ session, score: 0, titleMatch: false, hits: [] }));
+    }
+    // The last word is still being typed, so it matches as a prefix.
+    const lastTermIsPrefix = !/[\s"]$/.test(input);
+    const allTerms = [...query.terms, ...query.phrases.flatMap((phrase) => phrase.split(" "))];
+    const totalDocs = Math.max(docs.size, 1);
+
+    let candidates: Set<string> | null = null;
+    allTerms.forEach((term, index) => {
+      const isPrefix = lastTermIsPrefix && index === query.terms.length - 1 && !query.phrases.length;
+      const keys = matchingKeys(term, isPrefix);
+      candidates = candidates ? new Set([...candidates].filter((key) => keys.has(key))) : new Set(keys);
+    });
+    const pool: Iterable<string> = candidates ?? docs.keys();
+
+    const hitsBySession = new Map<string, SearchHit[]>();
+    for (const key of pool) {
+      const doc = docs.get(key);
+      if (!doc || !isVisible(sessionsById.get(doc.sessionId) as ChatSession)) continue;
+      const { message } = doc;
+      if (query.role && message.role !== query.role) continue;
+      const time = Date.parse(message.createdAt);
+      if (query.before !== null && time >= query.before) continue;
+      if (query.after !== null && time < query.after) continue;
+      if (!query.phrases.every((phrase) => doc.normalized.includes(phrase))) continue;
+
+      const score = allTerms.reduce((sum, term) => {
+        const frequency = doc.termCounts.get(term) ?? 1;
+        const idf = Math.log(1 + totalDocs / (postings.get(term)?.size ?? 1));
+        return sum + (frequency / Math.sqrt(doc.length || 1)) * idf;
+      }, query.phrases.length + (allTerms.length ? 0 : 1));
+      const hits = hitsBySession.get(doc.sessionId) ?? [];
+      const snippet = buildSnippet(message.content, query);
+      hits.push({ sessionId: doc.sessionId, messageId: message.id, role: message.role, score, ...snippet });
+      hitsBySession.set(doc.sessionId, hits);
+    }
+
+    const hasFilters = query.role || query.before !== null || query.after !== null;
+    const results: SessionSearchResult[] = [];
+    sessionsById.forEach((session) => {
+      if (!isVisible(session)) return;
+      const hits = (hitsBySession.get(session.id) ?? []).sort((a, b) => b.score - a.score);
+      const titleTerms = tokenize(session.title);
+      const titleMatch =
+        !hasFilters &&
+        allTerms.length > 0 &&
+        allTerms.every((term) => titleTerms.some((token) => token.startsWith(term))) &&
+        query.phrases.every((phrase) => normalize(session.title).includes(phrase));
+      if (!hits.length && !titleMatch) return;
+      const score = (titleMatch ? TITLE_BOOST : 0) + hits.reduce((sum, hit) => sum + hit.score, 0);
+      results.push({ session, score, titleMatch, hits: hits.slice(0, MAX_HITS_PER_SESSION) });
+    });
+    return results.sort((a, b) => b.score - a.score);
+  };
+
+  return { update, search };
+};
+
+export type SearchIndex = ReturnType<typeof createSearchIndex>;
+
+export { parseQuery } from "./query";
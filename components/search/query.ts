@@ -0,0 +1,66 @@
+import { normalizeTag } from "../library";
+import type { SidebarView } from "../library";
+import type { ChatRole } from "../types";
+
+export interface ParsedQuery {
+  terms: string[];
+  phrases: string[];
+  role: ChatRole | null;
+  before: number | null;
+  after: number | null;
+  tags: string[];
+  view: SidebarView | null;
+}
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+
+export const tokenize = (text: string) => text.toLowerCase().match(TOKEN_PATTERN) ?? [];
+
+const parseDate = (value: string) => {
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+};
+
+/**
+ * Splits a query into plain terms, "quoted phrases" and filters:
+ * `role:user|assistant`, `before:YYYY-MM-DD` and `after:YYYY-MM-DD` narrow the
+ * messages, while `tag:name` and `is:pinned|archived` narrow the sessions.
+ */
+export const parseQuery = (input: string): ParsedQuery => {
+  const query: ParsedQuery = { terms: [], phrases: [], role: null, before: null, after: null, tags: [], view: null };
+  const pattern = /"([^"]*)"?|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(input))) {
+    if (match[1] !== undefined) {
+      const phrase = tokenize(match[1]).join(" ");
+      if (phrase) query.phrases.push(phrase);
+      continue;
+    }
+    const word = match[2];
+    const [key, ...rest] = word.split(":");
+    const value = rest.join(":").toLowerCase();
+    if (key.toLowerCase() === "role" && (value === "user" || value === "assistant")) {
+      query.role = value;
+    } else if (key.toLowerCase() === "before" && parseDate(value) !== null) {
+      query.before = parseDate(value);
+    } else if (key.toLowerCase() === "after" && parseDate(value) !== null) {
+      query.after = parseDate(value);
+    } else if (key.toLowerCase() === "tag" && normalizeTag(value)) {
+      query.tags.push(normalizeTag(value));
+    } else if (key.toLowerCase() === "is" && (value === "pinned" || value === "archived")) {
+      query.view = value;
+    } else {
+      query.terms.push(...tokenize(word));
+    }
+  }
+  return query;
+};
+
+export const hasMessageFilters = (query: ParsedQuery) => {
+  const { terms, phrases, role, before, after } = query;
+  return Boolean(terms.length || phrases.length || role || before !== null || after !== null);
+};
+
+export const isEmptyQuery = (query: ParsedQuery) => {
+  return !hasMessageFilters(query) && !query.tags.length && !query.view;
+};
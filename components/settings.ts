@@ -0,0 +1,65 @@
+import { normalizeSessionSettings } from "./generationSettings";
+import type { SessionSettings } from "./types";
+
+export const SETTINGS_KEY = "chatgpt-local-settings";
+
+export interface WorkspaceSettings {
+  /** Ask the session's provider for a summary title after the first exchange. */
+  autoTitle: boolean;
+  /** Sent as a system prompt ahead of every conversation, before the persona's own prompt. */
+  customInstructions: string;
+  /** Generation settings copied into every new chat. */
+  defaultSessionSettings: SessionSettings;
+  /** Minutes without input before an encrypted workspace locks itself; 0 never locks. */
+  autoLockMinutes: number;
+  /** `voiceURI` of the voice messages are read aloud with; null uses the browser's default. */
+  speechVoice: string | null;
+  speechRate: number;
+}
+
+export const DEFAULT_SETTINGS: WorkspaceSettings = {
+  autoTitle: false,
+  customInstructions: "",
+  defaultSessionSettings: {},
+  autoLockMinutes: 15,
+  speechVoice: null,
+  speechRate: 1
+};
+
+export const AUTO_LOCK_OPTIONS = [5, 15, 30, 60, 0];
+
+export const SPEECH_RATE_OPTIONS = [0.75, 1, 1.25, 1.5, 2];
+
+export const readSettings = (): WorkspaceSettings => {
+  if (typeof window === "undefined") return DEFAULT_SETTINGS;
+  try {
+    const parsed: unknown = JSON.parse(window.localStorage.getItem(SETTINGS_KEY) ?? "{}");
+    const stored = parsed && typeof parsed === "object" ? (parsed as Partial<WorkspaceSettings>) : {};
+    return {
+      autoTitle: typeof stored.autoTitle === "boolean" ? stored.autoTitle : DEFAULT_SETTINGS.autoTitle,
+      customInstructions:
+        typeof stored.customInstructions === "string" ? stored.customInstructions : DEFAULT_SETTINGS.customInstructions,
+      defaultSessionSettings: normalizeSessionSettings(stored.defaultSessionSettings),
+      autoLockMinutes:
+        typeof stored.autoLockMinutes === "number" && stored.autoLockMinutes >= 0
+          ? stored.autoLockMinutes
+          : DEFAULT_SETTINGS.autoLockMinutes,
+      speechVoice: typeof stored.speechVoice === "string" ? stored.speechVoice : DEFAULT_SETTINGS.speechVoice,
+      speechRate: SPEECH_RATE_OPTIONS.includes(stored.speechRate as number)
+        ? (stored.speechRate as number)
+        : DEFAULT_SETTINGS.speechRate
+    };
+  } catch (error) {
+    console.warn("Failed to read workspace settings", error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const writeSettings = (settings: WorkspaceSettings) => {
+  if (typeof window === "undefined") return;
+  try {
+    window.localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn("Failed to persist workspace settings", error);
+  }
+};
@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { ChatSession } from "../types";
+import { ShareError, buildSharedChat, decodeSharedChat, encodeSharedChat } from "./index";
+
+// The module reaches base64 through `window`, which Node provides as globals.
+Object.assign(globalThis, { window: globalThis });
+
+const SHARED_AT = "2026-02-01T09:00:00.000Z";
+
+const session: ChatSession = {
+  id: "session-1",
+  title: "Trip ideas",
+  titleLocked: false,
+  messages: [
+    {
+      id: "m1",
+      role: "user",
+      content: "Where should I go? Here is my list.",
+      parentId: null,
+      status: "complete",
+      createdAt: "2026-02-01T08:00:00.000Z",
+      attachments: [
+        { id: "file-1", name: "list.txt", mimeType: "text/plain", size: 12, kind: "text", text: "Lisbon, Porto" }
+      ]
+    },
+    { id: "m2", role: "assistant", content: "Lisbon.", parentId: "m1", status: "complete", createdAt: SHARED_AT },
+    { id: "m3", role: "user", content: "My address is…", parentId: "m2", status: "complete", createdAt: SHARED_AT }
+  ],
+  currentNodeId: "m3",
+  provider: "echo",
+  personaId: null,
+  settings: {},
+  folderId: null,
+  tags: [],
+  pinned: false,
+  archived: false,
+  deletedAt: null,
+  createdAt: "2026-02-01T08:00:00.000Z",
+  updatedAt: SHARED_AT
+};
+
+/** Encodes a value the way a link is encoded, whether or not it is a valid shared chat. */
+const encodeRaw = (value: unknown) => encodeSharedChat(value as Parameters<typeof encodeSharedChat>[0]);
+
+describe("shared chat links", () => {
+  it("decode to the chat that was encoded", async () => {
+    const chat = buildSharedChat(session, new Set(["m3"]), SHARED_AT);
+    const decoded = await decodeSharedChat(await encodeSharedChat(chat));
+    assert.deepEqual(decoded, chat);
+    // Attached files travel by name only, and redacted messages without their content.
+    assert.equal("text" in (decoded.messages[0].attachments?.[0] ?? {}), false);
+    assert.deepEqual(decoded.messages[2], {
+      id: "m3",
+      role: "user",
+      content: "",
+      createdAt: SHARED_AT,
+      redacted: true
+    });
+  });
+
+  it("reject fragments that aren't a compressed chat", async () => {
+    await assert.rejects(decodeSharedChat("not-a-chat"), ShareError);
+  });
+
+  it("reject chats with messages the page can't render", async () => {
+    const chat = buildSharedChat(session, new Set(), SHARED_AT);
+    const tampered = [
+      { attachments: [null] },
+      { attachments: [{ id: "file-1", name: "list.txt", mimeType: "text/plain", size: "12", kind: "text" }] },
+      { attachments: [{ id: "file-1", name: "list.txt", mimeType: "text/plain", size: 12, kind: "video" }] },
+      { status: "deleted" },
+      { redacted: "yes" }
+    ];
+    for (const change of tampered) {
+      const fragment = await encodeRaw({ ...chat, messages: [{ ...chat.messages[0], ...change }] });
+      await assert.rejects(decodeSharedChat(fragment), ShareError, JSON.stringify(change));
+    }
+  });
+});
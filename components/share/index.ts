@@ -0,0 +1,142 @@
+import { getActivePath } from "../messageTree";
+import type { ChatAttachment, ChatMessage, ChatSession } from "../types";
+
+/*
+ * A shared chat travels entirely inside the link: the branch being viewed is
+ * serialised, deflated and base64url-encoded into the URL fragment, which
+ * browsers never send to the server. Anyone with the link can read it, and
+ * nothing has to be hosted or revoked. Attached files are listed by name only.
+ */
+
+export const SHARE_ROUTE_PATH = "/share";
+
+const SHARE_VERSION = 1;
+const COMPRESSION_FORMAT = "deflate-raw";
+
+export type SharedAttachment = Omit<ChatAttachment, "text">;
+
+export interface SharedMessage extends Pick<ChatMessage, "id" | "role" | "content" | "status" | "createdAt"> {
+  attachments?: SharedAttachment[];
+  /** Left out by the person sharing; `content` is empty. */
+  redacted?: boolean;
+}
+
+export interface SharedChat {
+  version: typeof SHARE_VERSION;
+  title: string;
+  sharedAt: string;
+  messages: SharedMessage[];
+}
+
+export class ShareError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ShareError";
+  }
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = "";
+  // Chunked so large payloads don't overflow the argument limit of fromCharCode.
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + 0x8000));
+  }
+  return window.btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const fromBase64Url = (text: string) =>
+  Uint8Array.from(window.atob(text.replace(/-/g, "+").replace(/_/g, "/")), (char) => char.charCodeAt(0));
+
+const transform = async (bytes: BlobPart, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+const MESSAGE_STATUSES: readonly unknown[] = ["streaming", "complete", "interrupted", "error"];
+
+// The fragment can be edited by hand, so everything the page renders is checked before it is trusted.
+const isSharedAttachment = (value: unknown): value is SharedAttachment => {
+  if (!value || typeof value !== "object") return false;
+  const { id, name, mimeType, size, kind } = value as Record<string, unknown>;
+  return (
+    isString(id) &&
+    isString(name) &&
+    isString(mimeType) &&
+    typeof size === "number" &&
+    (kind === "image" || kind === "text")
+  );
+};
+
+const isSharedMessage = (value: unknown): value is SharedMessage => {
+  if (!value || typeof value !== "object") return false;
+  const { id, role, content, status, createdAt, attachments, redacted } = value as Record<string, unknown>;
+  return (
+    isString(id) &&
+    (role === "user" || role === "assistant" || role === "system") &&
+    isString(content) &&
+    (status === undefined || MESSAGE_STATUSES.includes(status)) &&
+    isString(createdAt) &&
+    (attachments === undefined || (Array.isArray(attachments) && attachments.every(isSharedAttachment))) &&
+    (redacted === undefined || typeof redacted === "boolean")
+  );
+};
+
+const isSharedChat = (value: unknown): value is SharedChat => {
+  if (!value || typeof value !== "object") return false;
+  const { version, title, sharedAt, messages } = value as Record<string, unknown>;
+  return (
+    version === SHARE_VERSION &&
+    isString(title) &&
+    isString(sharedAt) &&
+    Array.isArray(messages) &&
+    messages.every(isSharedMessage)
+  );
+};
+
+/** The branch of `session` currently being viewed, with the messages in `redactedIds` blanked out. */
+export const buildSharedChat = (
+  session: ChatSession,
+  redactedIds: ReadonlySet<string> = new Set(),
+  sharedAt = new Date().toISOString()
+): SharedChat => ({
+  version: SHARE_VERSION,
+  title: session.title,
+  sharedAt,
+  messages: getActivePath(session)
+    .filter((message) => message.status !== "streaming")
+    .map(({ id, role, content, status, createdAt, attachments }) => {
+      if (redactedIds.has(id)) return { id, role, content: "", createdAt, redacted: true };
+      const shared: SharedMessage = { id, role, content, status, createdAt };
+      if (attachments?.length) {
+        shared.attachments = attachments.map(({ id: fileId, name, mimeType, size, kind }) => ({
+          id: fileId,
+          name,
+          mimeType,
+          size,
+          kind
+        }));
+      }
+      return shared;
+    })
+});
+
+export const encodeSharedChat = async (chat: SharedChat) =>
+  toBase64Url(await transform(encoder.encode(JSON.stringify(chat)), new CompressionStream(COMPRESSION_FORMAT)));
+
+export const decodeSharedChat = async (fragment: string) => {
+  let value: unknown;
+  try {
+    const bytes = await transform(fromBase64Url(fragment), new DecompressionStream(COMPRESSION_FORMAT));
+    value = JSON.parse(decoder.decode(bytes));
+  } catch (error) {
+    console.warn("Failed to decode shared chat", error);
+    throw new ShareError("This link is incomplete or damaged. Ask for it to be shared again.");
+  }
+  if (!isSharedChat(value)) throw new ShareError("This link was made by a different version of the app.");
+  return value;
+};
+
+export const buildShareUrl = (origin: string, encoded: string) => `${origin}${SHARE_ROUTE_PATH}#${encoded}`;
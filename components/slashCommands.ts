@@ -0,0 +1,70 @@
+import { EXPORT_FORMATS } from "./transfer";
+import type { ExportFormat } from "./transfer";
+import type { Persona, PromptTemplate } from "./types";
+
+export type SlashAction =
+  | { type: "new" }
+  | { type: "clear" }
+  | { type: "export"; format: ExportFormat }
+  | { type: "persona"; personaId: string | null }
+  | { type: "prompts" }
+  | { type: "template"; template: PromptTemplate };
+
+export interface SlashCommand {
+  id: string;
+  /** What is typed after the slash, e.g. "export markdown" or a template's name. */
+  command: string;
+  description: string;
+  action: SlashAction;
+}
+
+const MAX_DESCRIPTION_LENGTH = 60;
+
+const summarize = (content: string) => {
+  const line = content.trim().split("\n")[0] ?? "";
+  return line.length > MAX_DESCRIPTION_LENGTH ? `${line.slice(0, MAX_DESCRIPTION_LENGTH)}…` : line;
+};
+
+/** Saved templates come first, then the built-in commands. */
+export const buildSlashCommands = (personas: Persona[], templates: PromptTemplate[]): SlashCommand[] => [
+  ...templates.map((template) => ({
+    id: `template-${template.id}`,
+    command: template.name,
+    description: summarize(template.content),
+    action: { type: "template", template } as const
+  })),
+  { id: "new", command: "new", description: "Start a new chat", action: { type: "new" } },
+  { id: "clear", command: "clear", description: "Remove every message from this chat", action: { type: "clear" } },
+  ...EXPORT_FORMATS.map((format) => ({
+    id: `export-${format.id}`,
+    command: `export ${format.id}`,
+    description: `Download this chat as ${format.label}`,
+    action: { type: "export", format: format.id } as const
+  })),
+  {
+    id: "persona-none",
+    command: "persona none",
+    description: "Chat without a persona",
+    action: { type: "persona", personaId: null }
+  },
+  ...personas.map((persona) => ({
+    id: `persona-${persona.id}`,
+    command: `persona ${persona.name}`,
+    description: `Switch this chat to ${persona.name}`,
+    action: { type: "persona", personaId: persona.id } as const
+  })),
+  { id: "prompts", command: "prompts", description: "Manage saved prompts", action: { type: "prompts" } }
+];
+
+/** The text after a leading "/" while the composer holds a single line; null when no menu should open. */
+export const getSlashQuery = (input: string) => {
+  const match = /^\/([^\n]*)$/.exec(input);
+  return match ? match[1].trimStart().toLowerCase() : null;
+};
+
+/** Commands containing the query, those starting with it first. */
+export const matchSlashCommands = (commands: SlashCommand[], query: string) => {
+  const matches = commands.filter((item) => item.command.toLowerCase().includes(query));
+  const starts = (item: SlashCommand) => (item.command.toLowerCase().startsWith(query) ? 0 : 1);
+  return matches.sort((a, b) => starts(a) - starts(b));
+};
@@ -0,0 +1,197 @@
+/*
+ * Dictation and read-aloud through the Web Speech API. Recognition is still
+ * prefixed in Chromium and missing from Firefox, and some browsers ship
+ * speechSynthesis without any voices, so every entry point returns null when
+ * the feature is unavailable and callers hide the matching control.
+ */
+
+// Not part of TypeScript's DOM library yet; only the members used here.
+interface RecognitionAlternative {
+  transcript: string;
+}
+
+interface RecognitionResult {
+  readonly isFinal: boolean;
+  readonly length: number;
+  [index: number]: RecognitionAlternative;
+}
+
+interface RecognitionResultEvent {
+  readonly results: { readonly length: number; [index: number]: RecognitionResult };
+}
+
+interface Recognition {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: RecognitionResultEvent) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+type RecognitionConstructor = new () => Recognition;
+
+const RECOGNITION_ERRORS: Record<string, string> = {
+  "not-allowed": "Microphone access was blocked. Allow it in the browser to dictate.",
+  "service-not-allowed": "This browser doesn't allow dictation here.",
+  "audio-capture": "No microphone was found.",
+  "no-speech": "No speech was heard.",
+  network: "Dictation needs a network connection in this browser."
+};
+
+// Chromium stops speaking long utterances after about 15 seconds, so text is queued in pieces.
+const MAX_UTTERANCE_LENGTH = 200;
+
+const getRecognitionConstructor = (): RecognitionConstructor | null => {
+  if (typeof window === "undefined") return null;
+  const scope = window as unknown as Record<string, RecognitionConstructor | undefined>;
+  return scope.SpeechRecognition ?? scope.webkitSpeechRecognition ?? null;
+};
+
+export const isDictationSupported = () => getRecognitionConstructor() !== null;
+
+export const isSpeechSynthesisSupported = () =>
+  typeof window !== "undefined" && "speechSynthesis" in window && typeof SpeechSynthesisUtterance !== "undefined";
+
+export interface Dictation {
+  /** Stops listening once the speech heard so far is transcribed. */
+  stop(): void;
+  /** Stops at once and drops anything not yet transcribed. */
+  abort(): void;
+}
+
+type DictationOptions = {
+  /** Called with everything heard so far: the settled text and the guess for the words still being spoken. */
+  onTranscript: (finalText: string, interimText: string) => void;
+  /** `error` is a message to show, or null when dictation ended normally. */
+  onEnd: (error: string | null) => void;
+};
+
+/** Starts listening through the microphone, or returns null when the browser can't transcribe speech. */
+export const startDictation = ({ onTranscript, onEnd }: DictationOptions): Dictation | null => {
+  const RecognitionClass = getRecognitionConstructor();
+  if (!RecognitionClass) return null;
+  const recognition = new RecognitionClass();
+  let error: string | null = null;
+  let isAborted = false;
+
+  recognition.lang = document.documentElement.lang || navigator.language;
+  recognition.continuous = true;
+  recognition.interimResults = true;
+  recognition.onresult = (event) => {
+    if (isAborted) return;
+    let finalText = "";
+    let interimText = "";
+    for (let index = 0; index < event.results.length; index += 1) {
+      const result = event.results[index];
+      if (result.isFinal) finalText += result[0].transcript;
+      else interimText += result[0].transcript;
+    }
+    onTranscript(finalText.trim(), interimText.trim());
+  };
+  recognition.onerror = (event) => {
+    // Aborting reports an "aborted" error of its own, which isn't worth showing.
+    if (event.error === "aborted") return;
+    error = RECOGNITION_ERRORS[event.error] ?? "Dictation stopped unexpectedly.";
+  };
+  recognition.onend = () => onEnd(error);
+
+  try {
+    recognition.start();
+  } catch (startError) {
+    console.warn("Failed to start dictation", startError);
+    return null;
+  }
+  return {
+    stop: () => recognition.stop(),
+    abort: () => {
+      isAborted = true;
+      recognition.abort();
+    }
+  };
+};
+
+/** Markdown reduced to the words worth saying: code blocks are skipped and link targets dropped. */
+export const toSpokenText = (markdown: string) =>
+  markdown
+    .replace(/```[\s\S]*?(```|$)/g, " Code block omitted. ")
+    .replace(/\$\$[\s\S]*?\$\$/g, " Formula omitted. ")
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/`([^`]*)`/g, "$1")
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, "")
+    .replace(/(\*\*|__|\*|_|~~)(\S[\s\S]*?)\1/g, "$2")
+    .replace(/\|/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const splitForSpeech = (text: string) => {
+  const sentences = text.match(/[^.!?]+[.!?]*\s*/g) ?? [text];
+  return sentences.reduce<string[]>((chunks, sentence) => {
+    const last = chunks[chunks.length - 1];
+    if (last !== undefined && last.length + sentence.length <= MAX_UTTERANCE_LENGTH) {
+      chunks[chunks.length - 1] = last + sentence;
+    } else {
+      // A sentence without punctuation can still be too long; cut it at word boundaries.
+      const words = sentence.match(new RegExp(`.{1,${MAX_UTTERANCE_LENGTH}}(\\s|$)`, "g")) ?? [sentence];
+      chunks.push(...words);
+    }
+    return chunks;
+  }, []);
+};
+
+export const listVoices = () => (isSpeechSynthesisSupported() ? window.speechSynthesis.getVoices() : []);
+
+type SpeakOptions = {
+  /** `voiceURI` of the voice to use; the browser's default when missing or no longer installed. */
+  voice: string | null;
+  rate: number;
+  onEnd: () => void;
+};
+
+/**
+ * Reads `text` aloud, replacing anything already being read. Returns a function that stops it, or null when
+ * the browser can't speak.
+ */
+export const speak = (text: string, { voice, rate, onEnd }: SpeakOptions) => {
+  if (!isSpeechSynthesisSupported()) return null;
+  const synthesis = window.speechSynthesis;
+  const selectedVoice = listVoices().find((item) => item.voiceURI === voice) ?? null;
+  const chunks = splitForSpeech(text).filter((chunk) => chunk.trim());
+  let isStopped = false;
+
+  synthesis.cancel();
+  if (!chunks.length) {
+    onEnd();
+    return () => undefined;
+  }
+  chunks.forEach((chunk, index) => {
+    const utterance = new SpeechSynthesisUtterance(chunk);
+    utterance.voice = selectedVoice;
+    utterance.rate = rate;
+    if (selectedVoice) utterance.lang = selectedVoice.lang;
+    if (index === chunks.length - 1) {
+      utterance.onend = () => {
+        if (!isStopped) onEnd();
+      };
+    }
+    utterance.onerror = (event) => {
+      // Cancelling reports "interrupted" or "canceled"; only real failures are logged.
+      if (event.error !== "interrupted" && event.error !== "canceled") {
+        console.warn("Failed to read aloud", event.error);
+      }
+      if (!isStopped) {
+        isStopped = true;
+        synthesis.cancel();
+        onEnd();
+      }
+    };
+    synthesis.speak(utterance);
+  });
+  return () => {
+    isStopped = true;
+    synthesis.cancel();
+  };
+};
@@ -0,0 +1,18 @@
+import { VaultError } from "./vault";
+
+export const isQuotaError = (error: unknown) => {
+  return (
+    error instanceof DOMException &&
+    (error.name === "QuotaExceededError" || error.name === "NS_ERROR_DOM_QUOTA_REACHED")
+  );
+};
+
+export const describeStorageError = (error: unknown) => {
+  if (isQuotaError(error)) {
+    return "Browser storage is full, so recent changes are not saved yet. Export or delete old chats to free up space.";
+  }
+  if (error instanceof VaultError) {
+    return "Recent changes could not be saved because the encryption passphrase changed. Reload to unlock again.";
+  }
+  return "Recent changes could not be saved to browser storage. They will be retried automatically.";
+};
@@ -0,0 +1,215 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { ChatMessage, ChatSession } from "../types";
+import { createSessionPersister } from "./index";
+import type { SessionStore } from "./index";
+
+/*
+ * Two tabs are simulated as two persisters over one in-memory store. Each tab
+ * keeps its own session list, which the persister updates through `onSync`
+ * exactly as it updates the chat core in the app. Other tabs' writes are
+ * picked up by calling `refresh`, as the storage event handler does.
+ */
+
+const at = (minute: number) => new Date(Date.UTC(2026, 0, 1, 10, minute)).toISOString();
+
+const buildMessage = (id: string, parentId: string | null, minute: number): ChatMessage => ({
+  id,
+  role: parentId === null || id.startsWith("u") ? "user" : "assistant",
+  content: `Message ${id}`,
+  parentId,
+  status: "complete",
+  createdAt: at(minute)
+});
+
+const buildSession = (id: string, messages: ChatMessage[], minute: number): ChatSession => ({
+  id,
+  title: `Chat ${id}`,
+  titleLocked: true,
+  messages,
+  currentNodeId: messages[messages.length - 1]?.id ?? null,
+  provider: "echo",
+  personaId: null,
+  settings: {},
+  folderId: null,
+  tags: [],
+  pinned: false,
+  archived: false,
+  deletedAt: null,
+  createdAt: at(0),
+  updatedAt: at(minute)
+});
+
+const appendMessage = (session: ChatSession, message: ChatMessage): ChatSession => ({
+  ...session,
+  messages: [...session.messages, message],
+  currentNodeId: message.id,
+  updatedAt: message.createdAt
+});
+
+const createSharedStore = () => {
+  const records = new Map<string, ChatSession>();
+  let failuresLeft = 0;
+
+  const store: SessionStore = {
+    kind: "localStorage",
+    load: async () => ({ sessions: [...records.values()], quarantined: [] }),
+    async save(changed, deletedIds, resolve = (local) => local) {
+      if (failuresLeft > 0) {
+        failuresLeft -= 1;
+        throw new Error("The disk is full");
+      }
+      const written = changed.map((session) => resolve(session, records.get(session.id) ?? null));
+      written.forEach((session) => records.set(session.id, session));
+      deletedIds.forEach((id) => records.delete(id));
+      return written;
+    },
+    putAttachments: async () => undefined,
+    getAttachment: async () => null,
+    loadQuarantine: async () => [],
+    rekey: async () => undefined,
+    subscribe: () => () => undefined
+  };
+
+  return {
+    store,
+    records,
+    failNextSaves(count: number) {
+      failuresLeft = count;
+    }
+  };
+};
+
+const openTab = (store: SessionStore, sessions: ChatSession[]) => {
+  const tab = {
+    sessions,
+    errors: [] as (string | null)[],
+    persister: createSessionPersister(
+      store,
+      (error) => tab.errors.push(error),
+      (update) => {
+        tab.sessions = update(tab.sessions);
+      }
+    ),
+    save: () => tab.persister.persist(tab.sessions),
+    edit(sessionId: string, update: (session: ChatSession) => ChatSession) {
+      tab.sessions = tab.sessions.map((session) => (session.id === sessionId ? update(session) : session));
+    }
+  };
+  tab.persister.prime(sessions);
+  return tab;
+};
+
+/** Both tabs opened on the same stored chat: a question and its answer. */
+const openTwoTabs = () => {
+  const shared = createSharedStore();
+  const session = buildSession("s1", [buildMessage("u1", null, 1), buildMessage("a1", "u1", 2)], 2);
+  shared.records.set(session.id, session);
+  return { shared, first: openTab(shared.store, [session]), second: openTab(shared.store, [session]) };
+};
+
+const findSession = (sessions: ChatSession[], id = "s1") => sessions.find((session) => session.id === id);
+
+const messageIds = (session: ChatSession | undefined) => session?.messages.map((message) => message.id) ?? [];
+
+describe("createSessionPersister with two tabs", () => {
+  it("keeps messages sent from both tabs at once as sibling branches", async () => {
+    const { shared, first, second } = openTwoTabs();
+    first.edit("s1", (session) => appendMessage(session, buildMessage("u-first", "a1", 3)));
+    second.edit("s1", (session) => appendMessage(session, buildMessage("u-second", "a1", 4)));
+
+    await Promise.all([first.save(), second.save()]);
+    await first.persister.refresh();
+
+    const stored = shared.records.get("s1");
+    assert.deepEqual(messageIds(stored), ["u1", "a1", "u-first", "u-second"]);
+    const branches = stored?.messages.filter((message) => message.parentId === "a1");
+    assert.deepEqual(
+      branches?.map((message) => message.id),
+      ["u-first", "u-second"]
+    );
+    // The tab that wrote second got the merged copy back, the other one picked it up on refresh.
+    assert.deepEqual(messageIds(findSession(second.sessions)), messageIds(stored));
+    assert.deepEqual(messageIds(findSession(first.sessions)), messageIds(stored));
+    assert.deepEqual(first.errors, [null]);
+    assert.deepEqual(second.errors, [null]);
+  });
+
+  it("brings a chat back when another tab edited it after it was deleted", async () => {
+    const { shared, first, second } = openTwoTabs();
+    first.sessions = [];
+    second.edit("s1", (session) => appendMessage(session, buildMessage("u2", "a1", 3)));
+
+    await first.save();
+    assert.equal(shared.records.has("s1"), false);
+    await second.save();
+    await first.persister.refresh();
+
+    assert.deepEqual(messageIds(shared.records.get("s1")), ["u1", "a1", "u2"]);
+    assert.deepEqual(messageIds(findSession(first.sessions)), ["u1", "a1", "u2"]);
+  });
+
+  it("drops a chat in the other tab when it is deleted after that tab's last edit was stored", async () => {
+    const { shared, first, second } = openTwoTabs();
+    second.edit("s1", (session) => appendMessage(session, buildMessage("u2", "a1", 3)));
+    await second.save();
+    await first.persister.refresh();
+    first.sessions = [];
+    await first.save();
+    await second.persister.refresh();
+
+    assert.equal(shared.records.has("s1"), false);
+    assert.equal(findSession(second.sessions), undefined);
+  });
+
+  it("lets the newer updatedAt win when both tabs change the same field", async () => {
+    const { shared, first, second } = openTwoTabs();
+    first.edit("s1", (session) => ({ ...session, title: "Older rename", folderId: "work", updatedAt: at(5) }));
+    second.edit("s1", (session) => ({ ...session, title: "Newer rename", updatedAt: at(6) }));
+
+    // The newer change is written first, so the older tab's write is the one that conflicts.
+    await second.save();
+    await first.save();
+    await second.persister.refresh();
+
+    const stored = shared.records.get("s1");
+    assert.equal(stored?.title, "Newer rename");
+    // A field only one side changed survives either way.
+    assert.equal(stored?.folderId, "work");
+    assert.equal(findSession(first.sessions)?.title, "Newer rename");
+    assert.equal(findSession(second.sessions)?.folderId, "work");
+  });
+
+  it("merges edits made while a conflicting write was in flight and saves them next time", async () => {
+    const { shared, first, second } = openTwoTabs();
+    second.edit("s1", (session) => appendMessage(session, buildMessage("u-second", "a1", 3)));
+    await second.save();
+
+    first.edit("s1", (session) => appendMessage(session, buildMessage("u-first", "a1", 4)));
+    const write = first.save();
+    // A reply streams in before the conflicting write has finished.
+    first.edit("s1", (session) => appendMessage(session, buildMessage("a-first", "u-first", 5)));
+    await write;
+
+    assert.deepEqual(messageIds(findSession(first.sessions)), ["u1", "a1", "u-second", "u-first", "a-first"]);
+    assert.deepEqual(messageIds(shared.records.get("s1")), ["u1", "a1", "u-second", "u-first"]);
+
+    await first.save();
+    assert.deepEqual(messageIds(shared.records.get("s1")), ["u1", "a1", "u-second", "u-first", "a-first"]);
+    assert.equal(findSession(first.sessions)?.currentNodeId, "a-first");
+  });
+
+  it("retries changes from a failed write with the next one", async () => {
+    const { shared, first } = openTwoTabs();
+    shared.failNextSaves(1);
+    first.edit("s1", (session) => appendMessage(session, buildMessage("u2", "a1", 3)));
+
+    await first.save();
+    assert.equal(typeof first.errors[0], "string");
+    assert.deepEqual(messageIds(shared.records.get("s1")), ["u1", "a1"]);
+
+    await first.save();
+    assert.equal(first.errors[1], null);
+    assert.deepEqual(messageIds(shared.records.get("s1")), ["u1", "a1", "u2"]);
+  });
+});
@@ -0,0 +1,148 @@
+import type { ChatSession } from "../types";
+import { describeStorageError } from "./errors";
+import { createIndexedDbSessionStore, isIndexedDbAvailable } from "./indexedDbStore";
+import { createLocalStorageSessionStore } from "./localStorageStore";
+import { mergeSession, reconcileSessions } from "./merge";
+import type { QuarantinedRecord } from "./schema";
+
+export interface LoadResult {
+  sessions: ChatSession[];
+  /** Records set aside during this load because they failed validation. */
+  quarantined: QuarantinedRecord[];
+}
+
+/** Decides what to write for `local` given the copy currently in storage (null when there is none). */
+export type ConflictResolver = (local: ChatSession, stored: ChatSession | null) => ChatSession;
+
+export interface StoredAttachment {
+  id: string;
+  blob: Blob;
+}
+
+export interface SessionStore {
+  kind: "indexedDB" | "localStorage";
+  /** Reads every session, upgrading old records to the current schema version. */
+  load(): Promise<LoadResult>;
+  /**
+   * Writes only the sessions that changed; rejects rather than dropping anything when storage is full.
+   * Each stored copy is read and passed through `resolve` in the same write, and the sessions as
+   * written are returned in the order of `changed`.
+   */
+  save(changed: ChatSession[], deletedIds: string[], resolve?: ConflictResolver): Promise<ChatSession[]>;
+  /** Stores attachment files for `sessionId`; they are deleted together with the session. */
+  putAttachments(sessionId: string, attachments: StoredAttachment[]): Promise<void>;
+  getAttachment(id: string): Promise<Blob | null>;
+  loadQuarantine(): Promise<QuarantinedRecord[]>;
+  /** Rewrites everything stored under `nextKey`, or in plain form for null, and keeps using it. */
+  rekey(nextKey: CryptoKey | null): Promise<void>;
+  /** Notifies when another tab has written to the store. */
+  subscribe(listener: () => void): () => void;
+}
+
+/** Opens the store; with a `key` from an unlocked vault everything it writes is encrypted. */
+export const openSessionStore = async (key: CryptoKey | null = null): Promise<SessionStore> => {
+  if (isIndexedDbAvailable()) {
+    try {
+      return await createIndexedDbSessionStore(key);
+    } catch (error) {
+      console.warn("IndexedDB is unavailable, falling back to localStorage", error);
+    }
+  }
+  return createLocalStorageSessionStore(key);
+};
+
+type SessionUpdate = (current: ChatSession[]) => ChatSession[];
+
+/**
+ * Serialises writes to a store and sends only what changed since the last
+ * successful write. A failed write leaves the baseline untouched, so the same
+ * changes are retried with the next persist call.
+ *
+ * The baseline is also the common ancestor for merging with other tabs: a
+ * write merges with a stored copy another tab changed in the meantime, and
+ * `refresh` folds in what other tabs stored. Either way the merged sessions
+ * reach the app through `onSync` so they replace the stale local copies.
+ */
+export const createSessionPersister = (
+  store: SessionStore,
+  onResult: (error: string | null) => void,
+  onSync: (update: SessionUpdate) => void = () => undefined
+) => {
+  let saved = new Map<string, ChatSession>();
+  let queue = Promise.resolve();
+
+  const resolveConflict: ConflictResolver = (local, stored) => {
+    const base = saved.get(local.id);
+    return stored ? mergeSession(base, local, stored) : local;
+  };
+
+  return {
+    prime(sessions: ChatSession[]) {
+      saved = new Map(sessions.map((session) => [session.id, session]));
+    },
+    persist(sessions: ChatSession[]) {
+      queue = queue.then(async () => {
+        const ids = new Set(sessions.map((session) => session.id));
+        const changed = sessions.filter((session) => saved.get(session.id) !== session);
+        const deletedIds = [...saved.keys()].filter((id) => !ids.has(id));
+        if (!changed.length && !deletedIds.length) return;
+        try {
+          const written = await store.save(changed, deletedIds, resolveConflict);
+          saved = new Map(sessions.map((session) => [session.id, session]));
+          const merged = new Map<string, { local: ChatSession; written: ChatSession }>();
+          written.forEach((session, index) => {
+            saved.set(session.id, session);
+            if (session !== changed[index]) merged.set(session.id, { local: changed[index], written: session });
+          });
+          onResult(null);
+          if (merged.size) {
+            // Edits made while the write was in flight are merged on top of what was written.
+            onSync((current) =>
+              current.map((session) => {
+                const entry = merged.get(session.id);
+                if (!entry) return session;
+                return session === entry.local ? entry.written : mergeSession(entry.local, session, entry.written);
+              })
+            );
+          }
+        } catch (error) {
+          console.warn("Failed to write chat sessions", error);
+          onResult(describeStorageError(error));
+        }
+      });
+      return queue;
+    },
+    /** Runs `task` once queued writes have finished and before any later ones start. */
+    runExclusive<T>(task: () => Promise<T>): Promise<T> {
+      const result = queue.then(task);
+      queue = result.then(
+        () => undefined,
+        () => undefined
+      );
+      return result;
+    },
+    /** Reloads the store after another tab wrote to it and merges the result into the app's sessions. */
+    refresh() {
+      queue = queue.then(async () => {
+        try {
+          const { sessions: stored } = await store.load();
+          const base = saved;
+          saved = new Map(stored.map((session) => [session.id, session]));
+          onSync((current) => reconcileSessions(base, current, stored));
+        } catch (error) {
+          console.warn("Failed to reload chat sessions from storage", error);
+        }
+      });
+      return queue;
+    }
+  };
+};
+
+export type SessionPersister = ReturnType<typeof createSessionPersister>;
+
+export { isQuotaError } from "./errors";
+export { mergeSession, reconcileSessions } from "./merge";
+export { VAULT_KEY, VaultError, createVault, readVaultHeader, unlockVault, writeVaultHeader } from "./vault";
+export type { VaultHeader } from "./vault";
+export { CURRENT_SCHEMA_VERSION, MIGRATIONS, migrateRecord, sanitizeSessions, validateSession } from "./schema";
+export type { Migration, QuarantinedRecord } from "./schema";
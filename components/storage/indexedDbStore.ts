@@ -0,0 +1,339 @@
+import type { ChatSession } from "../types";
+import type { SessionStore } from "./index";
+import { LEGACY_STORAGE_KEY, readLegacySessions } from "./localStorageStore";
+import { sanitizeSessions, toStoredSession, upgradeSessionRecord } from "./schema";
+import type { QuarantinedRecord, StoredRecord } from "./schema";
+import { VaultError, isSealedData, openBytes, openJson, sealBytes, sealJson } from "./vault";
+import type { SealedData } from "./vault";
+
+const DB_NAME = "chatgpt-local";
+const DB_VERSION = 3;
+const SESSION_STORE = "sessions";
+const META_STORE = "meta";
+const QUARANTINE_STORE = "quarantine";
+const ATTACHMENT_STORE = "attachments";
+const ATTACHMENT_SESSION_INDEX = "sessionId";
+const LEGACY_MIGRATION_KEY = "migratedFromLocalStorage";
+const CHANNEL_NAME = "chatgpt-local-sessions";
+// Writes retry when another tab changed a record between the read and the write.
+const MAX_SAVE_ATTEMPTS = 5;
+
+/** An encrypted session; only the id stays readable because it is the record's key. */
+interface SealedRecord {
+  id: string;
+  sealed: SealedData;
+}
+
+interface AttachmentRecord {
+  id: string;
+  sessionId: string;
+  createdAt: string;
+  blob?: Blob;
+  /** Encrypted file contents with their MIME type, instead of `blob`. */
+  sealed?: SealedData;
+  type?: string;
+}
+
+const isSealedRecord = (record: unknown): record is SealedRecord =>
+  Boolean(record) && typeof record === "object" && isSealedData((record as SealedRecord).sealed);
+
+const sameBytes = (a: Uint8Array, b: Uint8Array) =>
+  a.length === b.length && a.every((byte, index) => byte === b[index]);
+
+/** Whether a record is still the one read earlier; a fresh IV means it was sealed again. */
+const isSameRecord = (current: unknown, previous: unknown) => {
+  if (current === undefined || previous === undefined) return current === previous;
+  if (isSealedRecord(current) || isSealedRecord(previous)) {
+    return isSealedRecord(current) && isSealedRecord(previous) && sameBytes(current.sealed.iv, previous.sealed.iv);
+  }
+  return JSON.stringify(current) === JSON.stringify(previous);
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new DOMException("Transaction aborted", "AbortError"));
+  });
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SESSION_STORE)) {
+        db.createObjectStore(SESSION_STORE, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE);
+      }
+      if (!db.objectStoreNames.contains(QUARANTINE_STORE)) {
+        db.createObjectStore(QUARANTINE_STORE, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(ATTACHMENT_STORE)) {
+        const attachments = db.createObjectStore(ATTACHMENT_STORE, { keyPath: "id" });
+        attachments.createIndex(ATTACHMENT_SESSION_INDEX, "sessionId");
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error("The chat database is blocked by another open tab"));
+  });
+
+/**
+ * Copies the single localStorage blob into per-session records once. The old
+ * key is only removed after the copy has committed and every session is readable.
+ */
+const migrateFromLocalStorage = async (db: IDBDatabase) => {
+  const check = db.transaction(META_STORE, "readonly");
+  const migrated = await requestToPromise(check.objectStore(META_STORE).get(LEGACY_MIGRATION_KEY));
+  if (migrated) return;
+
+  let legacySessions: StoredRecord[];
+  try {
+    legacySessions = readLegacySessions().filter(
+      (record): record is StoredRecord => Boolean(record && typeof record === "object")
+    );
+  } catch (error) {
+    // Leave an unreadable blob in place so it can still be recovered by hand.
+    console.warn("Skipping migration of unreadable chat sessions", error);
+    return;
+  }
+  const transaction = db.transaction([SESSION_STORE, META_STORE], "readwrite");
+  const sessions = transaction.objectStore(SESSION_STORE);
+  // Records keep their original schema version; load() upgrades or quarantines them.
+  legacySessions.forEach((session) => {
+    if (typeof session.id === "string" && session.id) {
+      sessions.put(session);
+    }
+  });
+  transaction.objectStore(META_STORE).put(new Date().toISOString(), LEGACY_MIGRATION_KEY);
+  await transactionDone(transaction);
+
+  const verify = db.transaction(SESSION_STORE, "readonly");
+  const storedKeys = new Set(await requestToPromise(verify.objectStore(SESSION_STORE).getAllKeys()));
+  if (legacySessions.every((session) => typeof session.id === "string" && storedKeys.has(session.id))) {
+    window.localStorage.removeItem(LEGACY_STORAGE_KEY);
+  }
+};
+
+export const isIndexedDbAvailable = () => typeof window !== "undefined" && "indexedDB" in window;
+
+/**
+ * With a `key`, sessions, attachments and quarantined records are sealed
+ * before they are written. Reads accept plain records too (a tab that hasn't
+ * locked yet may still write them), but a sealed record that can't be opened
+ * fails the read instead of being quarantined, so it is never overwritten.
+ */
+export const createIndexedDbSessionStore = async (initialKey: CryptoKey | null = null): Promise<SessionStore> => {
+  const db = await openDatabase();
+  await migrateFromLocalStorage(db);
+  const channel = typeof BroadcastChannel === "undefined" ? null : new BroadcastChannel(CHANNEL_NAME);
+  let key = initialKey;
+
+  const openRecord = async (record: unknown, withKey = key) => {
+    if (!isSealedRecord(record)) return record;
+    if (!withKey) throw new VaultError("Saved chats are encrypted and the workspace is locked.");
+    return openJson(withKey, record.sealed);
+  };
+
+  const sealRecord = async (record: unknown, withKey = key): Promise<unknown> => {
+    const { id } = record as StoredRecord;
+    return withKey && typeof id === "string" ? { id, sealed: await sealJson(withKey, record) } : record;
+  };
+
+  const sealQuarantined = async (entry: QuarantinedRecord, withKey = key): Promise<QuarantinedRecord> =>
+    withKey ? { ...entry, record: { sealed: await sealJson(withKey, entry.record) } } : entry;
+
+  const openQuarantined = async (entry: QuarantinedRecord, withKey = key): Promise<QuarantinedRecord> =>
+    isSealedRecord(entry.record) ? { ...entry, record: await openRecord(entry.record, withKey) } : entry;
+
+  const readAttachmentBytes = async (record: AttachmentRecord, withKey = key) => {
+    if (record.sealed) {
+      if (!withKey) throw new VaultError("Saved files are encrypted and the workspace is locked.");
+      return openBytes(withKey, record.sealed);
+    }
+    return record.blob ? record.blob.arrayBuffer() : new ArrayBuffer(0);
+  };
+
+  const sealAttachment = async (record: AttachmentRecord, bytes: ArrayBuffer, type: string, withKey = key) => {
+    const { id, sessionId, createdAt } = record;
+    return withKey
+      ? { id, sessionId, createdAt, type, sealed: await sealBytes(withKey, bytes) }
+      : { id, sessionId, createdAt, blob: new Blob([bytes], { type }) };
+  };
+
+  const readSessionRecords = async (ids: string[]) => {
+    const transaction = db.transaction(SESSION_STORE, "readonly");
+    const store = transaction.objectStore(SESSION_STORE);
+    return Promise.all(ids.map((id) => requestToPromise(store.get(id) as IDBRequest<unknown>)));
+  };
+
+  const toStoredCopy = async (record: unknown): Promise<ChatSession | null> => {
+    if (record === undefined) return null;
+    const upgraded = upgradeSessionRecord(await openRecord(record));
+    return upgraded.ok ? upgraded.session : null;
+  };
+
+  return {
+    kind: "indexedDB",
+    async load() {
+      const read = db.transaction(SESSION_STORE, "readonly");
+      const raw = await requestToPromise(read.objectStore(SESSION_STORE).getAll() as IDBRequest<unknown[]>);
+      const records = await Promise.all(raw.map((record) => openRecord(record)));
+      const { sessions, upgradedIds, quarantined } = sanitizeSessions(records);
+      if (!upgradedIds.length && !quarantined.length) return { sessions, quarantined };
+
+      const upgraded = new Set(upgradedIds);
+      const rawById = new Map(raw.map((record, index) => [(records[index] as StoredRecord | null)?.id, record]));
+      const rewrites = await Promise.all(
+        sessions.filter((session) => upgraded.has(session.id)).map((session) => sealRecord(toStoredSession(session)))
+      );
+      const sealedQuarantine = await Promise.all(quarantined.map((entry) => sealQuarantined(entry)));
+
+      const transaction = db.transaction([SESSION_STORE, QUARANTINE_STORE], "readwrite");
+      const store = transaction.objectStore(SESSION_STORE);
+      // A record another tab rewrote since the read above is left alone.
+      const whenUnchanged = (id: unknown, write: () => void) => {
+        if (typeof id !== "string" && typeof id !== "number") return;
+        const request = store.get(id);
+        request.onsuccess = () => {
+          if (isSameRecord(request.result, rawById.get(id as string))) write();
+        };
+      };
+      rewrites.forEach((record) => {
+        const { id } = record as StoredRecord;
+        whenUnchanged(id, () => store.put(record));
+      });
+      // Moving a record to quarantine happens in the same transaction, so it is never only deleted.
+      const quarantine = transaction.objectStore(QUARANTINE_STORE);
+      sealedQuarantine.forEach((entry, index) => {
+        const id = (quarantined[index].record as StoredRecord | null)?.id;
+        whenUnchanged(id, () => {
+          quarantine.put(entry);
+          store.delete(id as string);
+        });
+      });
+      await transactionDone(transaction);
+      return { sessions, quarantined };
+    },
+    async save(changed, deletedIds, resolve = (local) => local) {
+      if (!changed.length && !deletedIds.length) return [];
+      const ids = changed.map((session) => session.id);
+      for (let attempt = 1; ; attempt += 1) {
+        // Sealing is asynchronous and would end an open transaction, so the merge happens between
+        // a read and a write that only goes ahead if no other tab wrote these sessions in between.
+        const previous = await readSessionRecords(ids);
+        const stored = await Promise.all(previous.map(toStoredCopy));
+        const written = changed.map((session, index) => resolve(session, stored[index]));
+        const records = await Promise.all(written.map((session) => sealRecord(toStoredSession(session))));
+
+        const transaction = db.transaction([SESSION_STORE, ATTACHMENT_STORE], "readwrite");
+        const store = transaction.objectStore(SESSION_STORE);
+        const attachments = transaction.objectStore(ATTACHMENT_STORE);
+        let isStale = false;
+        ids.forEach((id, index) => {
+          const request = store.get(id);
+          request.onsuccess = () => {
+            if (isStale) return;
+            if (!isSameRecord(request.result, previous[index])) {
+              isStale = true;
+              transaction.abort();
+              return;
+            }
+            store.put(records[index]);
+          };
+        });
+        deletedIds.forEach((id) => {
+          store.delete(id);
+          const request = attachments.index(ATTACHMENT_SESSION_INDEX).getAllKeys(id);
+          request.onsuccess = () => request.result.forEach((attachmentKey) => attachments.delete(attachmentKey));
+        });
+        try {
+          await transactionDone(transaction);
+        } catch (error) {
+          if (isStale && attempt < MAX_SAVE_ATTEMPTS) continue;
+          throw error;
+        }
+        channel?.postMessage({ type: "sessions-changed" });
+        return written;
+      }
+    },
+    async putAttachments(sessionId, items) {
+      if (!items.length) return;
+      const createdAt = new Date().toISOString();
+      const records = await Promise.all(
+        items.map(async ({ id, blob }) =>
+          key
+            ? sealAttachment({ id, sessionId, createdAt }, await blob.arrayBuffer(), blob.type)
+            : { id, sessionId, blob, createdAt }
+        )
+      );
+      const transaction = db.transaction(ATTACHMENT_STORE, "readwrite");
+      const store = transaction.objectStore(ATTACHMENT_STORE);
+      records.forEach((record) => store.put(record));
+      await transactionDone(transaction);
+    },
+    async getAttachment(id) {
+      const transaction = db.transaction(ATTACHMENT_STORE, "readonly");
+      const record = await requestToPromise(
+        transaction.objectStore(ATTACHMENT_STORE).get(id) as IDBRequest<AttachmentRecord | undefined>
+      );
+      if (!record) return null;
+      if (!record.sealed) return record.blob ?? null;
+      return new Blob([await readAttachmentBytes(record)], { type: record.type ?? "" });
+    },
+    async loadQuarantine() {
+      const transaction = db.transaction(QUARANTINE_STORE, "readonly");
+      const entries = await requestToPromise(
+        transaction.objectStore(QUARANTINE_STORE).getAll() as IDBRequest<QuarantinedRecord[]>
+      );
+      return Promise.all(entries.map((entry) => openQuarantined(entry)));
+    },
+    async rekey(nextKey) {
+      const read = db.transaction([SESSION_STORE, ATTACHMENT_STORE, QUARANTINE_STORE], "readonly");
+      const [sessionRecords, attachmentRecords, quarantineEntries] = await Promise.all([
+        requestToPromise(read.objectStore(SESSION_STORE).getAll() as IDBRequest<unknown[]>),
+        requestToPromise(read.objectStore(ATTACHMENT_STORE).getAll() as IDBRequest<AttachmentRecord[]>),
+        requestToPromise(read.objectStore(QUARANTINE_STORE).getAll() as IDBRequest<QuarantinedRecord[]>)
+      ]);
+      // Everything is opened before anything is written, so a record the current key can't read aborts the change.
+      const sessions = await Promise.all(
+        sessionRecords.map(async (record) => sealRecord(await openRecord(record), nextKey))
+      );
+      const attachments = await Promise.all(
+        attachmentRecords.map(async (record) =>
+          sealAttachment(record, await readAttachmentBytes(record), record.type ?? record.blob?.type ?? "", nextKey)
+        )
+      );
+      const quarantine = await Promise.all(
+        quarantineEntries.map(async (entry) => sealQuarantined(await openQuarantined(entry), nextKey))
+      );
+
+      const transaction = db.transaction([SESSION_STORE, ATTACHMENT_STORE, QUARANTINE_STORE], "readwrite");
+      const writeAll = (name: string, records: unknown[]) => {
+        const store = transaction.objectStore(name);
+        store.clear();
+        records.forEach((record) => store.put(record));
+      };
+      writeAll(SESSION_STORE, sessions);
+      writeAll(ATTACHMENT_STORE, attachments);
+      writeAll(QUARANTINE_STORE, quarantine);
+      await transactionDone(transaction);
+      key = nextKey;
+      channel?.postMessage({ type: "sessions-changed" });
+    },
+    subscribe(listener) {
+      if (!channel) return () => undefined;
+      const handler = () => listener();
+      channel.addEventListener("message", handler);
+      return () => channel.removeEventListener("message", handler);
+    }
+  };
+};
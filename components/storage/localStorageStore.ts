@@ -0,0 +1,170 @@
+import { readBlobAsDataUrl } from "../attachments";
+import type { ChatSession } from "../types";
+import type { SessionStore } from "./index";
+import { sanitizeSessions, toStoredSession } from "./schema";
+import type { QuarantinedRecord } from "./schema";
+import { VaultError, decodeSealed, encodeSealed, openJson, sealJson } from "./vault";
+
+export const LEGACY_STORAGE_KEY = "chatgpt-local-sessions-v1";
+const QUARANTINE_KEY = "chatgpt-local-quarantine";
+const ATTACHMENT_KEY_PREFIX = "chatgpt-local-attachment:";
+// Saves retry when another tab replaced the blob while this one was sealing its copy.
+const MAX_SAVE_ATTEMPTS = 5;
+
+export const readLegacySessions = (): unknown[] => {
+  const raw = window.localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!raw) return [];
+  const parsed = JSON.parse(raw);
+  return Array.isArray(parsed) ? parsed : [];
+};
+
+/**
+ * Fallback for browsers without IndexedDB. Everything still lives in one JSON
+ * blob, but a failed write is reported to the caller instead of trimming history.
+ * Every save re-reads the blob so sessions written by other tabs are kept.
+ * With a `key` the blob, the quarantine and every attachment are sealed strings.
+ */
+export const createLocalStorageSessionStore = (initialKey: CryptoKey | null = null): SessionStore => {
+  let key = initialKey;
+  // Invalid records that couldn't be moved to quarantine stay in the blob untouched.
+  let retained: unknown[] = [];
+
+  const openText = async (text: string, withKey = key): Promise<unknown> => {
+    const sealed = decodeSealed(text);
+    if (!sealed) return text;
+    if (!withKey) throw new VaultError("Saved chats are encrypted and the workspace is locked.");
+    return openJson(withKey, sealed);
+  };
+
+  const sealText = async (value: string, withKey = key) =>
+    withKey ? encodeSealed(await sealJson(withKey, value)) : value;
+
+  const readJsonItem = async (storageKey: string, withKey = key) => {
+    const text = window.localStorage.getItem(storageKey);
+    const opened = text ? await openText(text, withKey) : null;
+    return { text, value: typeof opened === "string" ? (JSON.parse(opened) as unknown) : null };
+  };
+
+  const readSessionsBlob = async () => {
+    const { text, value } = await readJsonItem(LEGACY_STORAGE_KEY);
+    return { text, records: Array.isArray(value) ? value : [] };
+  };
+
+  const readQuarantine = async (withKey = key) => {
+    const { value } = await readJsonItem(QUARANTINE_KEY, withKey);
+    return Array.isArray(value) ? (value as QuarantinedRecord[]) : [];
+  };
+
+  const serializeSessions = (sessions: Iterable<ChatSession>, withKey = key) =>
+    sealText(JSON.stringify([...[...sessions].map(toStoredSession), ...retained]), withKey);
+
+  return {
+    kind: "localStorage",
+    async load() {
+      const { text, records } = await readSessionsBlob();
+      const { sessions, upgradedIds, quarantined } = sanitizeSessions(records);
+      retained = [];
+
+      if (quarantined.length) {
+        try {
+          const entries = JSON.stringify([...(await readQuarantine()), ...quarantined]);
+          window.localStorage.setItem(QUARANTINE_KEY, await sealText(entries));
+        } catch (error) {
+          console.warn("Failed to quarantine unreadable chat sessions", error);
+          retained = quarantined.map((entry) => entry.record);
+        }
+      }
+      if (upgradedIds.length || (quarantined.length && !retained.length)) {
+        try {
+          const next = await serializeSessions(sessions);
+          // Another tab that wrote in the meantime has already stored current records.
+          if (window.localStorage.getItem(LEGACY_STORAGE_KEY) === text) {
+            window.localStorage.setItem(LEGACY_STORAGE_KEY, next);
+          }
+        } catch (error) {
+          console.warn("Failed to write upgraded chat sessions", error);
+        }
+      }
+      return { sessions, quarantined };
+    },
+    async save(changed, deletedIds, resolve = (local) => local) {
+      for (let attempt = 1; ; attempt += 1) {
+        const { text, records } = await readSessionsBlob();
+        const { sessions: stored, quarantined } = sanitizeSessions(records);
+        retained = quarantined.map((entry) => entry.record);
+        const next = new Map(stored.map((session) => [session.id, session]));
+        const written = changed.map((session) => resolve(session, next.get(session.id) ?? null));
+        written.forEach((session) => next.set(session.id, session));
+        deletedIds.forEach((id) => next.delete(id));
+        const serialized = await serializeSessions(next.values());
+        if (window.localStorage.getItem(LEGACY_STORAGE_KEY) !== text && attempt < MAX_SAVE_ATTEMPTS) continue;
+        window.localStorage.setItem(LEGACY_STORAGE_KEY, serialized);
+        deletedIds.forEach((id) => {
+          stored.find((session) => session.id === id)?.messages.forEach((message) => {
+            message.attachments?.forEach((attachment) => {
+              window.localStorage.removeItem(`${ATTACHMENT_KEY_PREFIX}${attachment.id}`);
+            });
+          });
+        });
+        return written;
+      }
+    },
+    // Files are kept as data URLs, which only suits small attachments in this fallback.
+    async putAttachments(_sessionId, items) {
+      const written: string[] = [];
+      try {
+        for (const { id, blob } of items) {
+          const storageKey = `${ATTACHMENT_KEY_PREFIX}${id}`;
+          window.localStorage.setItem(storageKey, await sealText(await readBlobAsDataUrl(blob)));
+          written.push(storageKey);
+        }
+      } catch (error) {
+        written.forEach((storageKey) => window.localStorage.removeItem(storageKey));
+        throw error;
+      }
+    },
+    async getAttachment(id) {
+      const text = window.localStorage.getItem(`${ATTACHMENT_KEY_PREFIX}${id}`);
+      const dataUrl = text ? await openText(text) : null;
+      return typeof dataUrl === "string" ? (await fetch(dataUrl)).blob() : null;
+    },
+    async loadQuarantine() {
+      return readQuarantine();
+    },
+    async rekey(nextKey) {
+      // Everything is opened and sealed again before the first write, so a wrong key changes nothing.
+      const { records } = await readSessionsBlob();
+      const quarantine = await readQuarantine();
+      const updates: [string, string][] = [
+        [LEGACY_STORAGE_KEY, await sealText(JSON.stringify(records), nextKey)]
+      ];
+      if (quarantine.length) updates.push([QUARANTINE_KEY, await sealText(JSON.stringify(quarantine), nextKey)]);
+      const attachmentKeys = Object.keys(window.localStorage).filter((item) => item.startsWith(ATTACHMENT_KEY_PREFIX));
+      for (const storageKey of attachmentKeys) {
+        const dataUrl = await openText(window.localStorage.getItem(storageKey) ?? "");
+        if (typeof dataUrl === "string" && dataUrl) updates.push([storageKey, await sealText(dataUrl, nextKey)]);
+      }
+
+      const previous = updates.map(([storageKey]) => [storageKey, window.localStorage.getItem(storageKey)] as const);
+      try {
+        updates.forEach(([storageKey, value]) => window.localStorage.setItem(storageKey, value));
+      } catch (error) {
+        // Storage filled up part way through; put back what was there so the current key still reads it all.
+        previous.forEach(([storageKey, value]) => {
+          if (value !== null) window.localStorage.setItem(storageKey, value);
+        });
+        throw error;
+      }
+      key = nextKey;
+    },
+    subscribe(listener) {
+      const handler = (event: StorageEvent) => {
+        if (event.storageArea === window.localStorage && event.key === LEGACY_STORAGE_KEY) {
+          listener();
+        }
+      };
+      window.addEventListener("storage", handler);
+      return () => window.removeEventListener("storage", handler);
+    }
+  };
+};
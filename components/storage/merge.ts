@@ -0,0 +1,108 @@
+import { resolveTitle } from "../titles";
+import type { ChatMessage, ChatSession } from "../types";
+
+/*
+ * Three-way merging for tabs that edit the same chats. `base` is the copy a
+ * tab last read from or wrote to storage; whatever changed on either side
+ * since then survives. Messages are matched by id, so replies sent from two
+ * tabs at once both end up in the tree (as sibling branches when they share a
+ * parent). When both sides changed the same message or field, the side with
+ * the newer `updatedAt` wins.
+ */
+
+const MERGED_FIELDS = [
+  "title",
+  "titleLocked",
+  "provider",
+  "personaId",
+  "settings",
+  "contextSummary",
+  "folderId",
+  "tags",
+  "pinned",
+  "archived",
+  "deletedAt",
+  "currentNodeId"
+] as const;
+
+const isSame = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+// Renames, pins and settings don't bump `updatedAt`, so an equal timestamp still needs a content check.
+const isUnchanged = (session: ChatSession, base: ChatSession) =>
+  session === base || (session.updatedAt === base.updatedAt && isSame(session, base));
+
+/** The older side's value when only it changed since the base, otherwise the newer side's. */
+const pick = <T>(base: { value: T } | null, newer: T, older: T) => (base && isSame(newer, base.value) ? older : newer);
+
+// Merged copies get a timestamp of their own so both tabs see them as changed since their base.
+const laterThan = (timestamp: string) => {
+  const now = new Date().toISOString();
+  return now > timestamp ? now : new Date(Date.parse(timestamp) + 1).toISOString();
+};
+
+const mergeMessages = (base: ChatSession | undefined, newer: ChatSession, older: ChatSession) => {
+  const baseById = new Map(base?.messages.map((message) => [message.id, message]));
+  const olderById = new Map(older.messages.map((message) => [message.id, message]));
+  const newerIds = new Set(newer.messages.map((message) => message.id));
+  const merged: ChatMessage[] = [];
+  newer.messages.forEach((message) => {
+    const other = olderById.get(message.id);
+    if (other) {
+      const ancestor = baseById.get(message.id);
+      merged.push(pick(ancestor ? { value: ancestor } : null, message, other));
+    } else if (!baseById.has(message.id)) {
+      merged.push(message);
+    }
+    // Otherwise the older side removed it since the base.
+  });
+  older.messages.forEach((message) => {
+    if (!newerIds.has(message.id) && !baseById.has(message.id)) merged.push(message);
+  });
+  return merged.sort((a, b) => (a.createdAt < b.createdAt ? -1 : a.createdAt > b.createdAt ? 1 : 0));
+};
+
+export const mergeSession = (base: ChatSession | undefined, local: ChatSession, remote: ChatSession): ChatSession => {
+  if (local === remote) return local;
+  if (base && isUnchanged(remote, base)) return local;
+  if (base && isUnchanged(local, base)) return remote;
+
+  const [newer, older] = remote.updatedAt > local.updatedAt ? [remote, local] : [local, remote];
+  const merged: ChatSession = { ...newer, messages: mergeMessages(base, newer, older) };
+  MERGED_FIELDS.forEach((field) => {
+    const ancestor = base ? { value: base[field] } : null;
+    (merged as unknown as Record<string, unknown>)[field] = pick<unknown>(ancestor, newer[field], older[field]);
+  });
+  if (merged.currentNodeId && !merged.messages.some((message) => message.id === merged.currentNodeId)) {
+    merged.currentNodeId = newer.currentNodeId;
+  }
+  return { ...merged, title: resolveTitle(merged), updatedAt: laterThan(newer.updatedAt) };
+};
+
+/**
+ * Folds the sessions another tab stored into this tab's list. Sessions only
+ * one side knows are kept when they are new there and dropped when the other
+ * side deleted them since `base`.
+ */
+export const reconcileSessions = (
+  base: Map<string, ChatSession>,
+  local: ChatSession[],
+  stored: ChatSession[]
+): ChatSession[] => {
+  const storedById = new Map(stored.map((session) => [session.id, session]));
+  const localIds = new Set(local.map((session) => session.id));
+  const result: ChatSession[] = [];
+  local.forEach((session) => {
+    const theirs = storedById.get(session.id);
+    const ancestor = base.get(session.id);
+    if (theirs) {
+      result.push(mergeSession(ancestor, session, theirs));
+    } else if (!ancestor || !isUnchanged(session, ancestor)) {
+      // New in this tab, or edited here after another tab deleted it.
+      result.push(session);
+    }
+  });
+  stored.forEach((session) => {
+    if (!localIds.has(session.id) && !base.has(session.id)) result.push(session);
+  });
+  return result;
+};
@@ -0,0 +1,149 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  CURRENT_SCHEMA_VERSION,
+  MIGRATIONS,
+  migrateRecord,
+  sanitizeSessions,
+  toStoredSession,
+  upgradeSessionRecord,
+  validateSession
+} from "./schema";
+import type { StoredRecord } from "./schema";
+
+const NOW = "2026-01-02T00:00:00.000Z";
+
+// The shape sessions were saved in before records carried a schema version.
+const buildV1Record = (): StoredRecord => ({
+  id: "session-1",
+  title: "Trip ideas",
+  messages: [
+    { id: "m1", role: "user", content: "Where should I go?", createdAt: "2026-01-01T10:00:00.000Z" },
+    { id: "m2", role: "assistant", content: "Lisbon.", createdAt: "2026-01-01T10:00:05.000Z" }
+  ],
+  createdAt: "2026-01-01T10:00:00.000Z",
+  updatedAt: "2026-01-01T10:00:05.000Z"
+});
+
+describe("MIGRATIONS", () => {
+  it("numbers the steps consecutively from 2 up to the current version", () => {
+    const versions = MIGRATIONS.map((migration) => migration.version);
+    assert.deepEqual(
+      versions,
+      Array.from({ length: CURRENT_SCHEMA_VERSION - 1 }, (_, index) => index + 2)
+    );
+  });
+
+  it("takes a v1 record through every step, one version at a time", () => {
+    let record = buildV1Record();
+    MIGRATIONS.forEach((migration) => {
+      const previous = record;
+      record = migrateRecord(record, MIGRATIONS.filter((step) => step.version <= migration.version));
+      assert.equal(record.schemaVersion, migration.version, migration.description);
+      assert.equal(record.id, previous.id);
+    });
+    assert.equal(record.schemaVersion, CURRENT_SCHEMA_VERSION);
+    assert.equal(validateSession(record), null);
+  });
+
+  it("fills in every field added since v1", () => {
+    const record = migrateRecord(buildV1Record());
+    assert.equal(record.provider, "echo");
+    assert.equal(record.folderId, null);
+    assert.deepEqual(record.tags, []);
+    assert.equal(record.pinned, false);
+    assert.equal(record.archived, false);
+    assert.equal(record.titleLocked, false);
+    assert.equal(record.personaId, null);
+    assert.deepEqual(record.settings, {});
+    assert.equal(record.deletedAt, null);
+    const messages = record.messages as Record<string, unknown>[];
+    assert.deepEqual(
+      messages.map(({ id, parentId, status }) => ({ id, parentId, status })),
+      [
+        { id: "m1", parentId: null, status: "complete" },
+        { id: "m2", parentId: "m1", status: "complete" }
+      ]
+    );
+    assert.equal(record.currentNodeId, "m2");
+  });
+
+  it("only runs the steps newer than the record's version", () => {
+    const record = migrateRecord({ ...buildV1Record(), schemaVersion: 4, provider: "openai", tags: ["kept"] });
+    assert.equal(record.provider, "openai");
+    assert.deepEqual(record.tags, ["kept"]);
+    assert.equal(record.schemaVersion, CURRENT_SCHEMA_VERSION);
+  });
+});
+
+describe("upgradeSessionRecord", () => {
+  it("upgrades a v1 record into a usable session", () => {
+    const result = upgradeSessionRecord(buildV1Record(), NOW);
+    assert.ok(result.ok);
+    assert.equal(result.upgraded, true);
+    assert.equal(result.session.title, "Trip ideas");
+    assert.equal("schemaVersion" in result.session, false);
+  });
+
+  it("reads back a current record unchanged", () => {
+    const first = upgradeSessionRecord(buildV1Record(), NOW);
+    assert.ok(first.ok);
+    const second = upgradeSessionRecord(toStoredSession(first.session), NOW);
+    assert.ok(second.ok);
+    assert.equal(second.upgraded, false);
+    assert.deepEqual(second.session, first.session);
+  });
+
+  it("marks replies cut off mid-stream as interrupted", () => {
+    const record = buildV1Record();
+    (record.messages as Record<string, unknown>[])[1].status = "streaming";
+    const result = upgradeSessionRecord(record, NOW);
+    assert.ok(result.ok);
+    assert.equal(result.session.messages[1].status, "interrupted");
+  });
+
+  it("quarantines invalid records with the reason and the original data", () => {
+    const record = { ...buildV1Record(), messages: [{ id: "m1", role: "robot", content: "?", createdAt: NOW }] };
+    const result = upgradeSessionRecord(record, NOW);
+    assert.ok(!result.ok);
+    assert.equal(result.quarantined.sessionId, "session-1");
+    assert.equal(result.quarantined.reason, "message m1 has an unknown role");
+    assert.equal(result.quarantined.record, record);
+    assert.equal(result.quarantined.quarantinedAt, NOW);
+  });
+
+  it("quarantines values that aren't records at all", () => {
+    const result = upgradeSessionRecord("not a session", NOW);
+    assert.ok(!result.ok);
+    assert.equal(result.quarantined.sessionId, null);
+    assert.equal(result.quarantined.reason, "record is not an object");
+  });
+
+  it("quarantines records written by a newer version instead of downgrading them", () => {
+    const first = upgradeSessionRecord(buildV1Record(), NOW);
+    assert.ok(first.ok);
+    const future = { ...toStoredSession(first.session), schemaVersion: CURRENT_SCHEMA_VERSION + 1, added: true };
+    const result = upgradeSessionRecord(future, NOW);
+    assert.ok(!result.ok);
+    assert.equal(result.quarantined.schemaVersion, CURRENT_SCHEMA_VERSION + 1);
+    assert.equal(result.quarantined.record, future);
+  });
+});
+
+describe("sanitizeSessions", () => {
+  it("keeps good records and sets bad ones aside without dropping either", () => {
+    const { sessions, upgradedIds, quarantined } = sanitizeSessions(
+      [buildV1Record(), { id: "broken" }, { ...buildV1Record(), id: "session-2", schemaVersion: 99 }],
+      NOW
+    );
+    assert.deepEqual(
+      sessions.map((session) => session.id),
+      ["session-1"]
+    );
+    assert.deepEqual(upgradedIds, ["session-1"]);
+    assert.deepEqual(
+      quarantined.map((entry) => entry.sessionId),
+      ["broken", "session-2"]
+    );
+  });
+});
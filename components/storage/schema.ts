@@ -0,0 +1,281 @@
+import { v4 as uuid } from "uuid";
+import { normalizeSessionSettings } from "../generationSettings";
+import { getActivePath, linkMessages } from "../messageTree";
+import { isProviderId } from "../providers";
+import { deriveTitle } from "../titles";
+import type { ChatMessage, ChatSession } from "../types";
+
+/*
+ * Every stored session record carries the `schemaVersion` it was written with.
+ * Records are upgraded one step at a time through MIGRATIONS, then validated;
+ * anything that still doesn't match the current shape is quarantined rather
+ * than dropped so it can be inspected or recovered later.
+ *
+ * Adding a field to ChatSession or ChatMessage: bump CURRENT_SCHEMA_VERSION and
+ * append a migration that fills the field in for older records.
+ */
+
+export type StoredRecord = Record<string, unknown> & { schemaVersion?: number };
+
+export type StoredSession = ChatSession & { schemaVersion: number };
+
+export interface Migration {
+  version: number;
+  description: string;
+  up: (record: StoredRecord) => StoredRecord;
+}
+
+export interface QuarantinedRecord {
+  id: string;
+  sessionId: string | null;
+  reason: string;
+  schemaVersion: number;
+  record: unknown;
+  quarantinedAt: string;
+}
+
+export type UpgradeResult =
+  | { ok: true; session: ChatSession; upgraded: boolean }
+  | { ok: false; quarantined: QuarantinedRecord };
+
+type MessageUpdate = (message: Record<string, unknown>) => Record<string, unknown>;
+
+const mapMessages = (record: StoredRecord, update: MessageUpdate) => {
+  if (!Array.isArray(record.messages)) return record;
+  return {
+    ...record,
+    messages: record.messages.map((message) =>
+      message && typeof message === "object" ? update(message as Record<string, unknown>) : message
+    )
+  };
+};
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: "Add the assistant provider used by each session",
+    up: (record) => ({ ...record, provider: record.provider ?? "echo" })
+  },
+  {
+    version: 3,
+    description: "Track the streaming status of each message",
+    up: (record) => mapMessages(record, (message) => ({ ...message, status: message.status ?? "complete" }))
+  },
+  {
+    version: 4,
+    description: "Link messages into a branch tree with a current node",
+    up: (record) => {
+      const isMessage = (message: unknown): message is ChatMessage =>
+        Boolean(message && typeof message === "object");
+      if (!Array.isArray(record.messages) || !record.messages.every(isMessage)) return record;
+      const tree = linkMessages(record.messages, record.currentNodeId as string | null | undefined);
+      return { ...record, ...tree };
+    }
+  },
+  {
+    version: 5,
+    description: "Organize sessions into folders with tags, pins and an archive",
+    up: (record) => ({
+      ...record,
+      folderId: record.folderId ?? null,
+      tags: record.tags ?? [],
+      pinned: record.pinned ?? false,
+      archived: record.archived ?? false
+    })
+  },
+  {
+    version: 6,
+    description: "Lock titles that were renamed by hand",
+    up: (record) => ({ ...record, titleLocked: record.titleLocked ?? false })
+  },
+  {
+    version: 7,
+    description: "Remember the persona a session was started with",
+    up: (record) => ({ ...record, personaId: record.personaId ?? null })
+  },
+  {
+    version: 8,
+    description: "Store generation settings on each session",
+    up: (record) => ({ ...record, settings: record.settings ?? {} })
+  },
+  {
+    version: 9,
+    description: "Move deleted chats to a trash instead of removing them",
+    up: (record) => ({ ...record, deletedAt: record.deletedAt ?? null })
+  }
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS.reduce(
+  (latest, migration) => Math.max(latest, migration.version),
+  1
+);
+
+const readVersion = (record: StoredRecord) => {
+  return typeof record.schemaVersion === "number" && record.schemaVersion >= 1 ? record.schemaVersion : 1;
+};
+
+/** Applies every migration newer than the record's version, in order. */
+export const migrateRecord = (record: StoredRecord, migrations: Migration[] = MIGRATIONS): StoredRecord => {
+  const version = readVersion(record);
+  return [...migrations]
+    .sort((a, b) => a.version - b.version)
+    .filter((migration) => migration.version > version)
+    .reduce<StoredRecord>((current, migration) => ({ ...migration.up(current), schemaVersion: migration.version }), {
+      ...record,
+      schemaVersion: version
+    });
+};
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+const isContextSummary = (value: unknown) => {
+  if (!value || typeof value !== "object") return false;
+  const { content, throughMessageId, createdAt } = value as Record<string, unknown>;
+  return isString(content) && isString(throughMessageId) && isString(createdAt);
+};
+
+const isAttachment = (value: unknown) => {
+  if (!value || typeof value !== "object") return false;
+  const { id, name, mimeType, size, kind, text } = value as Record<string, unknown>;
+  return (
+    isString(id) &&
+    isString(name) &&
+    isString(mimeType) &&
+    typeof size === "number" &&
+    (kind === "image" || kind === "text") &&
+    (text === undefined || isString(text))
+  );
+};
+
+const validateMessage = (message: unknown, index: number): string | null => {
+  if (!message || typeof message !== "object") return `message ${index} is not an object`;
+  const { id, role, content, parentId, attachments, createdAt } = message as Record<string, unknown>;
+  if (!isString(id) || !id) return `message ${index} has no id`;
+  if (role !== "system" && role !== "user" && role !== "assistant") return `message ${id} has an unknown role`;
+  if (!isString(content)) return `message ${id} has no content`;
+  if (parentId !== null && !isString(parentId)) return `message ${id} has an invalid parent`;
+  if (attachments !== undefined && !(Array.isArray(attachments) && attachments.every(isAttachment))) {
+    return `message ${id} has invalid attachments`;
+  }
+  if (!isString(createdAt)) return `message ${id} has no timestamp`;
+  return null;
+};
+
+/** Returns why a migrated record is not a usable session, or null when it is. */
+export const validateSession = (record: StoredRecord): string | null => {
+  const { id, title, titleLocked, messages, currentNodeId, provider, folderId, tags, pinned, archived } = record;
+  const { personaId, settings, deletedAt, createdAt, updatedAt } = record;
+  if (!isString(id) || !id) return "session has no id";
+  if (!isString(title)) return "session has no title";
+  if (typeof titleLocked !== "boolean") return "session has an invalid title lock";
+  if (!Array.isArray(messages)) return "session has no message list";
+  for (let index = 0; index < messages.length; index += 1) {
+    const reason = validateMessage(messages[index], index);
+    if (reason) return reason;
+  }
+  if (currentNodeId !== null && !(messages as ChatMessage[]).some((message) => message.id === currentNodeId)) {
+    return "session points at a missing message";
+  }
+  if (!isProviderId(provider)) return "session has an unknown provider";
+  if (personaId !== null && !isString(personaId)) return "session has an invalid persona";
+  if (!settings || typeof settings !== "object" || Array.isArray(settings)) return "session has invalid settings";
+  if (folderId !== null && !isString(folderId)) return "session has an invalid folder";
+  if (!Array.isArray(tags) || !tags.every(isString)) return "session has invalid tags";
+  if (typeof pinned !== "boolean" || typeof archived !== "boolean") return "session has invalid flags";
+  if (deletedAt !== null && !isString(deletedAt)) return "session has an invalid deletion time";
+  if (!isString(createdAt) || !isString(updatedAt)) return "session has no timestamps";
+  return null;
+};
+
+/** Fills gaps that older builds tolerated and resets state that can't survive a reload. */
+const normalizeRecord = (record: StoredRecord, now: string): StoredRecord => {
+  const withMessages = mapMessages(record, (message) => ({
+    ...message,
+    createdAt: message.createdAt || now,
+    // A reply still marked as streaming was cut off when its tab closed.
+    status: message.status === "streaming" ? "interrupted" : message.status
+  }));
+  const createdAt = withMessages.createdAt || now;
+  return {
+    ...withMessages,
+    // A malformed summary is only a cache; dropping it makes the next reply rebuild it.
+    contextSummary: isContextSummary(withMessages.contextSummary) ? withMessages.contextSummary : undefined,
+    title: isString(withMessages.title) ? withMessages.title : "",
+    settings:
+      withMessages.settings && typeof withMessages.settings === "object"
+        ? normalizeSessionSettings(withMessages.settings)
+        : withMessages.settings,
+    currentNodeId: withMessages.currentNodeId ?? null,
+    createdAt,
+    updatedAt: withMessages.updatedAt || createdAt
+  };
+};
+
+export const quarantineRecord = (
+  record: unknown,
+  reason: string,
+  now = new Date().toISOString()
+): QuarantinedRecord => {
+  const candidate = record && typeof record === "object" ? (record as StoredRecord) : {};
+  return {
+    id: uuid(),
+    sessionId: isString(candidate.id) ? candidate.id : null,
+    reason,
+    schemaVersion: readVersion(candidate),
+    record,
+    quarantinedAt: now
+  };
+};
+
+export const upgradeSessionRecord = (raw: unknown, now = new Date().toISOString()): UpgradeResult => {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { ok: false, quarantined: quarantineRecord(raw, "record is not an object", now) };
+  }
+  const original = raw as StoredRecord;
+  // Rewriting a newer record at this version would silently drop whatever that version added.
+  if (readVersion(original) > CURRENT_SCHEMA_VERSION) {
+    return { ok: false, quarantined: quarantineRecord(raw, "record was written by a newer version of the app", now) };
+  }
+  let record: StoredRecord;
+  try {
+    record = normalizeRecord(migrateRecord(original), now);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : "migration failed";
+    return { ok: false, quarantined: quarantineRecord(raw, `migration failed: ${reason}`, now) };
+  }
+
+  const reason = validateSession(record);
+  if (reason) {
+    return { ok: false, quarantined: quarantineRecord(raw, reason, now) };
+  }
+
+  const { schemaVersion: _version, ...fields } = record;
+  const session = fields as unknown as ChatSession;
+  if (!session.title) {
+    session.title = deriveTitle(getActivePath(session));
+    session.titleLocked = false;
+  }
+  return { ok: true, session, upgraded: readVersion(original) < CURRENT_SCHEMA_VERSION };
+};
+
+/** Upgrades a batch of raw records, separating usable sessions from quarantined ones. */
+export const sanitizeSessions = (records: unknown[], now = new Date().toISOString()) => {
+  const sessions: ChatSession[] = [];
+  const upgradedIds: string[] = [];
+  const quarantined: QuarantinedRecord[] = [];
+  records.forEach((raw) => {
+    const result = upgradeSessionRecord(raw, now);
+    if (result.ok) {
+      sessions.push(result.session);
+      if (result.upgraded) upgradedIds.push(result.session.id);
+    } else {
+      quarantined.push(result.quarantined);
+    }
+  });
+  return { sessions, upgradedIds, quarantined };
+};
+
+export const toStoredSession = (session: ChatSession): StoredSession => ({
+  ...session,
+  schemaVersion: CURRENT_SCHEMA_VERSION
+});
@@ -0,0 +1,148 @@
+/*
+ * Passphrase encryption for the session store. The passphrase is stretched
+ * with PBKDF2 into a non-extractable AES-GCM key that only lives in memory
+ * while the workspace is unlocked. Stored next to the data is just the
+ * header: the salt, the iteration count and a known value sealed with the
+ * key, so a wrong passphrase is caught before anything is decrypted.
+ */
+
+export const VAULT_KEY = "chatgpt-local-vault";
+
+// OWASP's 2023 recommendation for PBKDF2-HMAC-SHA256.
+const PBKDF2_ITERATIONS = 600000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const CHECK_VALUE = "chatgpt-local-vault";
+const SEALED_PREFIX = "sealed:v1:";
+
+export interface VaultHeader {
+  version: 1;
+  salt: string;
+  iterations: number;
+  check: string;
+}
+
+/** Ciphertext with the IV it was sealed under. */
+export interface SealedData {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+export class VaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "VaultError";
+  }
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = "";
+  // Chunked so large payloads don't overflow the argument limit of fromCharCode.
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + 0x8000));
+  }
+  return window.btoa(binary);
+};
+
+const fromBase64 = (text: string) => Uint8Array.from(window.atob(text), (char) => char.charCodeAt(0));
+
+export const isSealedData = (value: unknown): value is SealedData =>
+  Boolean(value) &&
+  typeof value === "object" &&
+  (value as SealedData).iv instanceof Uint8Array &&
+  (value as SealedData).data instanceof ArrayBuffer;
+
+export const sealBytes = async (key: CryptoKey, bytes: BufferSource): Promise<SealedData> => {
+  const iv = window.crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const data = await window.crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, bytes);
+  return { iv, data };
+};
+
+export const openBytes = async (key: CryptoKey, { iv, data }: SealedData) => {
+  try {
+    return await window.crypto.subtle.decrypt({ name: "AES-GCM", iv: new Uint8Array(iv) }, key, data);
+  } catch {
+    throw new VaultError("Saved chats could not be decrypted with this passphrase.");
+  }
+};
+
+export const sealJson = (key: CryptoKey, value: unknown) => sealBytes(key, encoder.encode(JSON.stringify(value)));
+
+export const openJson = async (key: CryptoKey, sealed: SealedData): Promise<unknown> =>
+  JSON.parse(decoder.decode(await openBytes(key, sealed)));
+
+/** localStorage only holds strings, so sealed values are kept there as one prefixed base64 string. */
+export const encodeSealed = ({ iv, data }: SealedData) =>
+  `${SEALED_PREFIX}${toBase64(iv)}.${toBase64(new Uint8Array(data))}`;
+
+export const decodeSealed = (text: string): SealedData | null => {
+  if (!text.startsWith(SEALED_PREFIX)) return null;
+  const [iv, data] = text.slice(SEALED_PREFIX.length).split(".");
+  if (!iv || !data) return null;
+  try {
+    return { iv: fromBase64(iv), data: fromBase64(data).buffer };
+  } catch {
+    return null;
+  }
+};
+
+const deriveKey = async (passphrase: string, salt: BufferSource, iterations: number) => {
+  const material = await window.crypto.subtle.importKey("raw", encoder.encode(passphrase), "PBKDF2", false, [
+    "deriveKey"
+  ]);
+  return window.crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+};
+
+export const readVaultHeader = (): VaultHeader | null => {
+  if (typeof window === "undefined") return null;
+  try {
+    const parsed: unknown = JSON.parse(window.localStorage.getItem(VAULT_KEY) ?? "null");
+    if (!parsed || typeof parsed !== "object") return null;
+    const { version, salt, iterations, check } = parsed as Record<string, unknown>;
+    if (version !== 1 || typeof salt !== "string" || typeof check !== "string") return null;
+    if (typeof iterations !== "number" || !Number.isInteger(iterations) || iterations < 1) return null;
+    return { version, salt, iterations, check };
+  } catch (error) {
+    console.warn("Failed to read the encryption settings", error);
+    return null;
+  }
+};
+
+/** Throws when the header can't be stored, since the data it protects would be unreadable without it. */
+export const writeVaultHeader = (header: VaultHeader | null) => {
+  if (header) {
+    window.localStorage.setItem(VAULT_KEY, JSON.stringify(header));
+  } else {
+    window.localStorage.removeItem(VAULT_KEY);
+  }
+};
+
+/** Derives a key for a new passphrase; nothing is stored until the caller writes the header. */
+export const createVault = async (passphrase: string) => {
+  const salt = window.crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const header: VaultHeader = {
+    version: 1,
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    check: encodeSealed(await sealJson(key, CHECK_VALUE))
+  };
+  return { header, key };
+};
+
+export const unlockVault = async (header: VaultHeader, passphrase: string) => {
+  const key = await deriveKey(passphrase, fromBase64(header.salt), header.iterations);
+  const check = decodeSealed(header.check);
+  const value = check ? await openJson(key, check).catch(() => null) : null;
+  if (value !== CHECK_VALUE) throw new VaultError("That passphrase is not correct.");
+  return key;
+};
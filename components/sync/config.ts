@@ -0,0 +1,108 @@
+import { v4 as uuid } from "uuid";
+import { SYNC_ROUTE_PATH } from "./protocol";
+
+export const SYNC_CONFIG_KEY = "chatgpt-local-sync";
+export const SYNC_STATE_KEY = "chatgpt-local-sync-state";
+
+export interface SyncConfig {
+  enabled: boolean;
+  /** The sync endpoint, either this app's own route or another deployment of it. */
+  url: string;
+  token: string;
+  deviceId: string;
+  deviceName: string;
+}
+
+export interface SyncedSession {
+  revision: number;
+  /** Fingerprint of the copy last pushed or pulled; a different one means there are local changes to push. */
+  fingerprint: string;
+}
+
+/** What this browser has exchanged with the server at `url`; it survives reloads, so offline edits stay queued. */
+export interface SyncState {
+  url: string;
+  cursor: number;
+  synced: Record<string, SyncedSession>;
+  /** Sessions deleted here that the server has not confirmed yet. */
+  deleted: string[];
+}
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"]
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/Android/, "Android"],
+  [/iPhone|iPad/, "iOS"],
+  [/Mac OS X/, "macOS"],
+  [/Windows/, "Windows"],
+  [/Linux/, "Linux"]
+];
+
+const guessDeviceName = () => {
+  const agent = navigator.userAgent;
+  const browser = BROWSERS.find(([pattern]) => pattern.test(agent))?.[1] ?? "Browser";
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(agent))?.[1];
+  return platform ? `${browser} on ${platform}` : browser;
+};
+
+const readJson = (key: string): Record<string, unknown> => {
+  const parsed: unknown = JSON.parse(window.localStorage.getItem(key) ?? "{}");
+  return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? (parsed as Record<string, unknown>) : {};
+};
+
+/** Reads the sync settings, assigning this browser a device id the first time. */
+export const readSyncConfig = (): SyncConfig => {
+  let stored: Record<string, unknown> = {};
+  try {
+    stored = readJson(SYNC_CONFIG_KEY);
+  } catch (error) {
+    console.warn("Failed to read sync settings", error);
+  }
+  const config: SyncConfig = {
+    enabled: stored.enabled === true,
+    url: typeof stored.url === "string" && stored.url.trim() ? stored.url.trim() : SYNC_ROUTE_PATH,
+    token: typeof stored.token === "string" ? stored.token : "",
+    deviceId: typeof stored.deviceId === "string" && stored.deviceId ? stored.deviceId : uuid(),
+    deviceName:
+      typeof stored.deviceName === "string" && stored.deviceName.trim() ? stored.deviceName : guessDeviceName()
+  };
+  if (config.deviceId !== stored.deviceId) writeSyncConfig(config);
+  return config;
+};
+
+export const writeSyncConfig = (config: SyncConfig) => {
+  try {
+    window.localStorage.setItem(SYNC_CONFIG_KEY, JSON.stringify(config));
+  } catch (error) {
+    console.warn("Failed to persist sync settings", error);
+  }
+};
+
+const emptyState = (url: string): SyncState => ({ url, cursor: 0, synced: {}, deleted: [] });
+
+/** The state for `url`; pointing sync at another server starts over from an empty state. */
+export const readSyncState = (url: string): SyncState => {
+  try {
+    const stored = readJson(SYNC_STATE_KEY);
+    if (stored.url !== url || typeof stored.cursor !== "number") return emptyState(url);
+    const synced = stored.synced && typeof stored.synced === "object" ? (stored.synced as SyncState["synced"]) : {};
+    const deleted = Array.isArray(stored.deleted) ? stored.deleted.filter((id) => typeof id === "string") : [];
+    return { url, cursor: stored.cursor, synced, deleted };
+  } catch (error) {
+    console.warn("Failed to read the sync state", error);
+    return emptyState(url);
+  }
+};
+
+export const writeSyncState = (state: SyncState) => {
+  try {
+    window.localStorage.setItem(SYNC_STATE_KEY, JSON.stringify(state));
+  } catch (error) {
+    console.warn("Failed to persist the sync state", error);
+  }
+};
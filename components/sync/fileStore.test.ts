@@ -0,0 +1,118 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, describe, it } from "node:test";
+import type { ChatSession } from "../types";
+import { createFileSyncStore } from "./fileStore";
+import type { SyncRequest } from "./protocol";
+
+const directories: string[] = [];
+
+const createStore = async () => {
+  const directory = await mkdtemp(path.join(tmpdir(), "sync-store-"));
+  directories.push(directory);
+  return { directory, store: createFileSyncStore(directory) };
+};
+
+after(() => Promise.all(directories.map((directory) => rm(directory, { recursive: true, force: true }))));
+
+const CREATED_AT = "2026-03-01T10:00:00Z";
+
+const buildSession = (id: string, content: string): ChatSession => ({
+  id,
+  title: content,
+  titleLocked: true,
+  messages: [{ id: `${id}-m1`, role: "user", content, parentId: null, status: "complete", createdAt: CREATED_AT }],
+  currentNodeId: `${id}-m1`,
+  provider: "echo",
+  personaId: null,
+  settings: {},
+  folderId: null,
+  tags: [],
+  pinned: false,
+  archived: false,
+  deletedAt: null,
+  createdAt: CREATED_AT,
+  updatedAt: CREATED_AT
+});
+
+const request = (deviceId: string, cursor: number, changes: SyncRequest["changes"]): SyncRequest => ({
+  deviceId,
+  deviceName: `Device ${deviceId}`,
+  cursor,
+  changes
+});
+
+describe("createFileSyncStore", () => {
+  it("accepts changes made on top of the current revision and hands them to other devices", async () => {
+    const { store } = await createStore();
+    const pushed = await store.exchange(
+      request("a", 0, [{ id: "s1", baseRevision: 0, session: buildSession("s1", "Hi") }])
+    );
+    assert.deepEqual(pushed.accepted, [{ id: "s1", revision: 1 }]);
+    assert.deepEqual(pushed.entries, []);
+
+    const pulled = await store.exchange(request("b", 0, []));
+    assert.equal(pulled.cursor, 1);
+    assert.deepEqual(
+      pulled.entries.map((entry) => [entry.id, entry.revision, entry.session?.title]),
+      [["s1", 1, "Hi"]]
+    );
+    assert.deepEqual(
+      pulled.devices.map((device) => device.id),
+      ["a", "b"]
+    );
+  });
+
+  it("rejects a change based on an old revision and returns the current copy instead", async () => {
+    const { store } = await createStore();
+    await store.exchange(request("a", 0, [{ id: "s1", baseRevision: 0, session: buildSession("s1", "First") }]));
+    await store.exchange(request("a", 1, [{ id: "s1", baseRevision: 1, session: buildSession("s1", "Second") }]));
+
+    const stale = await store.exchange(
+      request("b", 1, [{ id: "s1", baseRevision: 1, session: buildSession("s1", "Stale") }])
+    );
+    assert.deepEqual(stale.accepted, []);
+    assert.deepEqual(
+      stale.entries.map((entry) => [entry.id, entry.revision, entry.session?.title]),
+      [["s1", 2, "Second"]]
+    );
+  });
+
+  it("keeps deletions as entries without a session", async () => {
+    const { store } = await createStore();
+    await store.exchange(request("a", 0, [{ id: "s1", baseRevision: 0, session: buildSession("s1", "Hi") }]));
+    await store.exchange(request("a", 1, [{ id: "s1", baseRevision: 1, session: null }]));
+    const pulled = await store.exchange(request("b", 0, []));
+    assert.deepEqual(pulled.entries, [{ id: "s1", revision: 2, session: null }]);
+  });
+
+  it("stores ids that are also names of object properties", async () => {
+    const { directory, store } = await createStore();
+    await store.exchange(
+      request("__proto__", 0, [
+        { id: "__proto__", baseRevision: 0, session: buildSession("__proto__", "Odd id") },
+        { id: "constructor", baseRevision: 0, session: buildSession("constructor", "Another") }
+      ])
+    );
+
+    // A fresh store reads the file back, so the ids survive the round trip through JSON.
+    const pulled = await createFileSyncStore(directory).exchange(request("b", 0, []));
+    assert.deepEqual(
+      pulled.entries.map((entry) => [entry.id, entry.session?.title]),
+      [
+        ["__proto__", "Odd id"],
+        ["constructor", "Another"]
+      ]
+    );
+    assert.deepEqual(
+      pulled.devices.map((device) => device.id),
+      ["__proto__", "b"]
+    );
+    const conflict = await createFileSyncStore(directory).exchange(
+      request("b", 2, [{ id: "__proto__", baseRevision: 0, session: buildSession("__proto__", "Clash") }])
+    );
+    assert.deepEqual(conflict.accepted, []);
+  });
+});
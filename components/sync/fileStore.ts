@@ -0,0 +1,114 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import { upgradeSessionRecord } from "../storage/schema";
+import type { SyncDevice, SyncEntry, SyncRequest, SyncResponse } from "./protocol";
+
+// Session and device ids come from clients, so they are only ever used as Map keys; an id like "__proto__"
+// would reach the prototype of a plain object.
+interface SyncDatabase {
+  revision: number;
+  entries: Map<string, SyncEntry>;
+  devices: Map<string, SyncDevice>;
+}
+
+/** The file holds the maps as JSON objects, whose parsed keys are always own properties. */
+interface StoredDatabase {
+  revision: number;
+  entries: Record<string, SyncEntry>;
+  devices: Record<string, SyncDevice>;
+}
+
+const isMissingFile = (error: unknown) =>
+  error instanceof Error && (error as NodeJS.ErrnoException).code === "ENOENT";
+
+/**
+ * Keeps every synced session in one JSON file under `directory`. Requests are
+ * applied one at a time and the file is replaced atomically, which is plenty
+ * for a handful of devices; swap in a database behind the same `exchange`
+ * for more.
+ */
+export const createFileSyncStore = (directory: string) => {
+  const file = path.join(directory, "sync.json");
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const read = async (): Promise<SyncDatabase> => {
+    let stored: StoredDatabase;
+    try {
+      stored = JSON.parse(await readFile(file, "utf8")) as StoredDatabase;
+    } catch (error) {
+      if (isMissingFile(error)) return { revision: 0, entries: new Map(), devices: new Map() };
+      throw error;
+    }
+    return {
+      revision: stored.revision,
+      entries: new Map(Object.entries(stored.entries)),
+      devices: new Map(Object.entries(stored.devices))
+    };
+  };
+
+  const write = async ({ revision, entries, devices }: SyncDatabase) => {
+    await mkdir(directory, { recursive: true });
+    const temporary = `${file}.${process.pid}.tmp`;
+    const stored: StoredDatabase = {
+      revision,
+      entries: Object.fromEntries(entries),
+      devices: Object.fromEntries(devices)
+    };
+    await writeFile(temporary, JSON.stringify(stored));
+    await rename(temporary, file);
+  };
+
+  const apply = async ({ deviceId, deviceName, cursor, changes }: SyncRequest): Promise<SyncResponse> => {
+    const database = await read();
+    const entries = new Map(database.entries);
+    let { revision } = database;
+    const accepted: SyncResponse["accepted"] = [];
+    const rejected = new Set<string>();
+
+    changes.forEach((change) => {
+      const current = entries.get(change.id);
+      if (current && current.revision !== change.baseRevision) {
+        rejected.add(change.id);
+        return;
+      }
+      let session = null;
+      if (change.session) {
+        const result = upgradeSessionRecord(change.session);
+        if (!result.ok || result.session.id !== change.id) {
+          rejected.add(change.id);
+          return;
+        }
+        session = result.session;
+      }
+      revision += 1;
+      entries.set(change.id, { id: change.id, revision, session });
+      accepted.push({ id: change.id, revision });
+    });
+
+    const device = { id: deviceId, name: deviceName || "Unnamed device", lastSeenAt: new Date().toISOString() };
+    const devices = new Map(database.devices).set(deviceId, device);
+    await write({ revision, entries, devices });
+
+    // A cursor ahead of the server means its data was reset, so the device gets everything again.
+    const since = cursor > revision ? 0 : cursor;
+    const written = new Set(accepted.map((item) => item.id));
+    return {
+      cursor: revision,
+      accepted,
+      entries: [...entries.values()].filter(
+        (entry) => !written.has(entry.id) && (entry.revision > since || rejected.has(entry.id))
+      ),
+      devices: [...devices.values()]
+    };
+  };
+
+  return {
+    exchange(request: SyncRequest) {
+      const result = queue.then(() => apply(request));
+      queue = result.catch(() => undefined);
+      return result;
+    }
+  };
+};
+
+export type FileSyncStore = ReturnType<typeof createFileSyncStore>;
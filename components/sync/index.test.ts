@@ -0,0 +1,219 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, describe, it } from "node:test";
+import type { ChatMessage, ChatSession } from "../types";
+import type { SyncState } from "./config";
+import { createFileSyncStore } from "./fileStore";
+import type { FileSyncStore } from "./fileStore";
+import { applyExchange, collectChanges, fingerprintSession } from "./index";
+
+/*
+ * Devices are simulated with the same steps the sync engine runs: collect the
+ * pending changes, exchange them with a file store standing in for the
+ * server, and fold the response back in. A failed push is an exchange that
+ * throws before anything is applied.
+ */
+
+const directories: string[] = [];
+
+after(() => Promise.all(directories.map((directory) => rm(directory, { recursive: true, force: true }))));
+
+const createServer = async () => {
+  const directory = await mkdtemp(path.join(tmpdir(), "sync-server-"));
+  directories.push(directory);
+  return createFileSyncStore(directory);
+};
+
+const at = (minute: number) => new Date(Date.UTC(2026, 2, 1, 10, minute)).toISOString();
+
+const buildMessage = (id: string, parentId: string | null, minute: number): ChatMessage => ({
+  id,
+  role: id.startsWith("a") ? "assistant" : "user",
+  content: `Message ${id}`,
+  parentId,
+  status: "complete",
+  createdAt: at(minute)
+});
+
+const buildSession = (id: string, messages: ChatMessage[], minute: number): ChatSession => ({
+  id,
+  title: `Chat ${id}`,
+  titleLocked: true,
+  messages,
+  currentNodeId: messages[messages.length - 1]?.id ?? null,
+  provider: "echo",
+  personaId: null,
+  settings: {},
+  folderId: null,
+  tags: [],
+  pinned: false,
+  archived: false,
+  deletedAt: null,
+  createdAt: at(0),
+  updatedAt: at(minute)
+});
+
+const appendMessage = (session: ChatSession, message: ChatMessage): ChatSession => ({
+  ...session,
+  messages: [...session.messages, message],
+  currentNodeId: message.id,
+  updatedAt: message.createdAt
+});
+
+const emptyState = (): SyncState => ({ url: "https://sync.example", cursor: 0, synced: {}, deleted: [] });
+
+const createDevice = (id: string, sessions: ChatSession[] = []) => {
+  const device = {
+    sessions,
+    state: emptyState(),
+    bases: new Map<string, ChatSession>(),
+    async sync(server: Pick<FileSyncStore, "exchange">) {
+      const changes = collectChanges(device.sessions, device.state);
+      const response = await server.exchange({ deviceId: id, deviceName: id, cursor: device.state.cursor, changes });
+      const result = applyExchange(device.sessions, device.state, changes, response, device.bases);
+      device.sessions = result.sessions;
+      device.state = result.state;
+      return result;
+    },
+    edit(sessionId: string, update: (session: ChatSession) => ChatSession) {
+      device.sessions = device.sessions.map((session) => (session.id === sessionId ? update(session) : session));
+    },
+    /** What the engine does when a synced chat disappears from the app. */
+    remove(sessionId: string) {
+      device.sessions = device.sessions.filter((session) => session.id !== sessionId);
+      device.state = { ...device.state, deleted: [...device.state.deleted, sessionId] };
+    }
+  };
+  return device;
+};
+
+/** Two devices that both hold the synced copy of one chat: a question and its answer. */
+const setupTwoDevices = async () => {
+  const server = await createServer();
+  const session = buildSession("s1", [buildMessage("u1", null, 1), buildMessage("a1", "u1", 2)], 2);
+  const first = createDevice("first", [session]);
+  const second = createDevice("second");
+  await first.sync(server);
+  await second.sync(server);
+  return { server, first, second };
+};
+
+const messageIds = (sessions: ChatSession[], id = "s1") =>
+  sessions.find((session) => session.id === id)?.messages.map((message) => message.id);
+
+describe("collectChanges", () => {
+  it("skips untouched new chats, streaming replies and chats already synced as they are", () => {
+    const synced = buildSession("synced", [buildMessage("u1", null, 1)], 1);
+    const streaming = buildSession("streaming", [{ ...buildMessage("u2", null, 1), status: "streaming" }], 1);
+    const edited = buildSession("edited", [buildMessage("u3", null, 1)], 1);
+    const state: SyncState = {
+      ...emptyState(),
+      synced: {
+        synced: { revision: 3, fingerprint: fingerprintSession(synced) },
+        edited: { revision: 4, fingerprint: "old" }
+      }
+    };
+    const changes = collectChanges([buildSession("empty", [], 1), streaming, synced, edited], state);
+    assert.deepEqual(
+      changes.map(({ id, baseRevision }) => [id, baseRevision]),
+      [["edited", 4]]
+    );
+  });
+
+  it("queues deletions of synced chats until the server confirms them", () => {
+    const state: SyncState = {
+      ...emptyState(),
+      synced: { gone: { revision: 2, fingerprint: "x" } },
+      deleted: ["gone", "never-synced"]
+    };
+    assert.deepEqual(collectChanges([], state), [{ id: "gone", baseRevision: 2, session: null }]);
+  });
+});
+
+describe("applyExchange between devices", () => {
+  it("pushes a pending deletion and removes the chat on the other device", async () => {
+    const { server, first, second } = await setupTwoDevices();
+    first.remove("s1");
+    const pushed = await first.sync(server);
+    assert.equal(pushed.conflicts, 0);
+    assert.deepEqual(first.state.deleted, []);
+    assert.equal(first.state.synced.s1, undefined);
+    assert.deepEqual(collectChanges(first.sessions, first.state), []);
+
+    const pulled = await second.sync(server);
+    assert.equal(pulled.replaced.get("s1"), null);
+    assert.deepEqual(second.sessions, []);
+  });
+
+  it("keeps a chat edited here after another device deleted it and pushes it again", async () => {
+    const { server, first, second } = await setupTwoDevices();
+    first.remove("s1");
+    await first.sync(server);
+    second.edit("s1", (session) => appendMessage(session, buildMessage("u2", "a1", 3)));
+
+    const rejected = await second.sync(server);
+    assert.equal(rejected.conflicts, 1);
+    assert.deepEqual(messageIds(second.sessions), ["u1", "a1", "u2"]);
+    await second.sync(server);
+    await first.sync(server);
+    assert.deepEqual(messageIds(first.sessions), ["u1", "a1", "u2"]);
+  });
+
+  it("merges a change rejected for an old revision with the server's copy and pushes the result", async () => {
+    const { server, first, second } = await setupTwoDevices();
+    first.edit("s1", (session) => appendMessage(session, buildMessage("u-first", "a1", 3)));
+    second.edit("s1", (session) => appendMessage(session, buildMessage("u-second", "a1", 4)));
+    await first.sync(server);
+
+    const rejected = await second.sync(server);
+    assert.equal(rejected.conflicts, 1);
+    assert.deepEqual(messageIds(second.sessions), ["u1", "a1", "u-first", "u-second"]);
+    // The merged copy differs from the server's, so it is still pending and goes out with the next round.
+    assert.equal(collectChanges(second.sessions, second.state).length, 1);
+
+    const retried = await second.sync(server);
+    assert.equal(retried.conflicts, 0);
+    assert.deepEqual(collectChanges(second.sessions, second.state), []);
+    await first.sync(server);
+    assert.deepEqual(messageIds(first.sessions), ["u1", "a1", "u-first", "u-second"]);
+  });
+
+  it("takes the server's copy as is when it is newer and nothing changed here", async () => {
+    const { server, first, second } = await setupTwoDevices();
+    first.edit("s1", (session) => ({ ...appendMessage(session, buildMessage("u2", "a1", 5)), title: "Renamed" }));
+    await first.sync(server);
+
+    const pulled = await second.sync(server);
+    assert.equal(pulled.conflicts, 0);
+    assert.equal(second.sessions[0].title, "Renamed");
+    assert.deepEqual(messageIds(second.sessions), ["u1", "a1", "u2"]);
+    assert.equal(second.state.synced.s1.fingerprint, fingerprintSession(second.sessions[0]));
+    assert.deepEqual(collectChanges(second.sessions, second.state), []);
+  });
+
+  it("keeps changes queued through a failed push and sends them with the next one", async () => {
+    const { server, first, second } = await setupTwoDevices();
+    first.edit("s1", (session) => appendMessage(session, buildMessage("u2", "a1", 3)));
+    const failing = {
+      exchange: async () => {
+        throw new TypeError("Failed to fetch");
+      }
+    };
+    const before = first.state;
+
+    await assert.rejects(first.sync(failing), TypeError);
+    assert.equal(first.state, before);
+    assert.deepEqual(
+      collectChanges(first.sessions, first.state).map((change) => change.id),
+      ["s1"]
+    );
+
+    const retried = await first.sync(server);
+    assert.equal(retried.conflicts, 0);
+    assert.deepEqual(collectChanges(first.sessions, first.state), []);
+    await second.sync(server);
+    assert.deepEqual(messageIds(second.sessions), ["u1", "a1", "u2"]);
+  });
+});
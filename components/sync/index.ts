@@ -0,0 +1,397 @@
+import { mergeSession } from "../storage/merge";
+import { upgradeSessionRecord } from "../storage/schema";
+import type { ChatSession } from "../types";
+import { readSyncState, writeSyncState } from "./config";
+import type { SyncConfig, SyncState } from "./config";
+import { parseSyncResponse } from "./protocol";
+import type { SyncChange, SyncDevice, SyncRequest, SyncResponse } from "./protocol";
+
+const PUSH_DELAY_MS = 2000;
+const POLL_INTERVAL_MS = 30000;
+const MIN_RETRY_MS = 5000;
+const MAX_RETRY_MS = 5 * 60 * 1000;
+// Each conflict costs a round trip; whatever is still rejected after this waits for the next sync.
+const MAX_ROUNDS = 3;
+const LOCK_NAME = "chatgpt-local-sync";
+
+export type SyncPhase = "off" | "standby" | "syncing" | "synced" | "offline" | "error";
+
+export interface SyncStatus {
+  /** "standby" while another tab of this browser does the syncing. */
+  phase: SyncPhase;
+  /** Local changes not on the server yet. */
+  pending: number;
+  lastSyncedAt: string | null;
+  error: string | null;
+  devices: SyncDevice[];
+}
+
+export const SYNC_OFF: SyncStatus = { phase: "off", pending: 0, lastSyncedAt: null, error: null, devices: [] };
+
+export class SyncError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SyncError";
+  }
+}
+
+const describeSyncError = (error: unknown) => {
+  if (error instanceof SyncError) return error.message;
+  if (error instanceof TypeError) return "The sync server could not be reached.";
+  return "Syncing failed unexpectedly.";
+};
+
+const fingerprints = new WeakMap<ChatSession, string>();
+
+/** FNV-1a over the serialized session; sessions are never mutated, so each object is hashed once. */
+export const fingerprintSession = (session: ChatSession) => {
+  const cached = fingerprints.get(session);
+  if (cached) return cached;
+  const json = JSON.stringify(session);
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < json.length; index += 1) {
+    hash ^= json.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  const fingerprint = `${json.length.toString(36)}-${(hash >>> 0).toString(36)}`;
+  fingerprints.set(session, fingerprint);
+  return fingerprint;
+};
+
+/** Sessions that differ from their last synced copy, followed by the deletions still queued. */
+export const collectChanges = (sessions: ChatSession[], state: SyncState): SyncChange[] => {
+  const changes: SyncChange[] = [];
+  sessions.forEach((session) => {
+    const synced = state.synced[session.id];
+    // Untouched new chats stay local, and a reply is pushed once it has finished streaming.
+    if (!synced && !session.messages.length) return;
+    if (session.messages.some((message) => message.status === "streaming")) return;
+    if (synced && synced.fingerprint === fingerprintSession(session)) return;
+    changes.push({ id: session.id, baseRevision: synced?.revision ?? 0, session });
+  });
+  state.deleted.forEach((id) => {
+    const synced = state.synced[id];
+    if (synced) changes.push({ id, baseRevision: synced.revision, session: null });
+  });
+  return changes;
+};
+
+export interface ExchangeResult {
+  sessions: ChatSession[];
+  /** Sessions the server's entries replaced or added, null for the ones it removed. */
+  replaced: Map<string, ChatSession | null>;
+  state: SyncState;
+  /** Rejected changes; they were merged with the server's copy and need pushing again. */
+  conflicts: number;
+}
+
+/**
+ * Folds a server response into the local sessions and sync state. `bases`
+ * holds the last synced copy of each session as the common ancestor for
+ * merges and is updated in place.
+ */
+export const applyExchange = (
+  sessions: ChatSession[],
+  state: SyncState,
+  changes: SyncChange[],
+  response: SyncResponse,
+  bases: Map<string, ChatSession>
+): ExchangeResult => {
+  const synced = { ...state.synced };
+  const deleted = new Set(state.deleted);
+  const rejected = new Map(changes.map((change) => [change.id, change]));
+  response.accepted.forEach(({ id, revision }) => {
+    const change = rejected.get(id);
+    if (!change) return;
+    rejected.delete(id);
+    if (change.session) {
+      synced[id] = { revision, fingerprint: fingerprintSession(change.session) };
+      bases.set(id, change.session);
+    } else {
+      delete synced[id];
+      bases.delete(id);
+      deleted.delete(id);
+    }
+  });
+
+  const byId = new Map(sessions.map((session) => [session.id, session]));
+  const replaced = new Map<string, ChatSession | null>();
+  let conflicts = 0;
+  response.entries.forEach((entry) => {
+    if (rejected.has(entry.id)) conflicts += 1;
+    const local = byId.get(entry.id);
+    const known = synced[entry.id];
+    const changedHere = local ? !known || known.fingerprint !== fingerprintSession(local) : deleted.has(entry.id);
+
+    if (!entry.session) {
+      if (local && changedHere) {
+        // Edited here after another device deleted it, so it is pushed again.
+        synced[entry.id] = { revision: entry.revision, fingerprint: "" };
+        return;
+      }
+      delete synced[entry.id];
+      bases.delete(entry.id);
+      deleted.delete(entry.id);
+      if (local) replaced.set(entry.id, null);
+      return;
+    }
+
+    const result = upgradeSessionRecord(entry.session);
+    if (!result.ok) {
+      console.warn("Skipped a synced session that failed validation", result.quarantined.reason);
+      return;
+    }
+    const remote = result.session;
+    // Changed elsewhere after it was deleted here, so it comes back.
+    deleted.delete(entry.id);
+    synced[entry.id] = { revision: entry.revision, fingerprint: fingerprintSession(remote) };
+    replaced.set(entry.id, local && changedHere ? mergeSession(bases.get(entry.id), local, remote) : remote);
+    bases.set(entry.id, remote);
+  });
+
+  const added = [...replaced.values()].filter(
+    (session): session is ChatSession => session !== null && !byId.has(session.id)
+  );
+  const kept = sessions.flatMap((session) => {
+    if (!replaced.has(session.id)) return [session];
+    const next = replaced.get(session.id);
+    return next ? [next] : [];
+  });
+  return {
+    sessions: [...added, ...kept],
+    replaced,
+    state: { ...state, cursor: response.cursor, synced, deleted: [...deleted] },
+    conflicts
+  };
+};
+
+const isSameServer = (a: SyncConfig, b: SyncConfig) =>
+  a.enabled === b.enabled && a.url === b.url && a.token === b.token;
+
+type SessionUpdate = (current: ChatSession[]) => ChatSession[];
+
+/** Applies pulled sessions on top of whatever the app changed while the exchange was in flight. */
+const rebase = (snapshot: ChatSession[], replaced: Map<string, ChatSession | null>): SessionUpdate => {
+  const before = new Map(snapshot.map((session) => [session.id, session]));
+  return (current) => {
+    const currentIds = new Set(current.map((session) => session.id));
+    const added = [...replaced].flatMap(([id, session]) =>
+      session && !currentIds.has(id) && !before.has(id) ? [session] : []
+    );
+    const kept = current.flatMap((session) => {
+      if (!replaced.has(session.id)) return [session];
+      const incoming = replaced.get(session.id) ?? null;
+      const original = before.get(session.id);
+      if (session === original) return incoming ? [incoming] : [];
+      return [incoming ? mergeSession(original, session, incoming) : session];
+    });
+    return [...added, ...kept];
+  };
+};
+
+/**
+ * Pushes local session changes to the configured server and pulls other
+ * devices' changes into the app through `onRemote`. Only one tab per browser
+ * syncs (whichever holds the Web Lock); the others see its results through
+ * the shared session store. Changes made offline stay pending in the
+ * persisted sync state until a push succeeds.
+ */
+export const createSyncEngine = (onRemote: (update: SessionUpdate) => void, onStatus: (status: SyncStatus) => void) => {
+  let config: SyncConfig | null = null;
+  let sessions: ChatSession[] | null = null;
+  let state: SyncState | null = null;
+  let status = SYNC_OFF;
+  const bases = new Map<string, ChatSession>();
+  // Bumped whenever the server or token changes, so answers to older requests are dropped.
+  let generation = 0;
+  let releaseLock: (() => void) | null = null;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let retryDelay = MIN_RETRY_MS;
+  let isRunning = false;
+  let runAgain = false;
+
+  const report = (patch: Partial<SyncStatus>) => {
+    status = { ...status, ...patch };
+    onStatus(status);
+  };
+
+  const countPending = () => (sessions && state ? collectChanges(sessions, state).length : 0);
+
+  const schedule = (delay: number) => {
+    clearTimeout(timer);
+    if (!state) return;
+    timer = setTimeout(() => void run(), delay);
+  };
+
+  const exchange = async (active: SyncConfig, request: SyncRequest): Promise<SyncResponse> => {
+    const response = await fetch(active.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${active.token}` },
+      body: JSON.stringify(request)
+    });
+    const body: unknown = await response.json().catch(() => null);
+    if (!response.ok) {
+      const message = (body as { error?: { message?: unknown } } | null)?.error?.message;
+      throw new SyncError(typeof message === "string" ? message : `The sync server responded with ${response.status}`);
+    }
+    const parsed = parseSyncResponse(body);
+    if (!parsed) throw new SyncError("The sync server sent a response this app does not understand.");
+    return parsed;
+  };
+
+  const run = async () => {
+    if (!config || !state || !sessions) return;
+    if (isRunning) {
+      runAgain = true;
+      return;
+    }
+    if (!navigator.onLine) {
+      report({ phase: "offline", pending: countPending() });
+      return;
+    }
+    const active = config;
+    const started = generation;
+    isRunning = true;
+    report({ phase: "syncing", error: null });
+    try {
+      for (let round = 0; round < MAX_ROUNDS; round += 1) {
+        const snapshot: ChatSession[] = sessions;
+        const changes = collectChanges(snapshot, state);
+        const response = await exchange(active, {
+          deviceId: active.deviceId,
+          deviceName: active.deviceName,
+          cursor: state.cursor,
+          changes
+        });
+        if (started !== generation || !state) return;
+        const result = applyExchange(snapshot, state, changes, response, bases);
+        state = result.state;
+        writeSyncState(state);
+        if (result.replaced.size) {
+          sessions = result.sessions;
+          onRemote(rebase(snapshot, result.replaced));
+        }
+        report({ devices: response.devices });
+        if (!result.conflicts) break;
+      }
+      retryDelay = MIN_RETRY_MS;
+      report({ phase: "synced", lastSyncedAt: new Date().toISOString(), pending: countPending() });
+      schedule(POLL_INTERVAL_MS);
+    } catch (error) {
+      if (started !== generation) return;
+      console.warn("Failed to sync chat history", error);
+      const isOffline = !navigator.onLine;
+      report({
+        phase: isOffline ? "offline" : "error",
+        error: isOffline ? null : describeSyncError(error),
+        pending: countPending()
+      });
+      schedule(retryDelay);
+      retryDelay = Math.min(retryDelay * 2, MAX_RETRY_MS);
+    } finally {
+      isRunning = false;
+      if (runAgain) {
+        runAgain = false;
+        schedule(PUSH_DELAY_MS);
+      }
+    }
+  };
+
+  const lead = (active: SyncConfig) => {
+    state = readSyncState(active.url);
+    bases.clear();
+    retryDelay = MIN_RETRY_MS;
+    report({ phase: "syncing", pending: countPending() });
+    schedule(0);
+  };
+
+  const stepDown = () => {
+    generation += 1;
+    clearTimeout(timer);
+    state = null;
+    releaseLock?.();
+    releaseLock = null;
+  };
+
+  const handleOnline = () => schedule(0);
+  const handleOffline = () => {
+    if (state) report({ phase: "offline", pending: countPending() });
+  };
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === "visible") schedule(0);
+  };
+  window.addEventListener("online", handleOnline);
+  window.addEventListener("offline", handleOffline);
+  document.addEventListener("visibilitychange", handleVisibilityChange);
+
+  return {
+    configure(next: SyncConfig) {
+      const previous = config;
+      config = next;
+      // A new device name goes out with the next exchange.
+      if (previous && isSameServer(previous, next)) return;
+      stepDown();
+      if (!next.enabled) {
+        report(SYNC_OFF);
+        return;
+      }
+      report({ ...SYNC_OFF, phase: "standby" });
+      const requested = generation;
+      if (!navigator.locks) {
+        lead(next);
+        return;
+      }
+      void navigator.locks.request(LOCK_NAME, () => {
+        // Settings changed while waiting; returning straight away hands the lock on.
+        if (requested !== generation) return undefined;
+        lead(next);
+        return new Promise<void>((resolve) => {
+          releaseLock = resolve;
+        });
+      });
+    },
+    /** Called with every change to the app's sessions. */
+    update(next: ChatSession[]) {
+      const previous = sessions;
+      sessions = next;
+      if (!state) return;
+      if (previous) {
+        const ids = new Set(next.map((session) => session.id));
+        const { synced, deleted } = state;
+        const removed = previous
+          .filter((session) => !ids.has(session.id) && synced[session.id] && !deleted.includes(session.id))
+          .map((session) => session.id);
+        if (removed.length) {
+          state = { ...state, deleted: [...deleted, ...removed] };
+          writeSyncState(state);
+        }
+      }
+      const pending = countPending();
+      if (pending !== status.pending) report({ pending });
+      if (!previous) {
+        schedule(0);
+      } else if (isRunning) {
+        runAgain = runAgain || pending > 0;
+      } else if (pending && status.phase === "synced") {
+        // After a failure the retry timer stays in charge, so typing doesn't hammer the server.
+        schedule(PUSH_DELAY_MS);
+      }
+    },
+    syncNow() {
+      retryDelay = MIN_RETRY_MS;
+      schedule(0);
+    },
+    stop() {
+      stepDown();
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    }
+  };
+};
+
+export type SyncEngine = ReturnType<typeof createSyncEngine>;
+
+export { SYNC_CONFIG_KEY, readSyncConfig, writeSyncConfig } from "./config";
+export type { SyncConfig } from "./config";
+export type { SyncDevice } from "./protocol";
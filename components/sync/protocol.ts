@@ -0,0 +1,95 @@
+import type { ChatSession } from "../types";
+
+/*
+ * `POST /api/sync` pushes local changes and pulls everyone else's in one
+ * round trip. Every write to a session bumps the server's revision counter;
+ * a change is only accepted when its `baseRevision` matches the session's
+ * current revision, so a device that missed an update gets the newer copy
+ * back instead of overwriting it, merges, and pushes again.
+ */
+
+export const SYNC_ROUTE_PATH = "/api/sync";
+
+/** A session as last written to the server; `session` is null once it was deleted. */
+export interface SyncEntry {
+  id: string;
+  revision: number;
+  session: ChatSession | null;
+}
+
+export interface SyncChange {
+  id: string;
+  /** The revision this device last saw, 0 for sessions the server has never had. */
+  baseRevision: number;
+  session: ChatSession | null;
+}
+
+export interface SyncDevice {
+  id: string;
+  name: string;
+  lastSeenAt: string;
+}
+
+export interface SyncRequest {
+  deviceId: string;
+  deviceName: string;
+  /** The highest revision this device has pulled. */
+  cursor: number;
+  changes: SyncChange[];
+}
+
+export interface SyncResponse {
+  cursor: number;
+  accepted: { id: string; revision: number }[];
+  /** Sessions written by other devices since the cursor, including the current copy of every rejected change. */
+  entries: SyncEntry[];
+  devices: SyncDevice[];
+}
+
+export type SyncErrorCode = "unauthorized" | "bad_request" | "not_configured" | "server_error";
+
+export interface SyncErrorPayload {
+  code: SyncErrorCode;
+  message: string;
+}
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+const isRevision = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const isSessionOrNull = (value: unknown) => value === null || isRecord(value);
+
+const isSyncDevice = (value: unknown): value is SyncDevice =>
+  isRecord(value) && isString(value.id) && isString(value.name) && isString(value.lastSeenAt);
+
+/** Checks the envelope only; sessions still go through the storage schema on whichever side reads them. */
+export const parseSyncRequest = (body: unknown): SyncRequest | null => {
+  if (!isRecord(body)) return null;
+  const { deviceId, deviceName, cursor, changes } = body;
+  if (!isString(deviceId) || !deviceId || !isString(deviceName) || !isRevision(cursor)) return null;
+  if (!Array.isArray(changes)) return null;
+  const valid = changes.every(
+    (change) =>
+      isRecord(change) && isString(change.id) && isRevision(change.baseRevision) && isSessionOrNull(change.session)
+  );
+  if (!valid) return null;
+  return { deviceId, deviceName: deviceName.trim().slice(0, 80), cursor, changes: changes as SyncChange[] };
+};
+
+export const parseSyncResponse = (body: unknown): SyncResponse | null => {
+  if (!isRecord(body)) return null;
+  const { cursor, accepted, entries, devices } = body;
+  if (!isRevision(cursor) || !Array.isArray(accepted) || !Array.isArray(entries) || !Array.isArray(devices)) {
+    return null;
+  }
+  const valid =
+    accepted.every((item) => isRecord(item) && isString(item.id) && isRevision(item.revision)) &&
+    entries.every(
+      (entry) => isRecord(entry) && isString(entry.id) && isRevision(entry.revision) && isSessionOrNull(entry.session)
+    ) &&
+    devices.every(isSyncDevice);
+  return valid ? (body as unknown as SyncResponse) : null;
+};
@@ -0,0 +1,66 @@
+import { getActivePath } from "./messageTree";
+import type { AssistantProvider } from "./providers";
+import type { ChatMessage, ChatSession } from "./types";
+
+export const DEFAULT_TITLE = "New chat";
+
+const MAX_DERIVED_LENGTH = 45;
+const MAX_GENERATED_LENGTH = 60;
+const TITLE_PROMPT =
+  "Write a short title of at most six words for the conversation above. Reply with the title only, without quotes.";
+
+/** Titles a conversation after the first user message on the given path. */
+export const deriveTitle = (messages: ChatMessage[]) => {
+  const firstUser = messages.find((message) => message.role === "user");
+  if (!firstUser) {
+    return DEFAULT_TITLE;
+  }
+  const trimmed = (firstUser.content.trim() || firstUser.attachments?.[0]?.name || "").replace(/\s+/g, " ");
+  if (!trimmed) {
+    return DEFAULT_TITLE;
+  }
+  if (trimmed.length <= MAX_DERIVED_LENGTH) {
+    return trimmed;
+  }
+  return `${trimmed.slice(0, MAX_DERIVED_LENGTH)}…`;
+};
+
+/** Keeps a locked title, otherwise re-derives it from the branch being viewed. */
+export const resolveTitle = (session: Pick<ChatSession, "title" | "titleLocked" | "messages" | "currentNodeId">) => {
+  return session.titleLocked ? session.title : deriveTitle(getActivePath(session));
+};
+
+/** Reduces a model reply to a single clean title line, or "" when nothing usable came back. */
+export const cleanGeneratedTitle = (text: string) => {
+  const line = text
+    .split("\n")
+    .map((item) => item.trim())
+    .find(Boolean);
+  if (!line) return "";
+  const title = line
+    .replace(/^title:\s*/i, "")
+    .replace(/^[#*"'“”‘’`\s]+|[*"'“”‘’`\s]+$/g, "")
+    .replace(/[.。]+$/, "")
+    .trim();
+  return title.length <= MAX_GENERATED_LENGTH ? title : `${title.slice(0, MAX_GENERATED_LENGTH)}…`;
+};
+
+/** Asks the provider to summarise the exchange into a title; resolves to "" when it can't. */
+export const generateTitle = async (provider: AssistantProvider, messages: ChatMessage[], signal?: AbortSignal) => {
+  if (!provider.canSummarize) return "";
+  const prompt: ChatMessage = {
+    id: "title-prompt",
+    role: "user",
+    content: TITLE_PROMPT,
+    parentId: messages[messages.length - 1]?.id ?? null,
+    createdAt: new Date().toISOString()
+  };
+  let text = "";
+  for await (const token of provider.streamReply([...messages, prompt], {
+    signal,
+    params: { temperature: 0.3, maxTokens: 24 }
+  })) {
+    text += token;
+  }
+  return cleanGeneratedTitle(text);
+};
@@ -0,0 +1,55 @@
+import type { ChatMessage } from "./types";
+
+/*
+ * Local token estimate modelled on cl100k-style tokenizers: text is split with
+ * the same pre-tokenization pattern, then each piece is costed the way BPE
+ * usually merges it (common short words are one token, longer words roughly
+ * one per four characters, CJK about one per character). It stays within a
+ * few percent of the real count for typical chat text without shipping a
+ * vocabulary to the browser.
+ */
+
+const PRE_TOKENIZE = /'(?:s|t|re|ve|m|ll|d)| ?\p{L}+| ?\p{N}{1,3}| ?[^\s\p{L}\p{N}]+|\s+/giu;
+const CJK = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+// ChatML wraps every message in role markers, and each reply is primed with a few tokens.
+const TOKENS_PER_MESSAGE = 4;
+const TOKENS_PER_REPLY = 3;
+// Vision models bill an image by its tiles; this is the cost of a typical photo at high detail.
+const TOKENS_PER_IMAGE = 765;
+
+const countPiece = (piece: string) => {
+  const trimmed = piece.trimStart();
+  if (!trimmed) return 1;
+  if (CJK.test(trimmed)) return [...trimmed].length;
+  if (/^\p{L}+$/u.test(trimmed)) return trimmed.length <= 6 ? 1 : Math.ceil(trimmed.length / 4);
+  if (/^\p{N}+$/u.test(trimmed)) return 1;
+  return Math.ceil(trimmed.length / 2);
+};
+
+export const countTokens = (text: string) => {
+  let total = 0;
+  for (const match of text.matchAll(PRE_TOKENIZE)) {
+    total += countPiece(match[0]);
+  }
+  return total;
+};
+
+const messageCache = new WeakMap<ChatMessage, number>();
+
+/** Tokens a message costs in a chat request, cached per (immutable) message object. */
+export const countMessageTokens = (message: ChatMessage) => {
+  const cached = messageCache.get(message);
+  if (cached !== undefined) return cached;
+  const attachments = (message.attachments ?? []).reduce(
+    (sum, attachment) => sum + (attachment.kind === "image" ? TOKENS_PER_IMAGE : countTokens(attachment.text ?? "")),
+    0
+  );
+  const tokens = countTokens(message.content) + attachments + TOKENS_PER_MESSAGE;
+  messageCache.set(message, tokens);
+  return tokens;
+};
+
+export const countRequestTokens = (messages: ChatMessage[]) => {
+  return messages.reduce((sum, message) => sum + countMessageTokens(message), TOKENS_PER_REPLY);
+};
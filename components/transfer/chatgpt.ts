@@ -0,0 +1,105 @@
+import { CURRENT_SCHEMA_VERSION } from "../storage/schema";
+import type { StoredRecord } from "../storage/schema";
+
+/*
+ * Converts conversations.json from the official ChatGPT data export. Each
+ * conversation is a `mapping` of nodes linked by `parent`; nodes that are not
+ * user or assistant text (system prompts, tool calls) are skipped and their
+ * children re-attached to the nearest kept ancestor.
+ */
+
+type ChatGPTNode = {
+  id: string;
+  parent?: string | null;
+  message?: {
+    id?: string;
+    author?: { role?: string };
+    create_time?: number | null;
+    content?: { content_type?: string; parts?: unknown[] };
+  } | null;
+};
+
+type ChatGPTConversation = {
+  id?: string;
+  conversation_id?: string;
+  title?: string;
+  create_time?: number;
+  update_time?: number;
+  current_node?: string;
+  is_archived?: boolean;
+  mapping: Record<string, ChatGPTNode>;
+};
+
+export const isChatGPTExport = (value: unknown): value is ChatGPTConversation[] => {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every((item) => item && typeof item === "object" && typeof item.mapping === "object" && item.mapping)
+  );
+};
+
+const toIso = (seconds: number | null | undefined, fallback: string) => {
+  return typeof seconds === "number" && Number.isFinite(seconds) ? new Date(seconds * 1000).toISOString() : fallback;
+};
+
+const textOf = (node: ChatGPTNode) => {
+  const content = node.message?.content;
+  if (!content || (content.content_type && content.content_type !== "text")) return null;
+  const parts = (content.parts ?? []).filter((part): part is string => typeof part === "string");
+  const text = parts.join("\n").trim();
+  return text ? text : null;
+};
+
+const convertConversation = (conversation: ChatGPTConversation, now: string): StoredRecord => {
+  const createdAt = toIso(conversation.create_time, now);
+  const kept = new Map<string, { role: "user" | "assistant"; content: string; createdAt: string }>();
+  Object.values(conversation.mapping).forEach((node) => {
+    const role = node.message?.author?.role;
+    const content = textOf(node);
+    if ((role === "user" || role === "assistant") && content) {
+      kept.set(node.id, { role, content, createdAt: toIso(node.message?.create_time, createdAt) });
+    }
+  });
+
+  const nearestKept = (nodeId: string | null | undefined) => {
+    const seen = new Set<string>();
+    let cursor = nodeId ? conversation.mapping[nodeId] : undefined;
+    while (cursor && !seen.has(cursor.id)) {
+      if (kept.has(cursor.id)) return cursor.id;
+      seen.add(cursor.id);
+      cursor = cursor.parent ? conversation.mapping[cursor.parent] : undefined;
+    }
+    return null;
+  };
+
+  const messages = [...kept.entries()].map(([id, message]) => ({
+    id,
+    ...message,
+    parentId: nearestKept(conversation.mapping[id]?.parent),
+    status: "complete"
+  }));
+  const fallbackLeaf = messages.length ? messages[messages.length - 1].id : null;
+
+  return {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    id: conversation.conversation_id || conversation.id || "",
+    title: conversation.title || "",
+    titleLocked: Boolean(conversation.title),
+    messages,
+    currentNodeId: nearestKept(conversation.current_node) ?? fallbackLeaf,
+    provider: "echo",
+    personaId: null,
+    settings: {},
+    folderId: null,
+    tags: [],
+    pinned: false,
+    archived: Boolean(conversation.is_archived),
+    deletedAt: null,
+    createdAt,
+    updatedAt: toIso(conversation.update_time, createdAt)
+  };
+};
+
+export const convertChatGPTExport = (conversations: ChatGPTConversation[], now = new Date().toISOString()) => {
+  return conversations.map((conversation) => convertConversation(conversation, now));
+};
@@ -0,0 +1,156 @@
+import { getActivePath } from "../messageTree";
+import { CURRENT_SCHEMA_VERSION, toStoredSession } from "../storage/schema";
+import type { StoredSession } from "../storage/schema";
+import type { ChatMessage, ChatSession, Persona } from "../types";
+
+export type ExportFormat = "json" | "markdown" | "html";
+
+export const EXPORT_FORMAT_ID = "chatgpt-local-export";
+
+export interface ExportFile {
+  format: typeof EXPORT_FORMAT_ID;
+  schemaVersion: number;
+  exportedAt: string;
+  sessions: StoredSession[];
+  personas?: Persona[];
+}
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { id: "json", label: "JSON", extension: "json", mimeType: "application/json" },
+  { id: "markdown", label: "Markdown", extension: "md", mimeType: "text/markdown" },
+  { id: "html", label: "HTML", extension: "html", mimeType: "text/html" }
+];
+
+const ROLE_LABELS: Record<ChatMessage["role"], string> = {
+  system: "System",
+  user: "You",
+  assistant: "Assistant"
+};
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString();
+
+export const toJsonExport = (
+  sessions: ChatSession[],
+  personas: Persona[] = [],
+  exportedAt = new Date().toISOString()
+) => {
+  const file: ExportFile = {
+    format: EXPORT_FORMAT_ID,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt,
+    sessions: sessions.map(toStoredSession),
+    personas
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+/** Markdown and HTML exports contain the branch currently being viewed in each session. */
+export const toMarkdownExport = (sessions: ChatSession[]) => {
+  return sessions
+    .map((session) => {
+      const lines = [`# ${session.title}`, "", `_Created ${formatDate(session.createdAt)}_`, ""];
+      getActivePath(session).forEach((message) => {
+        lines.push(`### ${ROLE_LABELS[message.role]}`, "", message.content, "");
+        if (message.attachments?.length) {
+          lines.push(`_Attached: ${message.attachments.map((attachment) => attachment.name).join(", ")}_`, "");
+        }
+        if (message.rating) {
+          const comment = message.rating.comment ? ` — ${message.rating.comment}` : "";
+          lines.push(`> Rated ${message.rating.value === "up" ? "👍" : "👎"}${comment}`, "");
+        }
+      });
+      return lines.join("\n").trimEnd();
+    })
+    .join("\n\n---\n\n")
+    .concat("\n");
+};
+
+const HTML_STYLES = `
+  body { margin: 0; background: #343541; color: #ececf1; font-family: "Inter", "Segoe UI", system-ui, sans-serif; }
+  main { max-width: 760px; margin: 0 auto; padding: 32px 16px; }
+  h1 { font-size: 1.4rem; margin: 32px 0 4px; }
+  .meta { color: #a1a4ac; font-size: 0.85rem; margin-bottom: 16px; }
+  .message { border-radius: 12px; padding: 12px 16px; margin: 12px 0; white-space: pre-wrap; line-height: 1.6; }
+  .user { background: #444654; margin-left: 15%; }
+  .assistant { background: #2a2b32; margin-right: 15%; }
+  .role { display: block; font-weight: 600; font-size: 0.8rem; color: #a1a4ac; margin-bottom: 4px; }
+  hr { border: none; border-top: 1px solid #4d4d4f; margin: 40px 0; }
+`;
+
+export const toHtmlExport = (sessions: ChatSession[]) => {
+  const body = sessions
+    .map((session) => {
+      const messages = getActivePath(session)
+        .map(
+          (message) =>
+            `<div class="message ${message.role}"><span class="role">${ROLE_LABELS[message.role]}</span>` +
+            `${escapeHtml(message.content)}</div>`
+        )
+        .join("\n");
+      return [
+        `<section>`,
+        `<h1>${escapeHtml(session.title)}</h1>`,
+        `<div class="meta">Created ${escapeHtml(formatDate(session.createdAt))}</div>`,
+        messages,
+        `</section>`
+      ].join("\n");
+    })
+    .join("\n<hr />\n");
+  const title = sessions.length === 1 ? sessions[0].title : "Chat history";
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<main>
+${body}
+</main>
+</body>
+</html>
+`;
+};
+
+const slugify = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60) || "chat";
+
+/** JSON exports also carry `personas` so sessions keep their persona when imported elsewhere. */
+export const buildExport = (sessions: ChatSession[], format: ExportFormat, personas: Persona[] = []) => {
+  const { extension, mimeType } = EXPORT_FORMATS.find((item) => item.id === format) ?? EXPORT_FORMATS[0];
+  const baseName =
+    sessions.length === 1 ? slugify(sessions[0].title) : `chat-history-${new Date().toISOString().slice(0, 10)}`;
+  const renderers: Record<ExportFormat, (items: ChatSession[]) => string> = {
+    json: (items) => toJsonExport(items, personas),
+    markdown: toMarkdownExport,
+    html: toHtmlExport
+  };
+  const content = renderers[format](sessions);
+  return { fileName: `${baseName}.${extension}`, mimeType, content };
+};
+
+export const downloadFile = ({ fileName, mimeType, content }: ReturnType<typeof buildExport>) => {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = fileName;
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,109 @@
+import { v4 as uuid } from "uuid";
+import { isPersona } from "../personas";
+import { sanitizeSessions } from "../storage/schema";
+import type { ChatSession, Persona } from "../types";
+import { convertChatGPTExport, isChatGPTExport } from "./chatgpt";
+import { EXPORT_FORMAT_ID } from "./export";
+
+export interface ImportResult {
+  sessions: ChatSession[];
+  /** Personas bundled with an export; the caller decides which ones are new. */
+  personas: Persona[];
+  /** Sessions identical to ones already stored. */
+  duplicates: number;
+  /** Records that failed validation. */
+  invalid: number;
+  source: "export" | "chatgpt";
+}
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportError";
+  }
+}
+
+type ImportRecords = { records: unknown[]; personas: Persona[]; source: ImportResult["source"] };
+
+const readRecords = (text: string): ImportRecords => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new ImportError("The file is not valid JSON.");
+  }
+
+  if (isChatGPTExport(parsed)) {
+    return { records: convertChatGPTExport(parsed), personas: [], source: "chatgpt" };
+  }
+  if (parsed && typeof parsed === "object" && (parsed as { format?: unknown }).format === EXPORT_FORMAT_ID) {
+    const { sessions, personas } = parsed as { sessions?: unknown; personas?: unknown };
+    const validPersonas = Array.isArray(personas) ? personas.filter(isPersona) : [];
+    if (Array.isArray(sessions)) return { records: sessions, personas: validPersonas, source: "export" };
+  }
+  if (Array.isArray(parsed)) {
+    return { records: parsed, personas: [], source: "export" };
+  }
+  throw new ImportError("The file is neither a chat export nor a ChatGPT conversations.json.");
+};
+
+const isSameSession = (a: ChatSession, b: ChatSession) => {
+  return a.updatedAt === b.updatedAt && a.messages.length === b.messages.length;
+};
+
+/** Gives a session and all of its messages fresh ids, keeping the tree links intact. */
+const reassignIds = (session: ChatSession): ChatSession => {
+  const ids = new Map(session.messages.map((message) => [message.id, uuid()]));
+  const remap = (id: string | null) => (id ? ids.get(id) ?? null : null);
+  return {
+    ...session,
+    id: uuid(),
+    messages: session.messages.map((message) => ({
+      ...message,
+      id: ids.get(message.id) as string,
+      parentId: remap(message.parentId)
+    })),
+    currentNodeId: remap(session.currentNodeId)
+  };
+};
+
+/**
+ * Parses an export or ChatGPT conversations.json and validates every session
+ * through the storage schema. Sessions whose id is already taken are skipped
+ * when unchanged, otherwise imported as a copy with new ids.
+ */
+export const parseImport = (text: string, existing: ChatSession[]): ImportResult => {
+  const { records, personas, source } = readRecords(text);
+  const { sessions, quarantined } = sanitizeSessions(
+    records.map((record) =>
+      record && typeof record === "object" && !(record as { id?: unknown }).id ? { ...record, id: uuid() } : record
+    )
+  );
+
+  const existingById = new Map(existing.map((session) => [session.id, session]));
+  const seen = new Set<string>();
+  let duplicates = 0;
+  const imported: ChatSession[] = [];
+  sessions.forEach((session) => {
+    const current = existingById.get(session.id);
+    if (current && isSameSession(current, session)) {
+      duplicates += 1;
+      return;
+    }
+    const next = current || seen.has(session.id) ? reassignIds(session) : session;
+    seen.add(next.id);
+    imported.push(next);
+  });
+
+  return { sessions: imported, personas, duplicates, invalid: quarantined.length, source };
+};
+
+export const describeImport = ({ sessions, duplicates, invalid, source }: ImportResult, addedPersonas = 0) => {
+  const parts = [
+    `Imported ${sessions.length} chat${sessions.length === 1 ? "" : "s"}${source === "chatgpt" ? " from ChatGPT" : ""}.`
+  ];
+  if (addedPersonas) parts.push(`Added ${addedPersonas} persona${addedPersonas === 1 ? "" : "s"}.`);
+  if (duplicates) parts.push(`${duplicates} already existed and ${duplicates === 1 ? "was" : "were"} skipped.`);
+  if (invalid) parts.push(`${invalid} could not be read.`);
+  return parts.join(" ");
+};
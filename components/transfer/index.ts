@@ -0,0 +1,4 @@
+export { EXPORT_FORMATS, buildExport, downloadFile } from "./export";
+export type { ExportFormat } from "./export";
+export { ImportError, describeImport, parseImport } from "./import";
+export type { ImportResult } from "./import";
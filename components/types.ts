@@ -1,16 +1,113 @@
-export type ChatRole = "user" | "assistant";
+export type ChatRole = "system" | "user" | "assistant";
+
+export type ProviderId = "echo" | "openai" | "mock";
+
+/** One piece of a multi-part message as sent to a provider; images travel as data URLs. */
+export type MessagePart = { type: "text"; text: string } | { type: "image"; url: string };
+
+export interface GenerationParams {
+  model?: string;
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  stop?: string[];
+}
+
+export type ContextStrategy = "sliding-window" | "pinned" | "summary";
+
+export interface SessionSettings extends GenerationParams {
+  /** Most tokens sent with a request, system prompt included. */
+  contextBudget?: number;
+  /** How history is cut down once it no longer fits in `contextBudget`. */
+  contextStrategy?: ContextStrategy;
+}
+
+export interface ContextSummary {
+  content: string;
+  /** The summary covers the active path from the root down to this message. */
+  throughMessageId: string;
+  createdAt: string;
+}
+
+export type RatingValue = "up" | "down";
+
+export interface MessageRating {
+  value: RatingValue;
+  comment?: string;
+  ratedAt: string;
+}
+
+export type MessageStatus = "streaming" | "complete" | "interrupted" | "error";
+
+export type AttachmentKind = "image" | "text";
+
+/** Metadata kept on the message; the original file is stored as a blob under the same id. */
+export interface ChatAttachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  kind: AttachmentKind;
+  /** Text read from text files and PDFs, sent inline with the message. */
+  text?: string;
+}
 
 export interface ChatMessage {
   id: string;
   role: ChatRole;
   content: string;
+  parentId: string | null;
+  status?: MessageStatus;
+  rating?: MessageRating;
+  attachments?: ChatAttachment[];
+  /** Kept in the context window ahead of newer messages by the "pinned" strategy. */
+  pinned?: boolean;
   createdAt: string;
 }
 
 export interface ChatSession {
   id: string;
   title: string;
+  /** Set once the title was typed by the user or generated, so it is no longer derived from the messages. */
+  titleLocked: boolean;
   messages: ChatMessage[];
+  currentNodeId: string | null;
+  provider: ProviderId;
+  personaId: string | null;
+  settings: SessionSettings;
+  /** Rolling summary of history that fell out of the context window. */
+  contextSummary?: ContextSummary;
+  folderId: string | null;
+  tags: string[];
+  pinned: boolean;
+  archived: boolean;
+  /** When the chat was moved to the Trash; trashed chats are purged after a retention period. */
+  deletedAt: string | null;
   createdAt: string;
   updatedAt: string;
 }
+
+export interface Persona {
+  id: string;
+  name: string;
+  systemPrompt: string;
+  model?: string;
+  temperature?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  /** Prompt text; `{{name}}` placeholders are filled in before it is used. */
+  content: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ChatFolder {
+  id: string;
+  name: string;
+  createdAt: string;
+}
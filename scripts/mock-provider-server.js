@@ -0,0 +1,91 @@
+/**
+ * Minimal OpenAI-compatible server for exercising the /api/chat upstream locally.
+ * Run with `node scripts/mock-provider-server.js` (PORT defaults to 4010) and set
+ * OPENAI_BASE_URL=http://localhost:4010/v1.
+ */
+const http = require("http");
+
+const PORT = Number(process.env.PORT) || 4010;
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization"
+};
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { ...CORS_HEADERS, "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+// Messages with attachments send `content` as a list of text and image_url parts; the prompt is the text in them.
+const readText = (content) =>
+  Array.isArray(content)
+    ? content
+        .filter((part) => part && part.type === "text")
+        .map((part) => part.text)
+        .join("\n")
+    : String(content ?? "");
+
+const buildReply = (messages) => {
+  const lastUser = [...messages].reverse().find((message) => message.role === "user");
+  const prompt = lastUser ? readText(lastUser.content).trim() : "";
+  return `Mock reply #${messages.length} to: ${prompt || "(empty prompt)"}`;
+};
+
+const streamReply = (res, reply) => {
+  res.writeHead(200, { ...CORS_HEADERS, "Content-Type": "text/event-stream", "Cache-Control": "no-cache" });
+  const tokens = reply.match(/\s*\S+\s*/g) || [];
+  let index = 0;
+  const timer = setInterval(() => {
+    if (index >= tokens.length) {
+      clearInterval(timer);
+      res.end("data: [DONE]\n\n");
+      return;
+    }
+    const chunk = { object: "chat.completion.chunk", choices: [{ index: 0, delta: { content: tokens[index] } }] };
+    res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+    index += 1;
+  }, 30);
+  res.on("close", () => clearInterval(timer));
+};
+
+const server = http.createServer((req, res) => {
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, CORS_HEADERS);
+    res.end();
+    return;
+  }
+  if (req.method !== "POST" || !req.url.endsWith("/chat/completions")) {
+    sendJson(res, 404, { error: { message: "Not found" } });
+    return;
+  }
+
+  let raw = "";
+  req.on("data", (chunk) => {
+    raw += chunk;
+  });
+  req.on("end", () => {
+    let body;
+    try {
+      body = JSON.parse(raw || "{}");
+    } catch (error) {
+      sendJson(res, 400, { error: { message: "Invalid JSON body" } });
+      return;
+    }
+    const messages = Array.isArray(body.messages) ? body.messages : [];
+    if (body.stream) {
+      streamReply(res, buildReply(messages));
+      return;
+    }
+    sendJson(res, 200, {
+      id: `mock-${Date.now()}`,
+      object: "chat.completion",
+      model: body.model || "mock-model",
+      choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content: buildReply(messages) } }]
+    });
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock provider listening on http://localhost:${PORT}/v1`);
+});
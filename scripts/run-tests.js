@@ -0,0 +1,49 @@
+/**
+ * Runs the unit tests, the `*.test.ts` files next to the modules they cover, with Node's built-in test
+ * runner. TypeScript is transpiled as files are required, so there is no build step:
+ * `node scripts/run-tests.js` runs every test, `node scripts/run-tests.js components/core` only those below
+ * a path. Type errors are left to the type check.
+ */
+const fs = require("fs");
+const path = require("path");
+const ts = require("typescript");
+
+const ROOT = path.join(__dirname, "..");
+const SEARCHED = ["app", "components"];
+const TEST_FILE = /\.test\.tsx?$/;
+
+const compile = (module, filename) => {
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, "utf8"), {
+    fileName: filename,
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+      jsx: ts.JsxEmit.ReactJSX,
+      esModuleInterop: true
+    }
+  });
+  module._compile(outputText, filename);
+};
+
+require.extensions[".ts"] = compile;
+require.extensions[".tsx"] = compile;
+
+const findTests = (target) => {
+  if (!fs.existsSync(target)) return [];
+  if (fs.statSync(target).isFile()) return TEST_FILE.test(target) ? [target] : [];
+  return fs
+    .readdirSync(target, { withFileTypes: true })
+    .filter((entry) => entry.name !== "node_modules" && !entry.name.startsWith("."))
+    .flatMap((entry) => findTests(path.join(target, entry.name)));
+};
+
+const targets = process.argv.length > 2 ? process.argv.slice(2) : SEARCHED;
+const files = targets.flatMap((target) => findTests(path.resolve(ROOT, target))).sort();
+
+if (!files.length) {
+  console.error(`No test files found under ${targets.join(", ")}`);
+  process.exit(1);
+}
+
+// node:test runs whatever the required files register and sets the exit code when a test fails.
+files.forEach((file) => require(file));